@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Save, Trash2, X } from 'lucide-react';
+import { ActionBindings, GameAction, GestureTrigger } from '../types';
+import {
+  ACTION_LABELS,
+  BINDABLE_TRIGGERS,
+  BindingPreset,
+  BUILT_IN_PRESETS,
+  deleteCustomPreset,
+  findConflicts,
+  findUnbound,
+  GESTURE_INFO,
+  loadCustomPresets,
+  saveCustomPreset,
+} from '../services/bindings';
+
+interface BindingsPanelProps {
+  bindings: ActionBindings;
+  onApply: (bindings: ActionBindings) => void;
+  onClose: () => void;
+}
+
+const BindingsPanel: React.FC<BindingsPanelProps> = ({ bindings, onApply, onClose }) => {
+  const [draft, setDraft] = useState<ActionBindings>(bindings);
+  const [customPresets, setCustomPresets] = useState<BindingPreset[]>(loadCustomPresets);
+  const [presetName, setPresetName] = useState('');
+
+  const conflicts = findConflicts(draft);
+  const unbound = findUnbound(draft);
+  const conflicted = new Set(conflicts.flatMap((c) => c.actions));
+  const isValid = conflicts.length === 0 && unbound.length === 0;
+
+  const bind = (action: GameAction, trigger: GestureTrigger | null) => setDraft({ ...draft, [action]: trigger });
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    saveCustomPreset(presetName.trim(), draft);
+    setCustomPresets(loadCustomPresets());
+    setPresetName('');
+  };
+
+  const removePreset = (id: string) => {
+    deleteCustomPreset(id);
+    setCustomPresets(loadCustomPresets());
+  };
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 text-white backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg bg-gray-900 border border-gray-700 rounded-xl p-4 text-sm">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-xl font-bold">Gesture Controls</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-white/10" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Presets */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[...BUILT_IN_PRESETS, ...customPresets].map((preset) => (
+            <span key={preset.id} className="flex items-center rounded bg-white/10">
+              <button onClick={() => setDraft(preset.bindings)} className="px-2 py-1 hover:bg-white/10 rounded">
+                {preset.name}
+              </button>
+              {!preset.builtIn && (
+                <button onClick={() => removePreset(preset.id)} className="px-1 text-gray-400 hover:text-red-400" aria-label={`Delete ${preset.name}`}>
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+
+        {/* Action -> gesture table */}
+        <div className="flex flex-col gap-2">
+          {Object.values(GameAction).map((action) => (
+            <label key={action} className="flex items-center justify-between gap-4">
+              <span className={conflicted.has(action) ? 'text-red-400' : ''}>{ACTION_LABELS[action]}</span>
+              <select
+                value={draft[action] ?? ''}
+                onChange={(e) => bind(action, (e.target.value || null) as GestureTrigger | null)}
+                className={`w-48 px-2 py-1 rounded bg-white/10 border ${conflicted.has(action) ? 'border-red-500' : 'border-white/10'}`}
+              >
+                <option value="">Unbound</option>
+                {BINDABLE_TRIGGERS.map((trigger) => (
+                  <option key={trigger} value={trigger}>
+                    {GESTURE_INFO[trigger].emoji} {GESTURE_INFO[trigger].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {/* Validation */}
+        {(conflicts.length > 0 || unbound.length > 0) && (
+          <div className="mt-3 p-2 rounded bg-red-500/10 border border-red-500/30 text-red-300 flex gap-2">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <div>
+              {conflicts.map((c) => (
+                <p key={c.trigger}>
+                  {GESTURE_INFO[c.trigger].label} is bound to both {c.actions.map((a) => ACTION_LABELS[a]).join(' and ')}
+                </p>
+              ))}
+              {unbound.map((action) => (
+                <p key={action}>{ACTION_LABELS[action]} needs a gesture</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-4 flex items-center gap-2">
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="flex-1 px-2 py-1 rounded bg-white/10 border border-white/10"
+          />
+          <button
+            onClick={savePreset}
+            disabled={!isValid || !presetName.trim()}
+            className="flex items-center gap-1 px-3 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+          >
+            <Save size={14} /> Save Preset
+          </button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={!isValid}
+            className="px-3 py-1 rounded bg-green-500 text-black font-bold disabled:opacity-40"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BindingsPanel;
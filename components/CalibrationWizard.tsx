@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { GestureType, HandFeatures, VisionState } from '../types';
+import { buildProfile, CalibrationProfile, saveProfile, setActiveProfileId } from '../services/calibration';
+
+interface CalibrationWizardProps {
+  vision: VisionState;
+  onComplete: (profile: CalibrationProfile) => void;
+  onCancel: () => void;
+}
+
+type StepKey = GestureType | 'TWO_HANDS';
+
+const STEPS: { key: StepKey; label: string; emoji: string; hint: string }[] = [
+  { key: GestureType.OPEN_PALM, label: 'Open Palm', emoji: '🖐️', hint: 'Spread all five fingers towards the camera' },
+  { key: GestureType.CLOSED_FIST, label: 'Closed Fist', emoji: '✊', hint: 'Make a fist, thumb over your fingers' },
+  { key: GestureType.THUMBS_UP, label: 'Thumbs Up', emoji: '👍', hint: 'Fist with your thumb pointing up' },
+  { key: 'TWO_HANDS', label: 'Two Hands', emoji: '👐', hint: 'Raise both hands into view' },
+];
+
+const PREPARE_MS = 2000;
+const RECORD_MS = 3000;
+const MIN_SAMPLES = 10;
+
+type Phase = 'prepare' | 'record' | 'retry' | 'name';
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ vision, onComplete, onCancel }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('prepare');
+  const [progress, setProgress] = useState(0);
+  const [name, setName] = useState('');
+
+  const phaseStartRef = useRef(performance.now());
+  const samplesRef = useRef<Partial<Record<GestureType, HandFeatures[]>>>({});
+  const twoHandsRef = useRef({ frames: 0, seen: 0 }); // Only for the "step back" warning, not saved
+  const lastCapturedAtRef = useRef<number | undefined>(undefined);
+
+  const step = STEPS[stepIndex];
+
+  const startPhase = (next: Phase) => {
+    phaseStartRef.current = performance.now();
+    setProgress(0);
+    setPhase(next);
+  };
+
+  const sampleCount = () =>
+    step.key === 'TWO_HANDS' ? twoHandsRef.current.frames : samplesRef.current[step.key]?.length ?? 0;
+
+  // Phase timer
+  useEffect(() => {
+    if (phase !== 'prepare' && phase !== 'record') return;
+    const duration = phase === 'prepare' ? PREPARE_MS : RECORD_MS;
+    const timer = setInterval(() => {
+      const elapsed = performance.now() - phaseStartRef.current;
+      setProgress(Math.min(elapsed / duration, 1));
+      if (elapsed < duration) return;
+
+      if (phase === 'prepare') {
+        startPhase('record');
+      } else if (sampleCount() < MIN_SAMPLES) {
+        startPhase('retry');
+      } else if (stepIndex < STEPS.length - 1) {
+        setStepIndex(stepIndex + 1);
+        startPhase('prepare');
+      } else {
+        startPhase('name');
+      }
+    }, 100);
+    return () => clearInterval(timer);
+  }, [phase, stepIndex]);
+
+  // Collect samples while recording, once per camera frame (the same worker
+  // result can arrive again with a re-render)
+  useEffect(() => {
+    if (phase !== 'record') return;
+    if (vision.capturedAt !== undefined && vision.capturedAt === lastCapturedAtRef.current) return;
+    lastCapturedAtRef.current = vision.capturedAt;
+    if (step.key === 'TWO_HANDS') {
+      twoHandsRef.current.frames++;
+      if (vision.handCount >= 2) twoHandsRef.current.seen++;
+      return;
+    }
+    const hand = vision.hands?.[0];
+    if (hand) {
+      (samplesRef.current[step.key] ??= []).push(hand.features);
+    }
+  }, [vision]);
+
+  const retry = () => {
+    if (step.key === 'TWO_HANDS') twoHandsRef.current = { frames: 0, seen: 0 };
+    else samplesRef.current[step.key] = [];
+    startPhase('prepare');
+  };
+
+  const finish = () => {
+    const profile = buildProfile(name.trim() || 'Player', samplesRef.current);
+    saveProfile(profile);
+    setActiveProfileId(profile.id);
+    onComplete(profile);
+  };
+
+  const twoHandRate = twoHandsRef.current.frames ? twoHandsRef.current.seen / twoHandsRef.current.frames : 0;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white backdrop-blur-sm p-8 text-center">
+      <button onClick={onCancel} className="absolute top-4 right-4 p-1 rounded hover:bg-white/10" aria-label="Cancel calibration">
+        <X size={20} />
+      </button>
+
+      {phase === 'name' ? (
+        <>
+          <Check size={48} className="text-green-400 mb-4" />
+          <h2 className="text-3xl font-bold mb-2">Calibration complete</h2>
+          {twoHandRate < 0.8 && (
+            <p className="mb-2 text-sm text-yellow-300">Both hands were only seen {Math.round(twoHandRate * 100)}% of the time — step back a little for turbo.</p>
+          )}
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && finish()}
+            placeholder="Player name"
+            className="mt-4 px-3 py-2 rounded bg-white/10 border border-white/20 text-center"
+          />
+          <button onClick={finish} className="mt-4 px-4 py-2 rounded bg-green-500 text-black font-bold">
+            Save Profile
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400 mb-2">
+            Step {stepIndex + 1} of {STEPS.length}
+          </p>
+          <div className="text-6xl mb-4">{step.emoji}</div>
+          <h2 className="text-3xl font-bold mb-2">{step.label}</h2>
+          <p className="text-gray-300 mb-6">{step.hint}</p>
+
+          {phase === 'retry' ? (
+            <>
+              <p className="text-red-400 mb-4">Couldn't see your hand clearly. Make sure it's in the camera view.</p>
+              <button onClick={retry} className="px-4 py-2 rounded bg-white/10 hover:bg-white/20">
+                Try Again
+              </button>
+            </>
+          ) : (
+            <>
+              <p className={`font-bold mb-2 ${phase === 'record' ? 'text-red-400 animate-pulse' : 'text-blue-400'}`}>
+                {phase === 'record' ? 'Hold it...' : 'Get ready'}
+              </p>
+              <div className="w-64 h-2 bg-white/10 rounded overflow-hidden">
+                <div
+                  className={`h-full ${phase === 'record' ? 'bg-red-400' : 'bg-blue-400'}`}
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+              <p className="mt-2 text-xs text-gray-400">{vision.handCount} hand(s) detected</p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ActionBindings, GameAction } from '../types';
+import { emojiFor } from '../services/bindings';
+
+const LEGEND: { action: GameAction; label: string; className: string }[] = [
+  { action: GameAction.JUMP, label: 'Jump', className: 'bg-blue-500/20 text-blue-400' },
+  { action: GameAction.DUCK, label: 'Duck', className: 'bg-red-500/20 text-red-400' },
+  { action: GameAction.TURBO, label: 'Turbo', className: 'bg-yellow-500/20 text-yellow-400' },
+  { action: GameAction.POWER_UP, label: 'Power-up', className: 'bg-pink-500/20 text-pink-400' },
+];
+
+// The bound gesture for each action, under the track
+const ControlsLegend: React.FC<{ bindings: ActionBindings }> = ({ bindings }) => {
+  return (
+    <div className="mt-6 grid grid-cols-4 gap-4 w-full text-white/60 text-sm">
+      {LEGEND.map(({ action, label, className }) => (
+        <div key={action} className="flex items-center justify-center gap-2 p-3 bg-white/5 rounded-lg border border-white/5">
+          <div className={`w-8 h-8 rounded-full flex items-center justify-center ${className}`}>{emojiFor(bindings, action)}</div>
+          <span>{label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ControlsLegend;
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bug, Download, Play, RotateCcw, X } from 'lucide-react';
+import { GestureType, VisionState } from '../types';
+import { GESTURE_INFO } from '../services/bindings';
+import { fingerStates, FingerState } from '../services/gestureClassifier';
+import {
+  ConfusionReport,
+  ConfusionSession,
+  createConfusionSession,
+  createFpsMeter,
+  getVisionLog,
+  HAND_CONNECTIONS,
+  serializeConfusionReport,
+} from '../services/diagnostics';
+import { downloadTextFile } from '../services/files';
+
+const GESTURES = Object.values(GestureType);
+const FINGER_NAMES = ['Thumb', 'Index', 'Middle', 'Ring', 'Pinky'];
+const FINGER_STYLES: Record<FingerState, string> = {
+  EXTENDED: 'bg-green-500 text-black',
+  HALF: 'bg-yellow-500 text-black',
+  CURLED: 'bg-red-500/30 text-red-300',
+};
+const HAND_COLORS = ['#22d3ee', '#f472b6'];
+
+// Landmarks and skeleton drawn over the camera preview. The preview is
+// mirrored, the landmarks are not, so x is flipped to line them up.
+export const HandSkeleton: React.FC<{ vision: VisionState }> = ({ vision }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { clientWidth: w, clientHeight: h } = canvas;
+    if (canvas.width !== w || canvas.height !== h) {
+      canvas.width = w;
+      canvas.height = h;
+    }
+    ctx.clearRect(0, 0, w, h);
+
+    vision.hands?.forEach(({ landmarks, handedness }, hand) => {
+      const at = (i: number): [number, number] => [(1 - landmarks[i].x) * w, landmarks[i].y * h];
+      ctx.strokeStyle = HAND_COLORS[hand % HAND_COLORS.length];
+      ctx.fillStyle = '#fff';
+      ctx.lineWidth = 2;
+      for (const [from, to] of HAND_CONNECTIONS) {
+        ctx.beginPath();
+        ctx.moveTo(...at(from));
+        ctx.lineTo(...at(to));
+        ctx.stroke();
+      }
+      landmarks.forEach((_, i) => {
+        ctx.beginPath();
+        ctx.arc(...at(i), 2.5, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      if (handedness) {
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.font = 'bold 11px monospace';
+        ctx.textAlign = 'center';
+        const [x, y] = at(0);
+        ctx.fillText(handedness, x, Math.min(h - 4, y + 14));
+      }
+    });
+  }, [vision]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+interface DiagnosticsPanelProps {
+  vision: VisionState;
+  profileName: string | null; // Active calibration profile, recorded with the session
+  onClose: () => void;
+}
+
+const ms = (value: number | undefined) => (value === undefined ? '—' : `${Math.round(value)}ms`);
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ vision, profileName, onClose }) => {
+  const [fpsMeter] = useState(createFpsMeter);
+  const [session, setSession] = useState<ConfusionSession | null>(null);
+  const [intended, setIntended] = useState<GestureType | null>(null);
+  const [showFiltered, setShowFiltered] = useState(false);
+
+  useEffect(() => {
+    fpsMeter.observe(vision, performance.now());
+    session?.observe(vision);
+  }, [vision, fpsMeter, session]);
+
+  const startSession = () => {
+    setSession(createConfusionSession(profileName));
+    setIntended(null);
+  };
+
+  // Picking the gesture being held starts counting frames under it; picking it again stops
+  const label = (gesture: GestureType) => {
+    const next = intended === gesture ? null : gesture;
+    session?.setIntended(next);
+    setIntended(next);
+  };
+
+  const report: ConfusionReport | null = session?.report() ?? null;
+  const matrix = report ? (showFiltered ? report.filtered : report.raw) : {};
+  const rows = GESTURES.filter((gesture) => matrix[gesture]);
+
+  const exportReport = () => {
+    if (!report) return;
+    downloadTextFile(`gesture-diagnostics-${report.startedAt.replace(/[:.]/g, '-')}.json`, serializeConfusionReport(report));
+  };
+
+  return (
+    <div className="absolute top-4 left-4 bottom-4 w-96 max-w-[calc(100%-2rem)] overflow-y-auto bg-gray-900/90 border border-gray-700 rounded-xl p-3 text-white text-xs">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-base font-bold flex items-center gap-2"><Bug size={16} className="text-green-400" /> Diagnostics</h2>
+        <button onClick={onClose} className="p-1 rounded hover:bg-white/10" aria-label="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 mb-3 text-center font-mono">
+        {[
+          ['FPS', fpsMeter.fps().toFixed(0)],
+          ['Inference', ms(vision.inferenceMs)],
+          ['Latency', ms(vision.latencyMs)],
+          ['Hands', String(vision.handCount)],
+        ].map(([name, value]) => (
+          <div key={name} className="bg-white/5 rounded p-1">
+            <div className="text-gray-400 text-[10px]">{name}</div>
+            <div className="font-bold">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {getVisionLog().length > 0 && (
+        <div className="mb-3 font-mono text-[10px] text-gray-400">
+          {getVisionLog().map((line, i) => (
+            <div key={i}>{line}</div>
+          ))}
+        </div>
+      )}
+
+      {vision.hands?.length ? (
+        vision.hands.map((hand, i) => (
+          <div key={i} className="mb-2 p-2 rounded bg-white/5">
+            <div className="flex justify-between mb-1">
+              <span className="font-bold" style={{ color: HAND_COLORS[i % HAND_COLORS.length] }}>{hand.handedness ?? 'Unknown'} hand</span>
+              <span>{GESTURE_INFO[hand.gesture].emoji} {GESTURE_INFO[hand.gesture].label}</span>
+            </div>
+            <div className="grid grid-cols-5 gap-1 text-center">
+              {fingerStates(hand.features).map((state, finger) => (
+                <span key={finger} className={`rounded px-1 py-0.5 ${FINGER_STYLES[state]}`} title={`Curl ${hand.features.curl[finger].toFixed(2)}`}>
+                  {FINGER_NAMES[finger]}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))
+      ) : (
+        <p className="mb-2 text-gray-400">No hands in view</p>
+      )}
+      <p className="mb-3 text-gray-400">
+        Raw {vision.rawGesture ?? '—'} → smoothed {vision.gesture}
+        {vision.confidence !== undefined && ` (${pct(vision.confidence)})`}
+      </p>
+
+      <div className="border-t border-white/10 pt-2">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="font-bold">Test session</h3>
+          <div className="flex gap-1">
+            <button onClick={startSession} className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20">
+              {session ? <RotateCcw size={12} /> : <Play size={12} />} {session ? 'Restart' : 'Start'}
+            </button>
+            <button onClick={exportReport} disabled={!report?.frames} className="flex items-center gap-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40">
+              <Download size={12} /> JSON
+            </button>
+          </div>
+        </div>
+
+        {session && (
+          <>
+            <p className="mb-1 text-gray-400">Hold a gesture and pick it below; pick it again to stop counting.</p>
+            <div className="flex flex-wrap gap-1 mb-2">
+              {GESTURES.map((gesture) => (
+                <button
+                  key={gesture}
+                  onClick={() => label(gesture)}
+                  className={`px-2 py-1 rounded ${intended === gesture ? 'bg-green-500 text-black font-bold' : 'bg-white/10 hover:bg-white/20'}`}
+                >
+                  {GESTURE_INFO[gesture].emoji} {GESTURE_INFO[gesture].label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {report && report.frames > 0 && (
+          <>
+            <div className="flex justify-between items-center mb-1">
+              <span>
+                {report.frames} frames · raw {pct(report.rawAccuracy)} · smoothed {pct(report.filteredAccuracy)}
+              </span>
+              <button onClick={() => setShowFiltered(!showFiltered)} className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20">
+                {showFiltered ? 'Smoothed' : 'Raw'}
+              </button>
+            </div>
+            <table className="w-full text-center font-mono">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="text-left font-normal">Intended ↓</th>
+                  {GESTURES.map((gesture) => (
+                    <th key={gesture} className="font-normal" title={GESTURE_INFO[gesture].label}>{GESTURE_INFO[gesture].emoji}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((expected) => (
+                  <tr key={expected}>
+                    <td className="text-left">{GESTURE_INFO[expected].emoji} {pct(report.perGesture[expected]?.[showFiltered ? 'filteredAccuracy' : 'rawAccuracy'] ?? 0)}</td>
+                    {GESTURES.map((detected) => {
+                      const count = matrix[expected]?.[detected] ?? 0;
+                      const color = !count ? 'text-gray-600' : detected === expected ? 'text-green-400 font-bold' : 'text-red-400';
+                      return <td key={detected} className={color}>{count}</td>;
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
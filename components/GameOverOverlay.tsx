@@ -0,0 +1,143 @@
+import React from 'react';
+import { ActionBindings, GameAction, ScoreParts } from '../types';
+import { gestureFor } from '../services/bindings';
+import { COIN_COLOR } from '../game/collectibles';
+import { BarChart3, Download, Film, GhostIcon, GraduationCap, Skull, Trophy } from 'lucide-react';
+
+// A rival's score in the round just finished; `running` while they're still going
+export interface RaceStanding {
+  name: string;
+  score: number;
+  running: boolean;
+}
+
+interface GameOverOverlayProps {
+  score: number;
+  scoreParts: ScoreParts;
+  bestCombo: number;
+  newBest: boolean;
+  playerName: string;
+  bindings: ActionBindings;
+  ghostScore: number | null;
+  raceStandings: RaceStanding[] | null; // Live race rivals
+  nextRound: boolean; // Still in the race room, so there is another round
+  raceWaiting: boolean;
+  aiMessage: string;
+  coachEnabled: boolean;
+  coachTips: string[] | null;
+  canReplay: boolean;
+  onShowStats: () => void;
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
+  onRaceReplay: () => void;
+}
+
+const BUTTON_CLASS = 'flex items-center gap-2 px-3 py-1 rounded bg-white/10 hover:bg-white/20';
+
+// The end of a single player run: score, race results, commentary and coaching
+const GameOverOverlay: React.FC<GameOverOverlayProps> = ({
+  score,
+  scoreParts,
+  bestCombo,
+  newBest,
+  playerName,
+  bindings,
+  ghostScore,
+  raceStandings,
+  nextRound,
+  raceWaiting,
+  aiMessage,
+  coachEnabled,
+  coachTips,
+  canReplay,
+  onShowStats,
+  onWatchReplay,
+  onExportReplay,
+  onRaceReplay,
+}) => {
+  const restartGesture = <span className="text-green-400">{gestureFor(bindings, GameAction.RESTART)}</span>;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-red-900/80 text-white backdrop-blur-md p-8 text-center">
+      <Skull size={64} className="text-red-300 mb-4" />
+      <h2 className="text-5xl font-black mb-2">GAME OVER</h2>
+      <p className="text-3xl font-mono mb-2 text-yellow-300">Score: {score}</p>
+      {newBest && (
+        <p className="mb-2 flex items-center gap-2 text-sm font-bold text-yellow-300 animate-pulse">
+          <Trophy size={14} /> New personal best for {playerName}!
+        </p>
+      )}
+      <p className="text-sm text-gray-300 mb-6">
+        Obstacles {scoreParts.obstacles} · Distance {scoreParts.distance} · Coins <span style={{ color: COIN_COLOR }}>{scoreParts.coins}</span> · Best combo {bestCombo}
+      </p>
+
+      {/* Race Results */}
+      {ghostScore !== null && (
+        <p className="-mt-4 mb-6 flex items-center gap-2 text-sm font-bold">
+          <GhostIcon size={14} />
+          {score > ghostScore ? `You beat the ghost's ${ghostScore}!` : `The ghost's ${ghostScore} stands`}
+        </p>
+      )}
+      {raceStandings && (
+        <div className="-mt-4 mb-6 min-w-64 text-sm">
+          {[{ name: 'You', score, running: false, self: true }, ...raceStandings.map((standing) => ({ ...standing, self: false }))]
+            .sort((a, b) => b.score - a.score)
+            .map((entry, i) => (
+              <div key={i} className={`flex justify-between gap-4 ${entry.self ? 'text-yellow-300 font-bold' : ''}`}>
+                <span>{i + 1}. {entry.name}</span>
+                <span className="font-mono">{entry.score}{entry.running && <span className="text-gray-400 animate-pulse"> running</span>}</span>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* Gemini AI Commentary */}
+      <div className="mb-8 p-4 bg-black/40 rounded-lg max-w-lg border border-white/10">
+        <p className="text-lg italic text-gray-200">
+          {aiMessage || <span className="animate-pulse">Asking AI what it thinks of your run...</span>}
+        </p>
+      </div>
+
+      {/* Coach Tips */}
+      {coachEnabled && (
+        <div className="-mt-4 mb-8 p-4 bg-teal-900/40 rounded-lg max-w-lg border border-teal-400/20 text-left">
+          <p className="flex items-center gap-2 text-sm font-bold text-teal-300 mb-2"><GraduationCap size={14} /> Coach</p>
+          {coachTips ? (
+            <ul className="list-disc list-inside text-sm text-gray-200 space-y-1">
+              {coachTips.map((tip) => <li key={tip}>{tip}</li>)}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-300 animate-pulse">Reviewing your last runs...</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-xl font-bold animate-pulse">
+        {nextRound
+          ? raceWaiting
+            ? 'Waiting for everyone to be ready...'
+            : <>{restartGesture} when you're ready for the next round</>
+          : <>{restartGesture} to {ghostScore !== null ? 'Race the Ghost Again' : 'Restart'}</>}
+      </div>
+
+      {canReplay && (
+        <div className="mt-6 flex gap-2 text-sm">
+          <button onClick={onShowStats} className={BUTTON_CLASS}>
+            <BarChart3 size={14} /> Stats
+          </button>
+          <button onClick={onWatchReplay} className={BUTTON_CLASS}>
+            <Film size={14} /> Watch Replay
+          </button>
+          <button onClick={onExportReplay} className={BUTTON_CLASS}>
+            <Download size={14} /> Export Replay
+          </button>
+          <button onClick={onRaceReplay} className={BUTTON_CLASS}>
+            <GhostIcon size={14} /> Race this Run
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameOverOverlay;
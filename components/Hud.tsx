@@ -0,0 +1,148 @@
+import React from 'react';
+import { ActionBindings, GameAction, InputSource, PowerUpType, SimState, VisionState } from '../types';
+import { emojiFor, gestureFor } from '../services/bindings';
+import { comboMultiplier } from '../game/simulation';
+import { POWER_UP_CATALOG, POWER_UP_TYPES } from '../game/collectibles';
+import { VERSUS_COLORS } from '../game/constants';
+import { Camera, Coins, Gamepad2, Keyboard, Minimize, Smartphone, Sparkles, Volume2, VolumeX, Zap } from 'lucide-react';
+
+const INPUT_SOURCE_ICONS: Record<InputSource, React.ReactNode> = {
+  [InputSource.WEBCAM]: <Camera size={12} />,
+  [InputSource.GAMEPAD]: <Gamepad2 size={12} />,
+  [InputSource.TOUCH]: <Smartphone size={12} />,
+  [InputSource.KEYBOARD]: <Keyboard size={12} />,
+};
+
+// Loot HUD, refreshed only when the simulation reports a change
+export interface LootHud {
+  coins: number;
+  multiplier: number;
+  held: PowerUpType | null;
+  active: PowerUpType[];
+}
+
+export const EMPTY_LOOT: LootHud = { coins: 0, multiplier: 1, held: null, active: [] };
+
+export const lootOf = (game: SimState): LootHud => ({
+  coins: game.stats.coins,
+  multiplier: comboMultiplier(game.combo),
+  held: game.heldPowerUp,
+  active: POWER_UP_TYPES.filter((type) => (game.activePowerUps[type] ?? 0) > 0),
+});
+
+const padScore = (score: number) => score.toString().padStart(5, '0');
+
+interface HudProps {
+  vision: VisionState;
+  inputSource: InputSource | null;
+  muted: boolean;
+  loot: LootHud;
+  bindings: ActionBindings;
+  score: number;
+  versusScores: number[] | null; // One per player in versus
+  onToggleMute: () => void;
+}
+
+// The header above the track: hands seen, input, loot and the score
+const Hud: React.FC<HudProps> = ({ vision, inputSource, muted, loot, bindings, score, versusScores, onToggleMute }) => {
+  return (
+    <div className="w-full flex justify-between items-center mb-4 bg-gray-900/80 p-4 rounded-xl border border-gray-700 backdrop-blur-sm">
+      <div className="flex items-center gap-4">
+        <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-teal-400 bg-clip-text text-transparent">
+          GESTURE DASH
+        </h1>
+        <div className="flex gap-2">
+          <span className={`px-2 py-1 rounded text-xs font-bold ${vision.handCount > 0 ? 'bg-green-500 text-black' : 'bg-red-500/20 text-red-400'}`}>
+            {vision.handCount} HANDS
+          </span>
+          {inputSource && (
+            <span className="px-2 py-1 rounded text-xs font-bold bg-blue-500/20 text-blue-300 flex items-center gap-1" title="Active input">
+              {INPUT_SOURCE_ICONS[inputSource]} {inputSource}
+            </span>
+          )}
+          {vision.isTurbo && (
+            <span className="px-2 py-1 rounded text-xs font-bold bg-yellow-400 text-black animate-pulse flex items-center gap-1">
+              <Zap size={12} /> TURBO{vision.turboIntensity !== undefined && ` ${Math.round(vision.turboIntensity * 100)}%`}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onToggleMute}
+          className="p-1 rounded text-gray-300 hover:bg-white/10"
+          title={muted ? 'Unmute' : 'Mute'}
+        >
+          {muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+        </button>
+        <span className="px-2 py-1 rounded text-xs font-bold bg-yellow-400/20 text-yellow-300 flex items-center gap-1" title="Coins">
+          <Coins size={12} /> {loot.coins}
+        </span>
+        {loot.multiplier > 1 && (
+          <span className="px-2 py-1 rounded text-xs font-bold bg-orange-500 text-black" title="Combo multiplier">
+            x{loot.multiplier}
+          </span>
+        )}
+        {loot.held && (
+          <span
+            className="px-2 py-1 rounded text-xs font-bold text-black flex items-center gap-1"
+            style={{ backgroundColor: POWER_UP_CATALOG[loot.held].color }}
+            title={`Use with ${gestureFor(bindings, GameAction.POWER_UP)} or E`}
+          >
+            <Sparkles size={12} /> {POWER_UP_CATALOG[loot.held].label} {emojiFor(bindings, GameAction.POWER_UP)}
+          </span>
+        )}
+        {loot.active.map((type) => (
+          <span key={type} className="px-2 py-1 rounded text-xs font-bold border animate-pulse" style={{ borderColor: POWER_UP_CATALOG[type].color, color: POWER_UP_CATALOG[type].color }}>
+            {POWER_UP_CATALOG[type].label}
+          </span>
+        ))}
+        {versusScores ? (
+          <div className="flex gap-4 text-2xl font-mono font-bold">
+            {versusScores.map((playerScore, i) => (
+              <span key={i} style={{ color: VERSUS_COLORS[i] }}>P{i + 1} {padScore(playerScore)}</span>
+            ))}
+          </div>
+        ) : (
+          <div className="text-3xl font-mono font-bold text-white">
+            {padScore(score)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface KioskHudProps {
+  showScore: boolean;
+  score: number;
+  versusScores: number[] | null;
+  onExit: () => void;
+}
+
+// Kiosk mode: just the score, and a way out for staff
+export const KioskHud: React.FC<KioskHudProps> = ({ showScore, score, versusScores, onExit }) => {
+  return (
+    <>
+      {showScore && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-6 text-4xl font-mono font-bold text-white drop-shadow pointer-events-none">
+          {versusScores
+            ? versusScores.map((playerScore, i) => (
+                <span key={i} style={{ color: VERSUS_COLORS[i] }}>P{i + 1} {padScore(playerScore)}</span>
+              ))
+            : padScore(score)}
+        </div>
+      )}
+      <button
+        onClick={onExit}
+        className="absolute top-2 left-2 p-2 rounded text-white opacity-20 hover:opacity-100 hover:bg-white/10 transition-opacity"
+        title="Leave kiosk mode"
+        aria-label="Leave kiosk mode"
+      >
+        <Minimize size={16} />
+      </button>
+    </>
+  );
+};
+
+export default Hud;
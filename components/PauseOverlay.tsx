@@ -0,0 +1,35 @@
+import React from 'react';
+import { ActionBindings, GameAction } from '../types';
+import { gestureFor } from '../services/bindings';
+import { PauseReason } from '../game/gameState';
+import { Pause, Play } from 'lucide-react';
+
+const PAUSE_TITLES: Record<PauseReason, string> = {
+  MANUAL: 'Paused',
+  HANDS: 'Hands out of view',
+  HIDDEN: 'Paused while you were away',
+};
+
+interface PauseOverlayProps {
+  reason: PauseReason;
+  bindings: ActionBindings;
+  onResume: () => void;
+}
+
+const PauseOverlay: React.FC<PauseOverlayProps> = ({ reason, bindings, onResume }) => {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 text-white backdrop-blur-sm">
+      <Pause size={64} className="text-purple-300 mb-4" />
+      <h2 className="text-4xl font-bold mb-2">{PAUSE_TITLES[reason]}</h2>
+      {reason === 'HANDS' && <p className="text-gray-300 mb-2">Step back into view of the camera</p>}
+      <p className="text-gray-300">
+        <span className="text-yellow-400 font-bold">{gestureFor(bindings, GameAction.JUMP)}</span>, <span className="text-purple-400 font-bold">{gestureFor(bindings, GameAction.PAUSE)}</span>, Space or Esc to resume
+      </p>
+      <button onClick={onResume} className="mt-4 flex items-center gap-2 px-3 py-1 rounded bg-white/10 hover:bg-white/20 text-sm">
+        <Play size={14} /> Resume
+      </button>
+    </div>
+  );
+};
+
+export default PauseOverlay;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Check, Globe, LogOut, X } from 'lucide-react';
+import { Difficulty } from '../types';
+import { RACE_SERVER_URL, RaceRoom } from '../services/race';
+import { DIFFICULTY_LABELS } from '../services/difficulty';
+
+interface RaceLobbyProps {
+  room: RaceRoom | null;
+  connecting: boolean;
+  error: string;
+  defaultName: string;
+  difficulty: Difficulty; // Used when this client opens a new room
+  onJoin: (url: string, room: string, name: string) => void;
+  onReady: () => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const RaceLobby: React.FC<RaceLobbyProps> = ({
+  room,
+  connecting,
+  error,
+  defaultName,
+  difficulty,
+  onJoin,
+  onReady,
+  onLeave,
+  onClose,
+}) => {
+  const [url, setUrl] = useState(RACE_SERVER_URL);
+  const [roomName, setRoomName] = useState('');
+  const [name, setName] = useState(defaultName);
+
+  const canJoin = !connecting && url.trim() !== '' && roomName.trim() !== '' && name.trim() !== '';
+  const join = () => canJoin && onJoin(url.trim(), roomName.trim(), name.trim());
+  const self = room?.peers.find((peer) => peer.id === room.id);
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 text-white backdrop-blur-sm p-4">
+      <div className="w-full max-w-md max-h-full overflow-y-auto bg-gray-900 border border-gray-700 rounded-xl p-4 text-sm">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-xl font-bold flex items-center gap-2"><Globe size={18} className="text-blue-400" /> Race Online</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-white/10" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {!room ? (
+          <div className="flex flex-col gap-2">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-400">Server</span>
+              <input value={url} onChange={(e) => setUrl(e.target.value)} className="px-2 py-1 rounded bg-white/10 border border-white/10 font-mono" />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-400">Room</span>
+              <input
+                value={roomName}
+                onChange={(e) => setRoomName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && join()}
+                placeholder="Pick a name and share it"
+                className="px-2 py-1 rounded bg-white/10 border border-white/10"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-400">Your name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && join()}
+                className="px-2 py-1 rounded bg-white/10 border border-white/10"
+              />
+            </label>
+            <p className="text-xs text-gray-400">
+              A new room races on {DIFFICULTY_LABELS[difficulty === Difficulty.ADAPTIVE ? Difficulty.NORMAL : difficulty]}; joining an existing one uses its difficulty.
+            </p>
+            <button
+              onClick={join}
+              disabled={!canJoin}
+              className="mt-1 px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 disabled:opacity-40"
+            >
+              {connecting ? 'Connecting...' : 'Join Room'}
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <p>
+              Room <span className="font-bold">{room.name}</span> · {DIFFICULTY_LABELS[room.difficulty]}
+            </p>
+            <ul className="flex flex-col gap-1">
+              {room.peers.map((peer) => (
+                <li key={peer.id} className="flex justify-between px-2 py-1 rounded bg-white/5">
+                  <span className={peer.id === room.id ? 'text-yellow-300' : ''}>{peer.name}</span>
+                  <span className={peer.ready ? 'text-green-400' : 'text-gray-500'}>{peer.ready ? 'Ready' : 'Not ready'}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-400">
+              {room.peers.length < 2 ? 'Waiting for someone else to join...' : 'The race starts once everyone is ready.'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={onReady}
+                disabled={self?.ready}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-1 rounded bg-green-600 hover:bg-green-500 disabled:opacity-40"
+              >
+                <Check size={14} /> Ready
+              </button>
+              <button onClick={onLeave} className="flex items-center gap-2 px-3 py-1 rounded bg-white/10 hover:bg-white/20">
+                <LogOut size={14} /> Leave
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default RaceLobby;
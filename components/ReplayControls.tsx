@@ -0,0 +1,70 @@
+import React from 'react';
+import { Play, Pause, X } from 'lucide-react';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  dt: number;
+  isPaused: boolean;
+  speed: number;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  tick,
+  totalTicks,
+  dt,
+  isPaused,
+  speed,
+  onTogglePause,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}) => {
+  return (
+    <div className="absolute top-4 left-4 right-4 flex items-center gap-3 bg-black/70 p-2 rounded-lg border border-white/10 text-white text-xs">
+      <span className="px-2 py-1 rounded font-bold bg-purple-500 text-black">REPLAY</span>
+      <button onClick={onTogglePause} className="p-1 rounded hover:bg-white/10" aria-label={isPaused ? 'Play' : 'Pause'}>
+        {isPaused ? <Play size={16} /> : <Pause size={16} />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={totalTicks}
+        value={tick}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-purple-400"
+      />
+      <span className="font-mono w-20 text-right">
+        {formatTime(tick * dt)} / {formatTime(totalTicks * dt)}
+      </span>
+      <div className="flex gap-1">
+        {REPLAY_SPEEDS.map((s) => (
+          <button
+            key={s}
+            onClick={() => onSpeedChange(s)}
+            className={`px-2 py-1 rounded font-mono ${s === speed ? 'bg-purple-400 text-black' : 'hover:bg-white/10'}`}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+      <button onClick={onExit} className="p-1 rounded hover:bg-white/10" aria-label="Exit replay">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -1,394 +1,670 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import Webcam from 'react-webcam';
-import { GameState, GestureType, VisionState, Player, Obstacle } from '../types';
-import { initializeVision, processVideoFrame } from '../services/vision';
-import { generateGameOverMessage } from '../services/gemini';
-import { Play, RotateCcw, Hand, Zap, Skull, Trophy } from 'lucide-react';
-
-// Game Constants
-const GRAVITY = 0.6;
-const JUMP_FORCE = -12; // Negative Y is up
-const GROUND_Y = 350;
-const DUCK_HEIGHT = 30;
-const NORMAL_HEIGHT = 60;
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 450;
-const BASE_SPEED = 6;
-const TURBO_SPEED_MULTIPLIER = 1.8;
+import { GameState, VisionState, SimState, InputSource, GameAction, ActionBindings, Difficulty, SimEvent, PlayerProfile, DifficultyCurve } from '../types';
+import { initializeVision, setCalibrationProfile } from '../services/vision';
+import { getActiveBindings, resolveActions, setActiveBindings } from '../services/bindings';
+import { CalibrationProfile, getActiveProfileId, loadProfiles, setActiveProfileId } from '../services/calibration';
+import {
+  createGamepadProvider,
+  createInputManager,
+  createKeyboardProvider,
+  createTouchProvider,
+  createWebcamProvider,
+  IDLE_INPUT,
+  InputManager,
+} from '../services/input';
+import { generateGameOverMessage, summarizeRun } from '../services/commentary';
+import { getPersonalBest, recordScore } from '../services/personalBest';
+import { addPlayer, getActivePlayerId, loadPlayers, setActivePlayerId } from '../services/players';
+import { addRun, createRunRecord, dominantSource } from '../services/runHistory';
+import { getDifficulty, recordAdaptiveRun, resolveDifficultyCurve, setDifficulty } from '../services/difficulty';
+import { getTheme, setTheme } from '../services/theme';
+import { AudioSettings, createAudioEngine, loadAudioSettings, saveAudioSettings } from '../services/audio';
+import { getHandLossTimeout, setHandLossTimeout } from '../services/autoPause';
+import { getHitboxMargin, getHitboxSettings, getShowHitboxes, setHitboxMargin, setShowHitboxes } from '../services/hitboxes';
+import { PipPlacement } from '../services/display';
+import { createSimState, step } from '../game/simulation';
+import { DIFFICULTY_CURVES } from '../game/difficultyCurves';
+import { isVersusOver, stepVersus } from '../game/versus';
+import { advanceGhost, createGhost } from '../game/ghost';
+import { COUNTDOWN_SECONDS, countdownLeft, GameEvent, handsLost, PauseReason, transition } from '../game/gameState';
+import { randomSeed } from '../game/rng';
+import { advanceClock, createFixedStepClock, lerp, resetClock } from '../game/loop';
+import { createRenderer } from '../renderer/renderer';
+import { ThemeId } from '../renderer/themes';
+import { createReplay, createReplayState, expandInputs, parseReplay, recordInput, ReplayFile, serializeReplay, simulateTo } from '../game/replay';
+import { downloadTextFile } from '../services/files';
+import { RACE_SEND_INTERVAL } from '../services/race';
+import { RaceDifficulty } from '../services/raceMessages';
+import { useRace } from '../hooks/useRace';
+import { useVersus } from '../hooks/useVersus';
+import { useCoach } from '../hooks/useCoach';
+import { useDisplay } from '../hooks/useDisplay';
+import ReplayControls from './ReplayControls';
+import TouchControls from './TouchControls';
+import CalibrationWizard from './CalibrationWizard';
+import BindingsPanel from './BindingsPanel';
+import StatsScreen from './StatsScreen';
+import RaceLobby from './RaceLobby';
+import DiagnosticsPanel, { HandSkeleton } from './DiagnosticsPanel';
+import Hud, { EMPTY_LOOT, KioskHud, LootHud, lootOf } from './Hud';
+import StartScreen from './StartScreen';
+import SettingsPanel from './SettingsPanel';
+import PauseOverlay from './PauseOverlay';
+import VersusWinner from './VersusWinner';
+import GameOverOverlay from './GameOverOverlay';
+import ControlsLegend from './ControlsLegend';
+import { Lightbulb, Bug } from 'lucide-react';
+
+// Events that change the loot HUD
+const LOOT_EVENTS = new Set<SimEvent['type']>(['COLLECT', 'POWER_UP', 'SHIELD_BREAK', 'COMBO', 'COLLISION']);
+
+// A hidden preview keeps its corner so it comes back there for diagnostics
+const PIP_POSITIONS: Record<PipPlacement, string> = {
+  BOTTOM_RIGHT: 'bottom-4 right-4',
+  BOTTOM_LEFT: 'bottom-4 left-4',
+  TOP_RIGHT: 'top-4 right-4',
+  TOP_LEFT: 'top-4 left-4',
+  HIDDEN: 'bottom-4 right-4',
+};
 
 const RunnerGame: React.FC = () => {
   // Refs for game state (mutable for performance in loop)
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [renderer] = useState(() => createRenderer(getTheme())); // Keeps its sprite sheets across renders
+  const [theme, setThemeState] = useState<ThemeId>(getTheme);
+  const [audio] = useState(() => createAudioEngine(loadAudioSettings()));
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
   const requestRef = useRef<number>();
   const webcamRef = useRef<Webcam>(null);
   
   // React state for UI
   const [gameState, setGameState] = useState<GameState>(GameState.START);
+  const dispatch = (event: GameEvent) => setGameState((state) => transition(state, event));
   const [score, setScore] = useState(0);
-  const [visionState, setVisionState] = useState<VisionState>({
-    handCount: 0,
-    gesture: GestureType.NONE,
-    isTurbo: false,
-  });
+  const [visionState, setVisionState] = useState<VisionState>(IDLE_INPUT);
+  const visionRef = useRef(visionState); // The same input for the frame loop, which outlives renders
+  const showVision = (input: VisionState) => {
+    visionRef.current = input;
+    setVisionState(input);
+  };
   const [aiMessage, setAiMessage] = useState<string>("");
-  const [isLoadingVision, setIsLoadingVision] = useState(true);
+  const [visionStatus, setVisionStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [visionError, setVisionError] = useState("");
+  const [inputSource, setInputSource] = useState<InputSource | null>(null);
+
+  // Gesture calibration profiles (the active one is applied inside the vision service)
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfile] = useState<string | null>(getActiveProfileId);
+
+  // Named players for the run history and leaderboard
+  const [players, setPlayers] = useState<PlayerProfile[]>(loadPlayers);
+  const [activePlayerId, setActivePlayer] = useState<string>(getActivePlayerId);
+  const [showStats, setShowStats] = useState(false);
+  const [newBest, setNewBest] = useState(false);
+  const sourceFramesRef = useRef<Partial<Record<InputSource, number>>>({});
+
+  // Local versus: two runners on one track
+  const { versusRef, versusSplit, setVersusSplitChoice, versusScores, winner, beginVersus, showVersusScores, finishVersus, endVersus } = useVersus();
+
+  const ghostFileRef = useRef<HTMLInputElement>(null); // A replay to race as a ghost
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+  // Gesture -> action bindings, and last frame's actions for press detection
+  const [bindings, setBindings] = useState<ActionBindings>(getActiveBindings);
+  const [showBindings, setShowBindings] = useState(false);
+  const prevActionsRef = useRef(resolveActions(IDLE_INPUT, bindings));
+
+  // Input devices (camera, gamepad, touch, keyboard), polled once per frame
+  const inputRef = useRef<InputManager | null>(null);
+  const touchRef = useRef(createTouchProvider());
 
   // Game Logic State (Non-React)
-  const gameRef = useRef({
-    player: {
-      x: 50,
-      y: GROUND_Y - NORMAL_HEIGHT,
-      width: 40,
-      height: NORMAL_HEIGHT,
-      color: '#00ffcc',
-      vy: 0,
-      isJumping: false,
-      isDucking: false,
-    } as Player,
-    obstacles: [] as Obstacle[],
-    frameCount: 0,
-    currentSpeed: BASE_SPEED,
-    score: 0,
-  });
-
-  // Initialize Vision
+  const gameRef = useRef<SimState>(createSimState(randomSeed(), getActiveBindings()));
+  const clockRef = useRef(createFixedStepClock());
+
+  // Replays: the run being recorded, the last finished one, and the one being watched
+  const recordingRef = useRef<ReplayFile>(
+    createReplay(gameRef.current.seed, gameRef.current.bindings, gameRef.current.difficulty, gameRef.current.hitboxes)
+  );
+  const playbackRef = useRef<{ replay: ReplayFile; inputs: VisionState[] } | null>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+  const [lastReplay, setLastReplay] = useState<ReplayFile | null>(null);
+  const [replayTick, setReplayTick] = useState(0);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayError, setReplayError] = useState("");
+
+  // Coaching: telemetry for the current run, live hints, and tips between runs
+  const { coachEnabled, coachHint, coachTips, setCoachTips, toggleCoach, startCoaching, observeStep, finishCoaching } = useCoach();
+
+  // Difficulty preset for the next run
+  const [difficulty, setDifficultyState] = useState<Difficulty>(getDifficulty);
+
+  // Ghost and live races, and the lobby
+  const {
+    ghostRef,
+    liveRaceRef,
+    raceRoom,
+    raceConnecting,
+    raceError,
+    raceWaiting,
+    rivals,
+    showRaceLobby,
+    setShowRaceLobby,
+    endRace,
+    joinRace,
+    leaveRace,
+    readyForNextRace,
+    inLiveRace,
+    sendRunner,
+    rivalFigures,
+  } = useRace(difficulty, (seed, raceDifficulty) => startLiveRace(seed, raceDifficulty));
+  const [loot, setLoot] = useState<LootHud>(EMPTY_LOOT);
+
+  // Pausing: why, the countdown back into play, and when the camera last saw hands
+  const [pauseReason, setPauseReason] = useState<PauseReason>('MANUAL');
+  const [countdown, setCountdown] = useState(0);
+  const countdownStartRef = useRef(0);
+  const handsSeenAtRef = useRef(0);
+  const [handLossTimeout, setHandLossTimeoutState] = useState(getHandLossTimeout);
+
+  // Collision forgiveness for new runs, and the debug outlines
+  const [hitboxMargin, setHitboxMarginState] = useState(getHitboxMargin);
+  const [showHitboxes, setShowHitboxesState] = useState(getShowHitboxes);
+
+  // Screen: how the world maps onto the canvas, the camera preview, and kiosk mode
+  const { viewportRef, activeAtRef, displaySettings, kiosk, enterKiosk, exitKiosk, changeDisplay, kioskIdle } = useDisplay(canvasRef);
+
+  // Initialize Vision (the service retries on its own; this is the manual retry after that)
+  const setupVision = useCallback(async () => {
+    setVisionStatus('loading');
+    setVisionError("");
+    try {
+      await initializeVision();
+      setVisionStatus('ready');
+    } catch (e) {
+      console.error("Vision setup failed:", e);
+      setVisionError(e instanceof Error ? e.message : String(e));
+      setVisionStatus('error');
+    }
+  }, []);
+
   useEffect(() => {
-    const setup = async () => {
-      try {
-        await initializeVision();
-        setIsLoadingVision(false);
-      } catch (e) {
-        console.error("Vision setup failed:", e);
-      }
+    setupVision();
+  }, [setupVision]);
+
+  // Initialize Inputs
+  useEffect(() => {
+    const manager = createInputManager([
+      createWebcamProvider(() => webcamRef.current?.video),
+      createGamepadProvider(),
+      touchRef.current,
+      createKeyboardProvider(),
+    ]);
+    manager.start();
+    inputRef.current = manager;
+    return () => {
+      manager.stop();
+      inputRef.current = null;
     };
-    setup();
   }, []);
 
-  // Spawn Obstacles
-  const spawnObstacle = (currentSpeed: number) => {
-    const { obstacles } = gameRef.current;
-    // Min distance between obstacles based on speed
-    const minGap = 250 + (currentSpeed * 10); 
-    const lastObstacle = obstacles[obstacles.length - 1];
-
-    if (!lastObstacle || (CANVAS_WIDTH - lastObstacle.x > minGap)) {
-      if (Math.random() < 0.02) {
-        const type = Math.random() > 0.6 ? 'BIRD' : 'CACTUS';
-        obstacles.push({
-          x: CANVAS_WIDTH,
-          y: type === 'BIRD' ? GROUND_Y - 90 : GROUND_Y - 40, // Birds fly high, Cactus on ground
-          width: type === 'BIRD' ? 40 : 30,
-          height: type === 'BIRD' ? 30 : 40,
-          color: type === 'BIRD' ? '#ff4444' : '#ffaa00',
-          type,
-        });
-      }
+  const handleGameOver = async (finalScore: number) => {
+    dispatch('CRASH');
+    recordingRef.current.score = finalScore;
+    setLastReplay(recordingRef.current);
+    const playerId = getActivePlayerId();
+    const summary = summarizeRun(gameRef.current, getPersonalBest(playerId));
+    setNewBest(recordScore(playerId, finalScore));
+    addRun(createRunRecord(gameRef.current, playerId, getDifficulty(), dominantSource(sourceFramesRef.current)));
+    // Races set their own curve, so they say nothing about the adaptive one
+    const isRace = ghostRef.current !== null || liveRaceRef.current;
+    if (getDifficulty() === Difficulty.ADAPTIVE && !isRace) recordAdaptiveRun(gameRef.current.distance);
+    sendRunner(gameRef.current);
+    const run = recordingRef.current;
+    finishCoaching(gameRef.current, () => recordingRef.current === run);
+    const msg = await generateGameOverMessage(summary);
+    // Ignore late answers for a run the player already moved on from
+    if (recordingRef.current === run) setAiMessage(msg);
+  };
+
+  // Fresh simulation and recording, using the bindings active right now
+  const newRun = (seed = randomSeed(), difficulty: DifficultyCurve = resolveDifficultyCurve(getDifficulty())) => {
+    gameRef.current = createSimState(seed, getActiveBindings(), difficulty, getHitboxSettings());
+    recordingRef.current = createReplay(gameRef.current.seed, gameRef.current.bindings, gameRef.current.difficulty, gameRef.current.hitboxes);
+    sourceFramesRef.current = {};
+    startCoaching(gameRef.current.bindings);
+  };
+
+  const resetGame = (seed?: number, difficulty?: DifficultyCurve) => {
+    endVersus();
+    endRace();
+    newRun(seed, difficulty);
+    setScore(0);
+    setLoot(EMPTY_LOOT);
+    setAiMessage("");
+    setCoachTips(null);
+    dispatch('START');
+  };
+
+  // Runs aren't recorded, replayed or coached in versus; it's just the race
+  const startVersus = () => {
+    endRace();
+    gameRef.current = beginVersus().track; // Obstacles are drawn from here
+    setScore(0);
+    setLoot(EMPTY_LOOT);
+    dispatch('START');
+  };
+
+  const exitVersus = () => {
+    endVersus();
+    newRun();
+    setScore(0);
+    dispatch('MENU');
+  };
+
+  // The live run replays the ghost's seed and curve, so both face the same track
+  const startGhostRace = (replay: ReplayFile) => {
+    try {
+      const ghost = createGhost(replay);
+      resetGame(replay.seed, replay.difficulty);
+      ghostRef.current = ghost;
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
     }
   };
 
-  const handleGameOver = async (finalScore: number) => {
-    setGameState(GameState.GAME_OVER);
-    const msg = await generateGameOverMessage(finalScore);
-    setAiMessage(msg);
+  const importGhost = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      startGhostRace(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // A round starts from whatever screen the player is on. Going through the
+  // start screen leaves a replay or the calibration and abandons a solo or
+  // paused run, so the START in resetGame always applies.
+  const startLiveRace = (seed: number, raceDifficulty: RaceDifficulty) => {
+    playbackRef.current = null;
+    clockRef.current.timeScale = 1;
+    dispatch('MENU');
+    resetGame(seed, DIFFICULTY_CURVES[raceDifficulty]);
+  };
+
+  // A live race round runs on for everyone else, so it never pauses
+  const pause = (reason: PauseReason) => {
+    if (inLiveRace()) return;
+    setPauseReason(reason);
+    dispatch('PAUSE');
   };
 
-  const resetGame = () => {
-    gameRef.current = {
-      player: {
-        x: 50,
-        y: GROUND_Y - NORMAL_HEIGHT,
-        width: 40,
-        height: NORMAL_HEIGHT,
-        color: '#00ffcc',
-        vy: 0,
-        isJumping: false,
-        isDucking: false,
-      },
-      obstacles: [],
-      frameCount: 0,
-      currentSpeed: BASE_SPEED,
-      score: 0,
+  const resume = () => {
+    countdownStartRef.current = performance.now();
+    setCountdown(COUNTDOWN_SECONDS);
+    dispatch('RESUME');
+  };
+
+  // Hiding the tab mid-run pauses it (the machine ignores this outside play)
+  useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.hidden) pause('HIDDEN');
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  // Browsers only start audio from a click or key press; the first one anywhere will do
+  useEffect(() => {
+    const unlock = () => audio.unlock();
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+      audio.close();
     };
+  }, [audio]);
+
+  const changeAudio = (patch: Partial<AudioSettings>) => {
+    const next = { ...audioSettings, ...patch };
+    saveAudioSettings(next);
+    setAudioSettings(next);
+    audio.setSettings(next);
+  };
+
+  const changeTheme = (id: ThemeId) => {
+    setTheme(id);
+    setThemeState(id);
+    renderer.setTheme(id);
+  };
+
+  const changeHandLossTimeout = (ms: number) => {
+    setHandLossTimeout(ms);
+    setHandLossTimeoutState(ms);
+  };
+
+  // Takes effect from the next run; the current one keeps its settings for the replay
+  const changeHitboxMargin = (px: number) => {
+    setHitboxMargin(px);
+    setHitboxMarginState(px);
+  };
+
+  const toggleHitboxes = () => {
+    setShowHitboxes(!showHitboxes);
+    setShowHitboxesState(!showHitboxes);
+  };
+
+  const changeDifficulty = (next: Difficulty) => {
+    setDifficulty(next);
+    setDifficultyState(next);
+  };
+
+  const applyBindings = (next: ActionBindings) => {
+    setActiveBindings(next);
+    setBindings(next);
+    setShowBindings(false);
+  };
+
+  const selectProfile = (id: string | null) => {
+    setActiveProfileId(id);
+    setActiveProfile(id);
+    setCalibrationProfile(profiles.find((p) => p.id === id) ?? null);
+  };
+
+  const selectPlayer = (id: string) => {
+    setActivePlayerId(id);
+    setActivePlayer(id);
+  };
+
+  const createPlayer = (name: string) => {
+    const player = addPlayer(name);
+    setPlayers(loadPlayers());
+    selectPlayer(player.id);
+  };
+
+  const finishCalibration = (profile: CalibrationProfile) => {
+    setProfiles(loadProfiles());
+    setActiveProfile(profile.id);
+    setCalibrationProfile(profile);
+    dispatch('MENU');
+  };
+
+  const startReplay = (replay: ReplayFile) => {
+    endRace();
+    playbackRef.current = { replay, inputs: expandInputs(replay) };
+    gameRef.current = createReplayState(replay);
+    clockRef.current.timeScale = 1;
+    setReplaySpeed(1);
+    setReplayTick(0);
+    setReplayPaused(false);
+    setReplayError("");
+    setScore(0);
+    setLoot(EMPTY_LOOT);
+    dispatch('WATCH_REPLAY');
+  };
+
+  const exitReplay = () => {
+    playbackRef.current = null;
+    clockRef.current.timeScale = 1;
+    newRun();
+    setScore(0);
+    setLoot(EMPTY_LOOT);
+    dispatch('MENU');
+  };
+
+  const seekReplay = (targetTick: number) => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    gameRef.current = simulateTo(playback.replay, playback.inputs, targetTick);
+    resetClock(clockRef.current);
+    setReplayTick(gameRef.current.frameCount);
+    setScore(gameRef.current.score);
+    setLoot(lootOf(gameRef.current));
+  };
+
+  const toggleReplayPause = () => {
+    const playback = playbackRef.current;
+    // Pressing play at the end starts the replay over
+    if (replayPaused && playback && replayTick >= playback.replay.ticks) seekReplay(0);
+    setReplayPaused(!replayPaused);
+  };
+
+  const changeReplaySpeed = (speed: number) => {
+    clockRef.current.timeScale = speed;
+    setReplaySpeed(speed);
+  };
+
+  const importReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      startReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Kiosk idle reset: whatever was going on, the next visitor finds the start screen
+  const returnToStart = () => {
+    leaveRace();
+    playbackRef.current = null;
+    clockRef.current.timeScale = 1;
+    endVersus();
+    newRun();
     setScore(0);
+    setLoot(EMPTY_LOOT);
     setAiMessage("");
-    setGameState(GameState.PLAYING);
+    setCoachTips(null);
+    setShowStats(false);
+    setShowBindings(false);
+    setShowRaceLobby(false);
+    setShowDiagnostics(false);
+    activeAtRef.current = performance.now();
+    dispatch('MENU');
+  };
+
+  const exportReplay = () => {
+    if (!lastReplay) return;
+    downloadTextFile(`gesture-dash-${lastReplay.seed}.replay.json`, serializeReplay(lastReplay));
   };
 
   // Main Game Loop
-  const tick = useCallback(() => {
+  const tick = useCallback((now: number) => {
     if (!canvasRef.current) return;
     const ctx = canvasRef.current.getContext('2d');
     if (!ctx) return;
 
-    // 1. Process Vision
-    if (webcamRef.current && webcamRef.current.video && webcamRef.current.video.readyState === 4) {
-      const vState = processVideoFrame(webcamRef.current.video);
-      setVisionState(vState); // Sync to React for UI indicators
+    // A replay left playing counts as activity; one left paused doesn't
+    if (kioskIdle(now) && gameState !== GameState.START && !(gameState === GameState.REPLAY && !replayPaused)) {
+      returnToStart();
+      requestRef.current = requestAnimationFrame(tick);
+      return;
+    }
+
+    // Replay mode: inputs come from the recording, the webcam is not needed
+    if (gameState === GameState.REPLAY) {
+      const playback = playbackRef.current;
+      let alpha = 1;
+      if (playback && !replayPaused) {
+        alpha = advanceClock(clockRef.current, now, (dt) => {
+          const game = gameRef.current;
+          const input = playback.inputs[game.frameCount];
+          if (!input || game.crashedInto) {
+            setReplayPaused(true);
+            return false;
+          }
+          showVision(input);
+          const events = step(game, input, dt);
+          renderer.onEvents(events);
+          audio.onEvents(events);
+          for (const event of events) {
+            if (event.type === 'SCORE') setScore(event.total);
+            if (LOOT_EVENTS.has(event.type)) setLoot(lootOf(game));
+          }
+          setReplayTick(game.frameCount);
+        }, playback.replay.dt);
+      } else {
+        resetClock(clockRef.current);
+      }
+      const game = gameRef.current;
+      audio.update(!!playback && !replayPaused, game.currentSpeed, !!playback?.inputs[game.frameCount]?.isTurbo);
+      drawScene(ctx, false, alpha);
+      requestRef.current = requestAnimationFrame(tick);
+      return;
+    }
+
+    // 1. Process Input (camera gestures or one of the fallback devices)
+    let input: VisionState = IDLE_INPUT;
+    let source: InputSource | null = null;
+    if (inputRef.current) {
+      const polled = inputRef.current.poll();
+      input = polled.state;
+      source = polled.source;
+      showVision(input); // Sync to React for UI indicators
+      setInputSource(polled.source);
 
       // Handle Inputs based on Game State
+      const actions = resolveActions(input, getActiveBindings());
+      const previous = prevActionsRef.current;
+      const pressed = (action: GameAction) => actions[action] && !previous[action];
+      prevActionsRef.current = actions;
+      if (input.handCount > 0 || Object.values(actions).some(Boolean)) activeAtRef.current = now;
+
       if (gameState === GameState.START) {
-          if (vState.gesture === GestureType.OPEN_PALM) {
-              setGameState(GameState.PLAYING);
+          if (actions[GameAction.JUMP]) {
+              resetGame();
           }
       } else if (gameState === GameState.GAME_OVER) {
-          if (vState.gesture === GestureType.THUMBS_UP) {
-              resetGame();
+          // Only a fresh gesture restarts: with Restart and Jump on one gesture
+          // (e.g. the limited-mobility preset), the jump held at the crash mustn't
+          // skip this screen
+          if (inLiveRace()) {
+              if (pressed(GameAction.RESTART)) readyForNextRace();
+          } else if (pressed(GameAction.RESTART)) {
+              if (versusRef.current) startVersus();
+              else if (ghostRef.current) startGhostRace(ghostRef.current.replay);
+              else resetGame();
           }
       } else if (gameState === GameState.PLAYING) {
-        // Player Control
-        const p = gameRef.current.player;
-
-        // Jump
-        if (vState.gesture === GestureType.OPEN_PALM && !p.isJumping) {
-          p.vy = JUMP_FORCE;
-          p.isJumping = true;
-          p.isDucking = false;
-        }
-
-        // Duck
-        if (vState.gesture === GestureType.CLOSED_FIST) {
-          p.isDucking = true;
-          p.height = DUCK_HEIGHT;
-          p.y = GROUND_Y - DUCK_HEIGHT;
-          // Fast fall if in air
-          if (p.isJumping) {
-            p.vy += 2;
+          // Camera players who step away get paused; other devices never lose their "hands"
+          if (input.handCount > 0 || source !== InputSource.WEBCAM) handsSeenAtRef.current = now;
+          if (pressed(GameAction.PAUSE)) {
+              pause('MANUAL');
+          } else if (handsLost(handsSeenAtRef.current, now, handLossTimeout)) {
+              pause('HANDS');
+          }
+      } else if (gameState === GameState.PAUSED) {
+          if (pressed(GameAction.PAUSE) || pressed(GameAction.JUMP)) {
+              resume();
+          }
+      } else if (gameState === GameState.COUNTDOWN) {
+          if (pressed(GameAction.PAUSE)) {
+              pause('MANUAL');
           }
-        } else {
-            // Stand up if not ducking
-            // Removed redundant check for gesture !== CLOSED_FIST as we are in the else block of gesture === CLOSED_FIST
-           if (p.isDucking) {
-               p.isDucking = false;
-               p.height = NORMAL_HEIGHT;
-               p.y = GROUND_Y - NORMAL_HEIGHT;
-           }
-        }
-
-        // Turbo Speed
-        gameRef.current.currentSpeed = vState.isTurbo 
-            ? BASE_SPEED * TURBO_SPEED_MULTIPLIER 
-            : BASE_SPEED;
       }
     }
 
+    if (gameState === GameState.COUNTDOWN) {
+      const left = countdownLeft(countdownStartRef.current, now);
+      setCountdown(left);
+      if (left === 0) dispatch('COUNTDOWN_DONE');
+    }
+
     if (gameState !== GameState.PLAYING) {
+      handsSeenAtRef.current = now; // The hand-loss timer starts over with play
       // Just draw the static scene or start screen logic if needed
       // But we still want to clear/draw background
-      drawScene(ctx, true);
+      resetClock(clockRef.current);
+      audio.update(false, 0, false);
+      drawScene(ctx, true, 1);
       requestRef.current = requestAnimationFrame(tick);
       return;
     }
 
-    // 2. Update Physics
-    const game = gameRef.current;
-    const p = game.player;
-
-    // Gravity
-    if (p.y < GROUND_Y - p.height || p.vy < 0) {
-       p.y += p.vy;
-       p.vy += GRAVITY;
-       p.isJumping = true;
-    } else {
-       p.vy = 0;
-       p.isJumping = false;
-       p.y = GROUND_Y - p.height;
+    // Versus: each player's slice of the input drives their own runner
+    const versus = versusRef.current;
+    if (versus) {
+      const inputs = input.players ?? [input];
+      const alpha = advanceClock(clockRef.current, now, (dt) => {
+        const events = stepVersus(versus, inputs, dt);
+        renderer.onEvents(events.flat());
+        audio.onEvents(events.flat());
+        if (events.some((list) => list.some((event) => event.type === 'SCORE'))) {
+          showVersusScores(versus);
+        }
+        if (isVersusOver(versus)) {
+          finishVersus(versus);
+          dispatch('CRASH');
+          return false;
+        }
+      });
+      audio.update(true, versus.track.currentSpeed, false);
+      drawScene(ctx, false, alpha);
+      requestRef.current = requestAnimationFrame(tick);
+      return;
     }
 
-    // Obstacles
-    spawnObstacle(game.currentSpeed);
-    
-    // Move & Collision
-    for (let i = game.obstacles.length - 1; i >= 0; i--) {
-      const obs = game.obstacles[i];
-      obs.x -= game.currentSpeed;
-
-      // Remove off-screen
-      if (obs.x + obs.width < 0) {
-        game.obstacles.splice(i, 1);
-        game.score += 10;
-        setScore(game.score); // Sync score
-      }
+    if (source) sourceFramesRef.current[source] = (sourceFramesRef.current[source] ?? 0) + 1;
 
-      // Collision AABB
-      if (
-        p.x < obs.x + obs.width &&
-        p.x + p.width > obs.x &&
-        p.y < obs.y + obs.height &&
-        p.y + p.height > obs.y
-      ) {
-        handleGameOver(game.score);
+    // 2. Update Simulation in fixed steps, independent of the display refresh rate
+    const game = gameRef.current;
+    const alpha = advanceClock(clockRef.current, now, (dt) => {
+      recordInput(recordingRef.current, input);
+      const events = step(game, input, dt);
+      renderer.onEvents(events);
+      audio.onEvents(events);
+      observeStep(game, input, events);
+      if (ghostRef.current) advanceGhost(ghostRef.current, game.frameCount);
+      if (game.frameCount % RACE_SEND_INTERVAL === 0) sendRunner(game);
+      for (const event of events) {
+        if (LOOT_EVENTS.has(event.type)) setLoot(lootOf(game));
+        if (event.type === 'SCORE') {
+          setScore(event.total); // Sync score
+        } else if (event.type === 'COLLISION') {
+          handleGameOver(game.score);
+          return false;
+        }
       }
-    }
-
-    // Progression
-    game.frameCount++;
-    if (game.frameCount % 600 === 0) {
-       // Increase base speed slightly every ~10 seconds
-       // Note: this is added to current logic next frame
-    }
+    });
 
-    drawScene(ctx, false);
+    audio.update(!game.crashedInto, game.currentSpeed, input.isTurbo);
+    drawScene(ctx, false, alpha);
     
     requestRef.current = requestAnimationFrame(tick);
-  }, [gameState]);
+  }, [gameState, replayPaused, handLossTimeout, showHitboxes, kiosk, displaySettings.kioskIdleMs]);
 
-  // Drawing Logic
-  const drawScene = (ctx: CanvasRenderingContext2D, isPaused: boolean) => {
+  // `alpha` blends between the previous and current simulation step
+  const drawScene = (ctx: CanvasRenderingContext2D, isPaused: boolean, alpha: number) => {
     const game = gameRef.current;
-    
-    // Clear
-    ctx.fillStyle = '#1a1a1a';
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Turbo Effect Background
-    if (visionState.isTurbo && !isPaused) {
-        ctx.fillStyle = 'rgba(0, 255, 204, 0.05)';
-        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-        
-        // Speed lines
-        ctx.strokeStyle = 'rgba(0, 255, 204, 0.2)';
-        ctx.lineWidth = 2;
-        for(let i=0; i<5; i++) {
-            const y = Math.random() * CANVAS_HEIGHT;
-            ctx.beginPath();
-            ctx.moveTo(0, y);
-            ctx.lineTo(CANVAS_WIDTH, y);
-            ctx.stroke();
-        }
-    }
-
-    // Ground
-    ctx.fillStyle = '#444';
-    ctx.fillRect(0, GROUND_Y, CANVAS_WIDTH, CANVAS_HEIGHT - GROUND_Y);
-
-    // Obstacles
-    game.obstacles.forEach(obs => {
-      ctx.fillStyle = obs.color;
-      ctx.fillRect(obs.x, obs.y, obs.width, obs.height);
+    // One runner per player in versus; knocked-out runners fade. Rivals go
+    // first so the local runner is drawn over them.
+    const runners = versusRef.current?.runners ?? [game];
+    renderer.draw(ctx, {
+      game,
+      alpha,
+      isPaused,
+      isTurbo: visionRef.current.isTurbo,
+      now: performance.now(),
+      viewport: viewportRef.current,
+      showHitboxes,
+      figures: [
+        ...rivalFigures(game),
+        ...runners.map((runner, index) => ({
+          player: { ...runner.player, y: lerp(runner.player.prevY, runner.player.y, alpha) },
+          frame: runner.frameCount,
+          opacity: versusRef.current && runner.crashedInto ? 0.35 : 1,
+          label: versusRef.current ? `P${index + 1}` : undefined,
+          shield: !!runner.activePowerUps.SHIELD,
+          hitboxes: runner.hitboxes,
+        })),
+      ],
     });
-
-    // Player (Human Figure)
-    const p = game.player;
-    const frame = game.frameCount;
-    
-    ctx.strokeStyle = p.color;
-    ctx.fillStyle = p.color;
-    ctx.lineWidth = 4;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    // Add glow for hero
-    ctx.shadowBlur = 15;
-    ctx.shadowColor = p.color;
-
-    const cx = p.x + p.width / 2;
-    const isRunning = !p.isJumping && !p.isDucking && !isPaused;
-    const animSpeed = 0.3;
-
-    if (p.isDucking) {
-        // Ducking Pose (Slide) - Streamlined horizontal pose
-        // Head (Lower and forward)
-        ctx.beginPath();
-        ctx.arc(p.x + p.width - 12, p.y + 12, 7, 0, Math.PI * 2);
-        ctx.fill();
-        
-        // Body (Horizontal)
-        ctx.beginPath();
-        ctx.moveTo(p.x + p.width - 12, p.y + 15); // Neck
-        ctx.lineTo(p.x + 10, p.y + 20); // Hips
-        ctx.stroke();
-
-        // Legs (Trailing behind)
-        ctx.beginPath();
-        ctx.moveTo(p.x + 10, p.y + 20);
-        ctx.lineTo(p.x, p.y + 15);
-        ctx.stroke();
-
-         // Arms (Forward for balance)
-        ctx.beginPath();
-        ctx.moveTo(p.x + 20, p.y + 18);
-        ctx.lineTo(p.x + 32, p.y + 25);
-        ctx.stroke();
-
-    } else {
-        // Upright Pose (Run/Jump)
-        
-        // Head
-        ctx.beginPath();
-        ctx.arc(cx, p.y + 9, 8, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Torso
-        ctx.beginPath();
-        ctx.moveTo(cx, p.y + 16);
-        ctx.lineTo(cx, p.y + 36);
-        ctx.stroke();
-
-        // Limbs Animation
-        // Use Sin/Cos for rhythmic running
-        const limbSwing = isRunning ? Math.sin(frame * animSpeed) * 12 : 0; 
-        
-        // Legs
-        const hipY = p.y + 36;
-        const footBaseY = p.y + 58; // Near bottom of bounding box
-        
-        if (p.isJumping) {
-            // Jump Pose: Legs tucked up slightly
-            ctx.beginPath();
-            ctx.moveTo(cx, hipY);
-            ctx.lineTo(cx - 8, hipY + 10);
-            ctx.lineTo(cx - 2, hipY + 18);
-            ctx.stroke();
-
-            ctx.beginPath();
-            ctx.moveTo(cx, hipY);
-            ctx.lineTo(cx + 12, hipY + 8);
-            ctx.lineTo(cx + 8, hipY + 20);
-            ctx.stroke();
-        } else {
-            // Run Pose
-            // Left Leg
-            ctx.beginPath();
-            ctx.moveTo(cx, hipY);
-            ctx.lineTo(cx - limbSwing, footBaseY);
-            ctx.stroke();
-            
-            // Right Leg
-            ctx.beginPath();
-            ctx.moveTo(cx, hipY);
-            ctx.lineTo(cx + limbSwing, footBaseY);
-            ctx.stroke();
-        }
-
-        // Arms (Shoulder at y+18)
-        const shoulderY = p.y + 18;
-        if (p.isJumping) {
-            // Arms flung back/up
-            ctx.beginPath();
-            ctx.moveTo(cx, shoulderY);
-            ctx.lineTo(cx - 14, shoulderY - 8);
-            ctx.stroke();
-
-            ctx.beginPath();
-            ctx.moveTo(cx, shoulderY);
-            ctx.lineTo(cx + 14, shoulderY - 8);
-            ctx.stroke();
-        } else {
-             // Run Pose (Arms swing opposite to legs)
-            ctx.beginPath();
-            ctx.moveTo(cx, shoulderY);
-            ctx.lineTo(cx + limbSwing, shoulderY + 14); 
-            ctx.stroke();
-
-            ctx.beginPath();
-            ctx.moveTo(cx, shoulderY);
-            ctx.lineTo(cx - limbSwing, shoulderY + 14);
-            ctx.stroke();
-        }
-    }
-    
-    // Reset Glow
-    ctx.shadowBlur = 0;
   };
 
   useEffect(() => {
@@ -399,79 +675,220 @@ const RunnerGame: React.FC = () => {
   }, [tick]);
 
   return (
-    <div className="relative w-full max-w-4xl mx-auto p-4 flex flex-col items-center justify-center min-h-screen">
+    <div className={kiosk ? 'fixed inset-0 flex flex-col bg-black' : 'relative w-full max-w-4xl mx-auto p-4 flex flex-col items-center justify-center min-h-screen'}>
       
       {/* HUD Header */}
-      <div className="w-full flex justify-between items-center mb-4 bg-gray-900/80 p-4 rounded-xl border border-gray-700 backdrop-blur-sm">
-        <div className="flex items-center gap-4">
-          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-teal-400 bg-clip-text text-transparent">
-            GESTURE DASH
-          </h1>
-          <div className="flex gap-2">
-            <span className={`px-2 py-1 rounded text-xs font-bold ${visionState.handCount > 0 ? 'bg-green-500 text-black' : 'bg-red-500/20 text-red-400'}`}>
-              {visionState.handCount} HANDS
-            </span>
-            {visionState.isTurbo && (
-               <span className="px-2 py-1 rounded text-xs font-bold bg-yellow-400 text-black animate-pulse flex items-center gap-1">
-                 <Zap size={12} /> TURBO
-               </span>
-            )}
-          </div>
-        </div>
-        <div className="text-3xl font-mono font-bold text-white">
-          {score.toString().padStart(5, '0')}
-        </div>
-      </div>
+      {!kiosk && (
+        <Hud
+          vision={visionState}
+          inputSource={inputSource}
+          muted={audioSettings.muted}
+          loot={loot}
+          bindings={bindings}
+          score={score}
+          versusScores={versusRef.current ? versusScores : null}
+          onToggleMute={() => changeAudio({ muted: !audioSettings.muted })}
+        />
+      )}
 
-      {/* Game Container */}
-      <div className="relative border-4 border-gray-700 rounded-lg overflow-hidden shadow-2xl bg-black">
+      {/* Game Container: 16:9 on the page, the whole screen in kiosk mode */}
+      <div className={kiosk ? 'relative w-full h-full overflow-hidden bg-black' : 'relative w-full aspect-video border-4 border-gray-700 rounded-lg overflow-hidden shadow-2xl bg-black'}>
         
-        {/* The Game Canvas */}
+        {/* The Game Canvas, its pixels sized to fit (see renderer/viewport.ts) */}
         <canvas 
           ref={canvasRef} 
-          width={CANVAS_WIDTH} 
-          height={CANVAS_HEIGHT} 
-          className="block w-full h-auto"
+          className="block w-full h-full"
         />
 
+        {/* Kiosk HUD: just the score, and a way out for staff */}
+        {kiosk && (
+          <KioskHud
+            showScore={gameState === GameState.PLAYING || gameState === GameState.PAUSED || gameState === GameState.COUNTDOWN}
+            score={score}
+            versusScores={versusRef.current ? versusScores : null}
+            onExit={exitKiosk}
+          />
+        )}
+
+        {/* Live Coach Hint */}
+        {gameState === GameState.PLAYING && coachHint && (
+          <div className={`absolute ${kiosk ? 'top-20' : 'top-4'} left-1/2 -translate-x-1/2 px-4 py-2 rounded-full bg-teal-500/90 text-black font-bold flex items-center gap-2 pointer-events-none`}>
+            <Lightbulb size={16} /> {coachHint}
+          </div>
+        )}
+
         {/* Start Screen Overlay */}
         {gameState === GameState.START && (
-           <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 text-white backdrop-blur-sm">
-              <div className="mb-6 animate-bounce">
-                  <Hand size={64} className="text-blue-400" />
-              </div>
-              <h2 className="text-4xl font-bold mb-4">Ready to Run?</h2>
-              <div className="flex flex-col gap-2 text-center text-gray-300">
-                <p><span className="text-yellow-400 font-bold">Open Palm 🖐️</span> to Start & Jump</p>
-                <p><span className="text-red-400 font-bold">Closed Fist ✊</span> to Duck</p>
-                <p><span className="text-green-400 font-bold">2 Hands 👐</span> for Turbo Boost</p>
-              </div>
-              {isLoadingVision && <p className="mt-8 text-blue-400 animate-pulse">Initializing Vision AI...</p>}
-           </div>
+          <StartScreen
+            bindings={bindings}
+            visionStatus={visionStatus}
+            visionError={visionError}
+            hasProfiles={profiles.length > 0}
+            replayError={replayError}
+            onRetryVision={setupVision}
+            onPlayWithKeyboard={() => resetGame()}
+          >
+            {!kiosk && (
+              <SettingsPanel
+                difficulty={difficulty}
+                theme={theme}
+                handLossTimeout={handLossTimeout}
+                hitboxMargin={hitboxMargin}
+                showHitboxes={showHitboxes}
+                players={players}
+                activePlayerId={activePlayerId}
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                canCalibrate={visionStatus === 'ready'}
+                coachEnabled={coachEnabled}
+                versusSplit={versusSplit}
+                raceRoomName={raceRoom?.name ?? null}
+                audioSettings={audioSettings}
+                displaySettings={displaySettings}
+                onDifficultyChange={changeDifficulty}
+                onThemeChange={changeTheme}
+                onHandLossTimeoutChange={changeHandLossTimeout}
+                onHitboxMarginChange={changeHitboxMargin}
+                onToggleHitboxes={toggleHitboxes}
+                onSelectPlayer={selectPlayer}
+                onSelectProfile={selectProfile}
+                onCalibrate={() => dispatch('CALIBRATE')}
+                onShowBindings={() => setShowBindings(true)}
+                onShowStats={() => setShowStats(true)}
+                onToggleCoach={toggleCoach}
+                onImportReplay={() => replayFileRef.current?.click()}
+                onVersusSplitChange={setVersusSplitChoice}
+                onStartVersus={startVersus}
+                onRaceGhost={() => ghostFileRef.current?.click()}
+                onShowRaceLobby={() => setShowRaceLobby(true)}
+                onAudioChange={changeAudio}
+                onDisplayChange={changeDisplay}
+                onEnterKiosk={enterKiosk}
+              />
+            )}
+          </StartScreen>
         )}
 
-        {/* Game Over Overlay */}
-        {gameState === GameState.GAME_OVER && (
-          <div className="absolute inset-0 flex flex-col items-center justify-center bg-red-900/80 text-white backdrop-blur-md p-8 text-center">
-             <Skull size={64} className="text-red-300 mb-4" />
-             <h2 className="text-5xl font-black mb-2">GAME OVER</h2>
-             <p className="text-3xl font-mono mb-6 text-yellow-300">Score: {score}</p>
-             
-             {/* Gemini AI Commentary */}
-             <div className="mb-8 p-4 bg-black/40 rounded-lg max-w-lg border border-white/10">
-                <p className="text-lg italic text-gray-200">
-                  {aiMessage || <span className="animate-pulse">Asking AI what it thinks of your run...</span>}
-                </p>
-             </div>
-
-             <div className="flex items-center gap-2 text-xl font-bold animate-pulse">
-                <span className="text-green-400">Thumbs Up 👍</span> to Restart
-             </div>
+        {/* Pause Overlay */}
+        {gameState === GameState.PAUSED && (
+          <PauseOverlay reason={pauseReason} bindings={bindings} onResume={resume} />
+        )}
+
+        {/* Countdown back into play */}
+        {gameState === GameState.COUNTDOWN && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/40 text-white pointer-events-none">
+            <span className="text-9xl font-black text-yellow-300 drop-shadow-lg">{countdown}</span>
           </div>
         )}
 
-        {/* Webcam Preview (Small PiP) */}
-        <div className="absolute bottom-4 right-4 w-32 h-24 border-2 border-gray-600 rounded overflow-hidden bg-black shadow-lg opacity-80 hover:opacity-100 transition-opacity">
+        {/* Gesture Bindings */}
+        {showBindings && (
+          <BindingsPanel bindings={bindings} onApply={applyBindings} onClose={() => setShowBindings(false)} />
+        )}
+
+        {/* Live Race Lobby */}
+        {showRaceLobby && (
+          <RaceLobby
+            room={raceRoom}
+            connecting={raceConnecting}
+            error={raceError}
+            defaultName={players.find((p) => p.id === activePlayerId)?.name ?? ''}
+            difficulty={difficulty}
+            onJoin={joinRace}
+            onReady={readyForNextRace}
+            onLeave={leaveRace}
+            onClose={() => setShowRaceLobby(false)}
+          />
+        )}
+
+        {/* Run History and Leaderboard */}
+        {showStats && (
+          <StatsScreen
+            players={players}
+            activePlayerId={activePlayerId}
+            onSelectPlayer={selectPlayer}
+            onAddPlayer={createPlayer}
+            onHistoryImported={() => {
+              setPlayers(loadPlayers());
+              setActivePlayer(getActivePlayerId());
+            }}
+            onClose={() => setShowStats(false)}
+          />
+        )}
+
+        {/* Calibration Wizard */}
+        {gameState === GameState.CALIBRATING && (
+          <CalibrationWizard
+            vision={visionState}
+            onComplete={finishCalibration}
+            onCancel={() => dispatch('MENU')}
+          />
+        )}
+
+        {/* Versus Winner Overlay */}
+        {gameState === GameState.GAME_OVER && versusRef.current && (
+          <VersusWinner
+            winner={winner}
+            scores={versusScores}
+            survived={versusRef.current.runners.map((runner) => runner.elapsed)}
+            bindings={bindings}
+            onExit={exitVersus}
+          />
+        )}
+
+        {/* Game Over Overlay */}
+        {gameState === GameState.GAME_OVER && !versusRef.current && (
+          <GameOverOverlay
+            score={score}
+            scoreParts={gameRef.current.scoreParts}
+            bestCombo={gameRef.current.stats.bestCombo}
+            newBest={newBest}
+            playerName={players.find((p) => p.id === activePlayerId)?.name ?? ''}
+            bindings={bindings}
+            ghostScore={ghostRef.current ? ghostRef.current.replay.score : null}
+            raceStandings={liveRaceRef.current ? rivals.map(({ name, runner }) => ({ name, score: runner.score, running: !runner.crashed })) : null}
+            nextRound={liveRaceRef.current && !!raceRoom}
+            raceWaiting={raceWaiting}
+            aiMessage={aiMessage}
+            coachEnabled={coachEnabled}
+            coachTips={coachTips}
+            canReplay={!!lastReplay}
+            onShowStats={() => setShowStats(true)}
+            onWatchReplay={() => lastReplay && startReplay(lastReplay)}
+            onExportReplay={exportReplay}
+            onRaceReplay={() => lastReplay && startGhostRace(lastReplay)}
+          />
+        )}
+
+        {/* Replay Controls */}
+        {gameState === GameState.REPLAY && playbackRef.current && (
+          <ReplayControls
+            tick={replayTick}
+            totalTicks={playbackRef.current.replay.ticks}
+            dt={playbackRef.current.replay.dt}
+            isPaused={replayPaused}
+            speed={replaySpeed}
+            onTogglePause={toggleReplayPause}
+            onSeek={seekReplay}
+            onSpeedChange={changeReplaySpeed}
+            onExit={exitReplay}
+          />
+        )}
+
+        <input ref={replayFileRef} type="file" accept="application/json,.json" className="hidden" onChange={importReplay} />
+        <input ref={ghostFileRef} type="file" accept="application/json,.json" className="hidden" onChange={importGhost} />
+
+        {/* Gesture Diagnostics */}
+        {showDiagnostics && (
+          <DiagnosticsPanel
+            vision={visionState}
+            profileName={profiles.find((profile) => profile.id === activeProfileId)?.name ?? null}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
+
+        {/* Webcam Preview (Small PiP, enlarged with the landmark overlay while diagnosing) */}
+        <div className={`absolute ${PIP_POSITIONS[displaySettings.pip]} ${showDiagnostics ? 'w-80 h-60 opacity-100' : `${kiosk ? 'w-48 h-36' : 'w-32 h-24'} opacity-80`} ${displaySettings.pip === 'HIDDEN' && !showDiagnostics ? 'invisible' : ''} border-2 border-gray-600 rounded overflow-hidden bg-black shadow-lg hover:opacity-100 transition-opacity`}>
            <Webcam
              ref={webcamRef}
              width={128}
@@ -481,28 +898,36 @@ const RunnerGame: React.FC = () => {
              videoConstraints={{ width: 320, height: 240, facingMode: "user" }}
              className="w-full h-full object-cover"
            />
+           {/* Versus: where the camera splits the players */}
+           {versusRef.current && versusSplit === 'HALF' && (
+             <div className="absolute inset-y-0 left-1/2 border-l border-dashed border-white/60 pointer-events-none" />
+           )}
+           {showDiagnostics && <HandSkeleton vision={visionState} />}
+           {!kiosk && (
+             <button
+               onClick={() => setShowDiagnostics(!showDiagnostics)}
+               className={`absolute top-1 right-1 p-1 rounded ${showDiagnostics ? 'bg-green-500 text-black' : 'bg-black/60 text-white hover:bg-black/80'}`}
+               title="Gesture diagnostics"
+               aria-label="Gesture diagnostics"
+             >
+               <Bug size={12} />
+             </button>
+           )}
            {/* Gesture Debug Text */}
            <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-[10px] text-white text-center py-1 truncate">
-              {visionState.gesture}
+              {visionState.players && versusRef.current
+                ? visionState.players.map((player) => player.gesture).join(' | ')
+                : visionState.gesture}
+              {visionState.ageMs !== undefined && <span className="text-gray-400"> · {Math.round(visionState.ageMs)}ms</span>}
            </div>
         </div>
       </div>
 
+      {/* On-screen buttons for touch devices */}
+      {touchRef.current.isAvailable() && <TouchControls onPress={touchRef.current.press} />}
+
       {/* Controls Legend */}
-      <div className="mt-6 grid grid-cols-3 gap-4 w-full text-white/60 text-sm">
-         <div className="flex items-center justify-center gap-2 p-3 bg-white/5 rounded-lg border border-white/5">
-            <div className="w-8 h-8 rounded-full bg-blue-500/20 flex items-center justify-center text-blue-400">🖐️</div>
-            <span>Jump</span>
-         </div>
-         <div className="flex items-center justify-center gap-2 p-3 bg-white/5 rounded-lg border border-white/5">
-            <div className="w-8 h-8 rounded-full bg-red-500/20 flex items-center justify-center text-red-400">✊</div>
-            <span>Duck</span>
-         </div>
-         <div className="flex items-center justify-center gap-2 p-3 bg-white/5 rounded-lg border border-white/5">
-            <div className="w-8 h-8 rounded-full bg-yellow-500/20 flex items-center justify-center text-yellow-400">👐</div>
-            <span>Turbo</span>
-         </div>
-      </div>
+      {!kiosk && <ControlsLegend bindings={bindings} />}
     </div>
   );
 };
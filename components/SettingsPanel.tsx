@@ -0,0 +1,249 @@
+import React from 'react';
+import { Difficulty, PlayerProfile, VersusSplit } from '../types';
+import { CalibrationProfile } from '../services/calibration';
+import { DIFFICULTY_LABELS } from '../services/difficulty';
+import { AudioSettings } from '../services/audio';
+import { HAND_LOSS_TIMEOUTS } from '../services/autoPause';
+import { HITBOX_MARGINS } from '../services/hitboxes';
+import { DisplaySettings, KIOSK_IDLE_TIMEOUTS, PIP_PLACEMENTS, PipPlacement } from '../services/display';
+import { ThemeId, THEME_IDS, THEMES } from '../renderer/themes';
+import { BarChart3, Crosshair, GhostIcon, Globe, GraduationCap, Maximize, Settings, Upload, Users, Volume2 } from 'lucide-react';
+
+interface SettingsPanelProps {
+  difficulty: Difficulty;
+  theme: ThemeId;
+  handLossTimeout: number;
+  hitboxMargin: number;
+  showHitboxes: boolean;
+  players: PlayerProfile[];
+  activePlayerId: string;
+  profiles: CalibrationProfile[];
+  activeProfileId: string | null;
+  canCalibrate: boolean;
+  coachEnabled: boolean;
+  versusSplit: VersusSplit;
+  raceRoomName: string | null;
+  audioSettings: AudioSettings;
+  displaySettings: DisplaySettings;
+  onDifficultyChange: (difficulty: Difficulty) => void;
+  onThemeChange: (theme: ThemeId) => void;
+  onHandLossTimeoutChange: (ms: number) => void;
+  onHitboxMarginChange: (px: number) => void;
+  onToggleHitboxes: () => void;
+  onSelectPlayer: (id: string) => void;
+  onSelectProfile: (id: string | null) => void;
+  onCalibrate: () => void;
+  onShowBindings: () => void;
+  onShowStats: () => void;
+  onToggleCoach: () => void;
+  onImportReplay: () => void;
+  onVersusSplitChange: (split: VersusSplit) => void;
+  onStartVersus: () => void;
+  onRaceGhost: () => void;
+  onShowRaceLobby: () => void;
+  onAudioChange: (patch: Partial<AudioSettings>) => void;
+  onDisplayChange: (patch: Partial<DisplaySettings>) => void;
+  onEnterKiosk: () => void;
+}
+
+const SELECT_CLASS = 'px-2 py-1 rounded bg-white/10 border border-white/10';
+const BUTTON_CLASS = 'flex items-center gap-2 px-3 py-1 rounded bg-white/10 hover:bg-white/20';
+const toggleClass = (on: boolean) => `px-3 py-1 rounded ${on ? 'bg-teal-600 hover:bg-teal-500' : 'bg-white/10 hover:bg-white/20'}`;
+
+// The start screen's settings and game modes
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  difficulty,
+  theme,
+  handLossTimeout,
+  hitboxMargin,
+  showHitboxes,
+  players,
+  activePlayerId,
+  profiles,
+  activeProfileId,
+  canCalibrate,
+  coachEnabled,
+  versusSplit,
+  raceRoomName,
+  audioSettings,
+  displaySettings,
+  onDifficultyChange,
+  onThemeChange,
+  onHandLossTimeoutChange,
+  onHitboxMarginChange,
+  onToggleHitboxes,
+  onSelectPlayer,
+  onSelectProfile,
+  onCalibrate,
+  onShowBindings,
+  onShowStats,
+  onToggleCoach,
+  onImportReplay,
+  onVersusSplitChange,
+  onStartVersus,
+  onRaceGhost,
+  onShowRaceLobby,
+  onAudioChange,
+  onDisplayChange,
+  onEnterKiosk,
+}) => {
+  return (
+    <>
+      <div className="mt-6 flex items-center gap-2 text-sm">
+        <select
+          value={difficulty}
+          onChange={(e) => onDifficultyChange(e.target.value as Difficulty)}
+          className={SELECT_CLASS}
+          title="Difficulty"
+        >
+          {Object.values(Difficulty).map((d) => (
+            <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>
+          ))}
+        </select>
+        <select
+          value={theme}
+          onChange={(e) => onThemeChange(e.target.value as ThemeId)}
+          className={SELECT_CLASS}
+          title="Theme"
+        >
+          {THEME_IDS.map((id) => (
+            <option key={id} value={id}>{THEMES[id].label}</option>
+          ))}
+        </select>
+        <select
+          value={handLossTimeout}
+          onChange={(e) => onHandLossTimeoutChange(Number(e.target.value))}
+          className={SELECT_CLASS}
+          title="Pause when the camera sees no hands for this long"
+        >
+          {HAND_LOSS_TIMEOUTS.map((ms) => (
+            <option key={ms} value={ms}>{ms === 0 ? 'No auto-pause' : `Auto-pause after ${ms / 1000}s`}</option>
+          ))}
+        </select>
+        <select
+          value={hitboxMargin}
+          onChange={(e) => onHitboxMarginChange(Number(e.target.value))}
+          className={SELECT_CLASS}
+          title="How far an obstacle may overlap the runner without a crash"
+        >
+          {HITBOX_MARGINS.map((px) => (
+            <option key={px} value={px}>{px === 0 ? 'Exact hitboxes' : `Forgive ${px}px`}</option>
+          ))}
+        </select>
+        <select
+          value={activePlayerId}
+          onChange={(e) => onSelectPlayer(e.target.value)}
+          className={SELECT_CLASS}
+          title="Player"
+        >
+          {players.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <select
+          value={activeProfileId ?? ''}
+          onChange={(e) => onSelectProfile(e.target.value || null)}
+          className={SELECT_CLASS}
+          title="Gesture profile"
+        >
+          <option value="">Default gestures</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={onCalibrate} disabled={!canCalibrate} className={`${BUTTON_CLASS} disabled:opacity-40`}>
+          <Crosshair size={14} /> Calibrate
+        </button>
+        <button onClick={onShowBindings} className={BUTTON_CLASS}>
+          <Settings size={14} /> Controls
+        </button>
+        <button onClick={onShowStats} className={BUTTON_CLASS}>
+          <BarChart3 size={14} /> Stats
+        </button>
+        <button
+          onClick={onToggleCoach}
+          className={`flex items-center gap-2 ${toggleClass(coachEnabled)}`}
+          title="Tips between runs and hints while playing"
+        >
+          <GraduationCap size={14} /> Coach {coachEnabled ? 'On' : 'Off'}
+        </button>
+        <button onClick={onImportReplay} className={BUTTON_CLASS}>
+          <Upload size={14} /> Import Replay
+        </button>
+      </div>
+      <div className="mt-3 flex items-center gap-2 text-sm">
+        <select
+          value={versusSplit}
+          onChange={(e) => onVersusSplitChange(e.target.value as VersusSplit)}
+          className={SELECT_CLASS}
+          title="How the camera tells the two players apart"
+        >
+          <option value="HALF">Split by screen half</option>
+          <option value="HAND">Split by hand (left / right)</option>
+        </select>
+        <button onClick={onStartVersus} className="flex items-center gap-2 px-3 py-1 rounded bg-blue-600 hover:bg-blue-500">
+          <Users size={14} /> 2 Player Versus
+        </button>
+        <button onClick={onRaceGhost} className={BUTTON_CLASS} title="Race a run from an exported replay">
+          <GhostIcon size={14} /> Race a Ghost
+        </button>
+        <button onClick={onShowRaceLobby} className={BUTTON_CLASS}>
+          <Globe size={14} /> Race Online{raceRoomName && ` (${raceRoomName})`}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-400">
+        {versusSplit === 'HALF' ? 'Player 1 stands on the left, player 2 on the right' : 'Player 1 uses a left hand, player 2 a right hand'} · Keyboard: W / S and ↑ / ↓
+      </p>
+      <div className="mt-3 flex items-center gap-2 text-sm">
+        <Volume2 size={14} className="text-gray-400" />
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={audioSettings.volume}
+          onChange={(e) => onAudioChange({ volume: Number(e.target.value), muted: false })}
+          className="w-28"
+          title="Volume"
+        />
+        <button
+          onClick={() => onAudioChange({ reduced: !audioSettings.reduced })}
+          className={toggleClass(audioSettings.reduced)}
+          title="No music, only the sounds that tell you what is happening"
+        >
+          Reduced audio {audioSettings.reduced ? 'On' : 'Off'}
+        </button>
+        <button onClick={onToggleHitboxes} className={toggleClass(showHitboxes)} title="Outline the shapes that collide">
+          Hitboxes {showHitboxes ? 'On' : 'Off'}
+        </button>
+      </div>
+      <div className="mt-3 flex items-center gap-2 text-sm">
+        <select
+          value={displaySettings.pip}
+          onChange={(e) => onDisplayChange({ pip: e.target.value as PipPlacement })}
+          className={SELECT_CLASS}
+          title="Where the camera preview sits"
+        >
+          {(Object.keys(PIP_PLACEMENTS) as PipPlacement[]).map((placement) => (
+            <option key={placement} value={placement}>{PIP_PLACEMENTS[placement]}</option>
+          ))}
+        </select>
+        <select
+          value={displaySettings.kioskIdleMs}
+          onChange={(e) => onDisplayChange({ kioskIdleMs: Number(e.target.value) })}
+          className={SELECT_CLASS}
+          title="In kiosk mode, go back to this screen when nobody has played for this long"
+        >
+          {KIOSK_IDLE_TIMEOUTS.map((ms) => (
+            <option key={ms} value={ms}>{`Kiosk resets after ${ms < 60000 ? `${ms / 1000}s` : `${ms / 60000} min`}`}</option>
+          ))}
+        </select>
+        <button onClick={onEnterKiosk} className={BUTTON_CLASS} title="Fullscreen without the header and settings, for demo installations">
+          <Maximize size={14} /> Kiosk Mode
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default SettingsPanel;
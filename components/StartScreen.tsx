@@ -0,0 +1,72 @@
+import React from 'react';
+import { ActionBindings, GameAction } from '../types';
+import { gestureFor } from '../services/bindings';
+import { Hand, Keyboard, RotateCcw } from 'lucide-react';
+
+interface StartScreenProps {
+  bindings: ActionBindings;
+  visionStatus: 'loading' | 'ready' | 'error';
+  visionError: string;
+  hasProfiles: boolean;
+  replayError: string;
+  onRetryVision: () => void;
+  onPlayWithKeyboard: () => void;
+  children?: React.ReactNode; // The settings, left out in kiosk mode
+}
+
+// How to play, and how hand tracking is getting on
+const StartScreen: React.FC<StartScreenProps> = ({
+  bindings,
+  visionStatus,
+  visionError,
+  hasProfiles,
+  replayError,
+  onRetryVision,
+  onPlayWithKeyboard,
+  children,
+}) => {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 text-white backdrop-blur-sm">
+      <div className="mb-6 animate-bounce">
+        <Hand size={64} className="text-blue-400" />
+      </div>
+      <h2 className="text-4xl font-bold mb-4">Ready to Run?</h2>
+      <div className="flex flex-col gap-2 text-center text-gray-300">
+        <p><span className="text-yellow-400 font-bold">{gestureFor(bindings, GameAction.JUMP)}</span> to Start & Jump</p>
+        <p><span className="text-red-400 font-bold">{gestureFor(bindings, GameAction.DUCK)}</span> to Duck</p>
+        <p><span className="text-green-400 font-bold">{gestureFor(bindings, GameAction.TURBO)}</span> for Turbo Boost</p>
+        {bindings[GameAction.POWER_UP] && <p><span className="text-pink-400 font-bold">{gestureFor(bindings, GameAction.POWER_UP)}</span> to use a Power-up</p>}
+        {bindings[GameAction.PAUSE] && <p><span className="text-purple-400 font-bold">{gestureFor(bindings, GameAction.PAUSE)}</span> to Pause</p>}
+        <p className="mt-2 text-xs text-gray-400">No camera? Space / ↓ / Shift / E / Esc, a gamepad or the touch buttons work too</p>
+      </div>
+      {visionStatus === 'loading' && <p className="mt-8 text-blue-400 animate-pulse">Initializing Vision AI...</p>}
+      {visionStatus === 'error' && (
+        <div className="mt-6 max-w-md p-3 rounded bg-red-900/40 border border-red-500/40 text-center">
+          <p className="text-red-300 font-bold">Hand tracking failed to load</p>
+          <p className="mt-1 text-xs text-red-200/80 break-words">{visionError}</p>
+          <div className="mt-3 flex justify-center gap-2 text-sm">
+            <button
+              onClick={onRetryVision}
+              className="flex items-center gap-2 px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+            >
+              <RotateCcw size={14} /> Retry
+            </button>
+            <button
+              onClick={onPlayWithKeyboard}
+              className="flex items-center gap-2 px-3 py-1 rounded bg-blue-600 hover:bg-blue-500"
+            >
+              <Keyboard size={14} /> Play with keyboard
+            </button>
+          </div>
+        </div>
+      )}
+      {visionStatus === 'ready' && !hasProfiles && (
+        <p className="mt-6 text-sm text-blue-300">Gestures not registering well? Calibrate them to your hand first.</p>
+      )}
+      {children}
+      {replayError && <p className="mt-2 text-sm text-red-400">{replayError}</p>}
+    </div>
+  );
+};
+
+export default StartScreen;
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Trophy, Upload, UserPlus, X } from 'lucide-react';
+import { PlayerProfile, RunRecord } from '../types';
+import { exportHistory, importHistory, listRuns, parseHistory } from '../services/runHistory';
+import { buildLeaderboard, deathCauses, playerTotals, ProgressPoint, progressSeries } from '../services/runStats';
+import { DIFFICULTY_LABELS } from '../services/difficulty';
+import { downloadTextFile } from '../services/files';
+import { OBSTACLE_CATALOG } from '../game/obstacles';
+
+interface StatsScreenProps {
+  players: PlayerProfile[];
+  activePlayerId: string;
+  onSelectPlayer: (id: string) => void;
+  onAddPlayer: (name: string) => void;
+  onHistoryImported: () => void; // Players or personal bests may have changed
+  onClose: () => void;
+}
+
+type Tab = 'leaderboard' | 'progress';
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 160;
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// Score per run with the running best on top
+const ProgressChart: React.FC<{ points: ProgressPoint[] }> = ({ points }) => {
+  if (points.length < 2) {
+    return <p className="text-gray-400 text-center py-8">Play a few more runs to see your progress.</p>;
+  }
+  const max = Math.max(...points.map((p) => p.best), 1);
+  const x = (i: number) => (i / (points.length - 1)) * CHART_WIDTH;
+  const y = (score: number) => CHART_HEIGHT - (score / max) * CHART_HEIGHT;
+  const line = (key: 'score' | 'best') => points.map((p, i) => `${x(i)},${y(p[key])}`).join(' ');
+  return (
+    <svg viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`} className="w-full h-40" role="img" aria-label="Score per run">
+      <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} stroke="#444" />
+      <polyline points={line('score')} fill="none" stroke="#60a5fa" strokeWidth={2} />
+      <polyline points={line('best')} fill="none" stroke="#facc15" strokeWidth={2} strokeDasharray="4 3" />
+      <text x={0} y={10} fill="#9ca3af" fontSize={10}>{max}</text>
+    </svg>
+  );
+};
+
+const StatsScreen: React.FC<StatsScreenProps> = ({
+  players,
+  activePlayerId,
+  onSelectPlayer,
+  onAddPlayer,
+  onHistoryImported,
+  onClose,
+}) => {
+  const [runs, setRuns] = useState<RunRecord[] | null>(null);
+  const [tab, setTab] = useState<Tab>('leaderboard');
+  const [newPlayerName, setNewPlayerName] = useState('');
+  const [message, setMessage] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listRuns().then(setRuns);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const addPlayer = () => {
+    if (!newPlayerName.trim()) return;
+    onAddPlayer(newPlayerName.trim());
+    setNewPlayerName('');
+  };
+
+  const exportFile = async () => {
+    downloadTextFile(`gesture-dash-history-${new Date().toISOString().slice(0, 10)}.json`, await exportHistory());
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = await importHistory(parseHistory(await file.text()));
+      setMessage(`Imported ${added} new run${added === 1 ? '' : 's'}`);
+      onHistoryImported();
+      refresh();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const playerRuns = (runs ?? []).filter((run) => run.playerId === activePlayerId);
+  const totals = playerTotals(playerRuns);
+  const causes = deathCauses(playerRuns);
+  const leaderboard = buildLeaderboard(runs ?? [], players);
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/80 text-white backdrop-blur-sm p-4">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-900 border border-gray-700 rounded-xl p-4 text-sm">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-xl font-bold flex items-center gap-2"><Trophy size={18} className="text-yellow-400" /> Stats</h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-white/10" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Players */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select
+            value={activePlayerId}
+            onChange={(e) => onSelectPlayer(e.target.value)}
+            className="px-2 py-1 rounded bg-white/10 border border-white/10"
+            title="Player"
+          >
+            {players.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <input
+            value={newPlayerName}
+            onChange={(e) => setNewPlayerName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addPlayer()}
+            placeholder="New player name"
+            className="flex-1 min-w-0 px-2 py-1 rounded bg-white/10 border border-white/10"
+          />
+          <button
+            onClick={addPlayer}
+            disabled={!newPlayerName.trim()}
+            className="flex items-center gap-1 px-3 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+          >
+            <UserPlus size={14} /> Add
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-2 mb-3">
+          {(['leaderboard', 'progress'] as Tab[]).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-3 py-1 rounded capitalize ${tab === t ? 'bg-blue-600' : 'bg-white/10 hover:bg-white/20'}`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+
+        {runs === null && <p className="text-gray-400 text-center py-8 animate-pulse">Loading history...</p>}
+
+        {runs !== null && tab === 'leaderboard' && (
+          leaderboard.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">No runs yet. Go set a score!</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-gray-400 text-xs">
+                <tr><th className="py-1">#</th><th>Player</th><th className="text-right">Score</th><th className="text-right">Time</th><th>Difficulty</th><th>Date</th></tr>
+              </thead>
+              <tbody>
+                {leaderboard.map(({ run, playerName }, i) => (
+                  <tr key={run.id} className={run.playerId === activePlayerId ? 'text-yellow-300' : ''}>
+                    <td className="py-1">{i + 1}</td>
+                    <td>{playerName}</td>
+                    <td className="text-right font-mono">{run.score}</td>
+                    <td className="text-right font-mono">{formatDuration(run.duration)}</td>
+                    <td className="pl-3">{DIFFICULTY_LABELS[run.difficulty]}</td>
+                    <td>{new Date(run.playedAt).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+        )}
+
+        {runs !== null && tab === 'progress' && (
+          <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {[
+                ['Runs', totals.runs],
+                ['Best', totals.bestScore],
+                ['Average', Math.round(totals.averageScore)],
+                ['Play time', formatDuration(totals.playTime)],
+                ['Jumps', totals.jumps],
+                ['Ducks', totals.ducks],
+                ['Turbo', `${Math.round(totals.turboTime)}s`],
+                ['Coins', totals.coins],
+              ].map(([label, value]) => (
+                <div key={label} className="p-2 rounded bg-white/5">
+                  <p className="text-xs text-gray-400">{label}</p>
+                  <p className="font-mono font-bold">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="text-xs text-gray-400 mb-1">
+                Score per run <span className="text-blue-400">—</span> and best so far <span className="text-yellow-400">- -</span>
+              </p>
+              <ProgressChart points={progressSeries(playerRuns)} />
+            </div>
+
+            {causes.length > 0 && (
+              <div>
+                <p className="text-xs text-gray-400 mb-1">Runs ended by</p>
+                {causes.map(({ cause, count }) => (
+                  <div key={cause} className="flex items-center gap-2 mb-1">
+                    <span className="w-28 capitalize">{OBSTACLE_CATALOG[cause].label}</span>
+                    <div className="flex-1 h-3 rounded bg-white/5">
+                      <div
+                        className="h-3 rounded"
+                        style={{ width: `${(count / causes[0].count) * 100}%`, backgroundColor: OBSTACLE_CATALOG[cause].color }}
+                      />
+                    </div>
+                    <span className="w-8 text-right font-mono">{count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Moving the history between machines */}
+        <div className="mt-4 flex items-center gap-2">
+          <button onClick={exportFile} className="flex items-center gap-1 px-3 py-1 rounded bg-white/10 hover:bg-white/20">
+            <Download size={14} /> Export History
+          </button>
+          <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 px-3 py-1 rounded bg-white/10 hover:bg-white/20">
+            <Upload size={14} /> Import History
+          </button>
+          {message && <span className="text-xs text-gray-300">{message}</span>}
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={importFile} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsScreen;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Zap, Pause, RotateCcw, Sparkles } from 'lucide-react';
+import { GameAction } from '../types';
+
+interface TouchControlsProps {
+  onPress: (action: GameAction, isDown: boolean) => void;
+}
+
+const BUTTONS: { action: GameAction; label: string; icon: React.ReactNode; className: string }[] = [
+  { action: GameAction.JUMP, label: 'Jump', icon: <ArrowUp size={20} />, className: 'bg-blue-500/30 text-blue-300' },
+  { action: GameAction.DUCK, label: 'Duck', icon: <ArrowDown size={20} />, className: 'bg-red-500/30 text-red-300' },
+  { action: GameAction.TURBO, label: 'Turbo', icon: <Zap size={20} />, className: 'bg-yellow-500/30 text-yellow-300' },
+  { action: GameAction.POWER_UP, label: 'Power', icon: <Sparkles size={20} />, className: 'bg-pink-500/30 text-pink-300' },
+  { action: GameAction.PAUSE, label: 'Pause', icon: <Pause size={20} />, className: 'bg-purple-500/30 text-purple-300' },
+  { action: GameAction.RESTART, label: 'Restart', icon: <RotateCcw size={20} />, className: 'bg-green-500/30 text-green-300' },
+];
+
+// On-screen buttons for touch devices (Jump also starts the game)
+const TouchControls: React.FC<TouchControlsProps> = ({ onPress }) => {
+  return (
+    <div className="mt-4 grid grid-cols-6 gap-3 w-full select-none touch-none">
+      {BUTTONS.map(({ action, label, icon, className }) => (
+        <button
+          key={action}
+          onPointerDown={() => onPress(action, true)}
+          onPointerUp={() => onPress(action, false)}
+          onPointerLeave={() => onPress(action, false)}
+          onPointerCancel={() => onPress(action, false)}
+          className={`flex items-center justify-center gap-2 py-6 rounded-xl border border-white/10 font-bold active:scale-95 ${className}`}
+        >
+          {icon} {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TouchControls;
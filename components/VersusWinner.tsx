@@ -0,0 +1,41 @@
+import React from 'react';
+import { ActionBindings, GameAction } from '../types';
+import { gestureFor } from '../services/bindings';
+import { VERSUS_COLORS } from '../game/constants';
+import { RotateCcw, Swords } from 'lucide-react';
+
+interface VersusWinnerProps {
+  winner: number | null; // null for a tie
+  scores: number[];
+  survived: number[]; // Seconds each player lasted
+  bindings: ActionBindings;
+  onExit: () => void;
+}
+
+const VersusWinner: React.FC<VersusWinnerProps> = ({ winner, scores, survived, bindings, onExit }) => {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white backdrop-blur-md p-8 text-center">
+      <Swords size={64} className="text-yellow-300 mb-4" />
+      <h2 className="text-5xl font-black mb-6" style={{ color: winner === null ? undefined : VERSUS_COLORS[winner] }}>
+        {winner === null ? "IT'S A TIE" : `PLAYER ${winner + 1} WINS`}
+      </h2>
+      <div className="flex gap-8 mb-8">
+        {scores.map((playerScore, i) => (
+          <div key={i} className={`p-4 rounded-lg border ${winner === i ? 'border-yellow-300 bg-yellow-300/10' : 'border-white/10 bg-white/5'}`}>
+            <p className="text-sm font-bold" style={{ color: VERSUS_COLORS[i] }}>Player {i + 1}</p>
+            <p className="text-3xl font-mono">{playerScore}</p>
+            <p className="text-xs text-gray-400">{Math.round(survived[i])}s survived</p>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 text-xl font-bold animate-pulse">
+        <span className="text-green-400">{gestureFor(bindings, GameAction.RESTART)}</span> for a Rematch
+      </div>
+      <button onClick={onExit} className="mt-6 flex items-center gap-2 px-3 py-1 rounded bg-white/10 hover:bg-white/20 text-sm">
+        <RotateCcw size={14} /> Back to Menu
+      </button>
+    </div>
+  );
+};
+
+export default VersusWinner;
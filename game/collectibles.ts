@@ -0,0 +1,33 @@
+import { Collectible, CollectibleType, PowerUpType } from '../types';
+import { COIN_SIZE, POWER_UP_SIZE } from './constants';
+
+export interface PowerUpSpec {
+  label: string;
+  duration: number; // Seconds once activated
+  color: string;
+}
+
+export const POWER_UP_CATALOG: Record<PowerUpType, PowerUpSpec> = {
+  SHIELD: { label: 'Shield', duration: 10, color: '#38bdf8' }, // Also ends on the first hit it absorbs
+  SLOW_MO: { label: 'Slow-mo', duration: 5, color: '#a78bfa' },
+  MAGNET: { label: 'Magnet', duration: 8, color: '#f472b6' },
+  DOUBLE_JUMP: { label: 'Double jump', duration: 10, color: '#4ade80' },
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UP_CATALOG) as PowerUpType[];
+
+export const COIN_COLOR = '#facc15';
+
+export const createCollectible = (type: CollectibleType, x: number, y: number): Collectible => {
+  const size = type === 'COIN' ? COIN_SIZE : POWER_UP_SIZE;
+  return {
+    x,
+    y,
+    width: size,
+    height: size,
+    color: type === 'COIN' ? COIN_COLOR : POWER_UP_CATALOG[type].color,
+    prevX: x,
+    prevY: y,
+    type,
+  };
+};
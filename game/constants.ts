@@ -0,0 +1,49 @@
+// Simulation constants. Physics values are expressed per second so the
+// simulation can be stepped with any dt (the originals were tuned at 60 FPS).
+// Positions and sizes are world units, written px here: the world is always
+// WORLD_WIDTH x WORLD_HEIGHT and the renderer scales it to fit the screen.
+export const GRAVITY = 2160; // px/s^2 (0.6 px/frame^2)
+export const JUMP_FORCE = -720; // px/s, negative Y is up
+export const FAST_FALL_ACCEL = 7200; // px/s^2 extra pull while ducking mid-air
+export const GROUND_Y = 350;
+export const DUCK_HEIGHT = 30;
+export const NORMAL_HEIGHT = 60;
+export const PLAYER_X = 50;
+export const PLAYER_WIDTH = 40;
+export const WORLD_WIDTH = 800;
+export const WORLD_HEIGHT = 450; // 16:9
+export const BASE_SPEED = 360; // px/s, starting speed before difficulty curves
+export const TURBO_SPEED_MULTIPLIER = 1.8;
+
+// Analog control
+export const MIN_JUMP_SCALE = 0.7; // Jump velocity at jumpStrength 0 (still clears a cactus)
+export const PLAYER_X_RANGE = 150; // How far laneX = 1 moves the runner ahead of its home position
+export const MIN_PLAYER_X = 0; // Lane input never takes the runner further left (the screen edge)
+export const PLAYER_X_BACK_RANGE = PLAYER_X - MIN_PLAYER_X; // How far laneX = -1 moves it back
+export const PLAYER_X_SPEED = 600; // px/s the runner slides towards its lane position
+
+// Obstacles (difficulty curves set the speed, gaps and spawn rate)
+export const OBSTACLE_POINTS = 10;
+export const SPAWN_DISTANCE_STEP = 10; // px of track per spawn roll
+
+// Scoring
+export const DISTANCE_PER_POINT = 100; // px travelled per distance point
+export const COIN_POINTS = 5;
+export const COMBO_STEP = 5; // Clean dodges per multiplier step
+export const MAX_MULTIPLIER = 5;
+
+// Collectibles and power-ups
+export const COIN_SIZE = 16;
+export const POWER_UP_SIZE = 24;
+export const MIN_COLLECTIBLE_GAP = 300;
+export const MAGNET_RADIUS = 220; // px around the runner that coins get pulled from
+export const MAGNET_PULL_SPEED = 900; // px/s
+export const SLOW_MO_FACTOR = 0.6; // World speed while slow-mo runs
+
+// Reference frame duration the original per-frame tuning was based on
+export const FRAME_DT = 1 / 60;
+
+// Versus and races
+export const VERSUS_RUNNER_SPACING = 70; // px between the runners' home positions
+export const VERSUS_COLORS = ['#00ffcc', '#60a5fa']; // Player 1, player 2
+export const RIVAL_COLOR = '#e5e7eb'; // Ghosts and live opponents, drawn translucent
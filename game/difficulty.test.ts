@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty } from '../types';
+import { DIFFICULTY_CURVES } from './difficultyCurves';
+import { sampleCurve, scaleCurve } from './difficulty';
+
+const NORMAL = DIFFICULTY_CURVES[Difficulty.NORMAL];
+
+describe('scaleCurve', () => {
+  it('leaves a curve as it is at intensity 1', () => {
+    expect(scaleCurve(NORMAL, 1).keyframes).toEqual(NORMAL.keyframes);
+  });
+
+  it('makes a harder curve faster and denser, and reach each stage sooner', () => {
+    const hard = scaleCurve(NORMAL, 1.25);
+    hard.keyframes.forEach((k, i) => {
+      const base = NORMAL.keyframes[i];
+      expect(k.speed).toBeCloseTo(base.speed * 1.25);
+      expect(k.spawnRate).toBeCloseTo(base.spawnRate * 1.25);
+      expect(k.minGap).toBeCloseTo(base.minGap / 1.25);
+      expect(k.distance).toBeCloseTo(base.distance / 1.25);
+      expect(k.mix).toEqual(base.mix);
+    });
+    const later = NORMAL.keyframes[1].distance;
+    expect(sampleCurve(hard, later / 1.25).speed).toBeCloseTo(NORMAL.keyframes[1].speed * 1.25);
+  });
+
+  it('makes an easier curve slower and sparser', () => {
+    const easy = sampleCurve(scaleCurve(NORMAL, 0.7), 0);
+    expect(easy.speed).toBeLessThan(NORMAL.keyframes[0].speed);
+    expect(easy.minGap).toBeGreaterThan(NORMAL.keyframes[0].minGap);
+  });
+
+  it('names the curve after its intensity', () => {
+    expect(scaleCurve(NORMAL, 0.9).name).toBe(`${NORMAL.name} ×0.90`);
+  });
+});
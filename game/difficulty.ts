@@ -0,0 +1,58 @@
+import { DifficultyCurve, DifficultyKeyframe } from '../types';
+import { lerp } from './loop';
+import { OBSTACLE_PATTERNS, ObstaclePattern } from './patterns';
+
+// Sampling and reshaping of difficulty curves (the curves themselves live in
+// difficultyCurves.ts). Pure functions of the curve, so runs stay deterministic.
+
+export const sampleCurve = (curve: DifficultyCurve, distance: number): DifficultyKeyframe => {
+  const { keyframes } = curve;
+  const nextIndex = keyframes.findIndex((k) => k.distance > distance);
+  if (nextIndex === -1) return keyframes[keyframes.length - 1];
+  if (nextIndex === 0) return keyframes[0];
+
+  const a = keyframes[nextIndex - 1];
+  const b = keyframes[nextIndex];
+  const t = (distance - a.distance) / (b.distance - a.distance);
+  const mix: DifficultyKeyframe['mix'] = {};
+  for (const { id } of OBSTACLE_PATTERNS) {
+    if (a.mix[id] !== undefined || b.mix[id] !== undefined) {
+      mix[id] = lerp(a.mix[id] ?? 0, b.mix[id] ?? 0, t);
+    }
+  }
+  return {
+    distance,
+    speed: lerp(a.speed, b.speed, t),
+    minGap: lerp(a.minGap, b.minGap, t),
+    spawnRate: lerp(a.spawnRate, b.spawnRate, t),
+    mix,
+    collectibleRate: lerp(a.collectibleRate ?? 0, b.collectibleRate ?? 0, t),
+    powerUpShare: lerp(a.powerUpShare ?? 0, b.powerUpShare ?? 0, t),
+  };
+};
+
+// Maps a uniform random number in [0, 1) to a pattern by weight. Patterns are
+// walked in library order, so the same number always maps to the same pattern.
+export const pickPattern = (mix: DifficultyKeyframe['mix'], r: number): ObstaclePattern | undefined => {
+  const patterns = OBSTACLE_PATTERNS.filter((pattern) => (mix[pattern.id] ?? 0) > 0);
+  const total = patterns.reduce((sum, pattern) => sum + mix[pattern.id], 0);
+  let threshold = r * total;
+  for (const pattern of patterns) {
+    threshold -= mix[pattern.id];
+    if (threshold < 0) return pattern;
+  }
+  return patterns[patterns.length - 1];
+};
+
+// Makes a curve harder (intensity > 1) or easier (< 1): faster, denser
+// obstacles that also ramp up sooner, or the reverse
+export const scaleCurve = (curve: DifficultyCurve, intensity: number): DifficultyCurve => ({
+  name: `${curve.name} ×${intensity.toFixed(2)}`,
+  keyframes: curve.keyframes.map((k) => ({
+    ...k,
+    distance: k.distance / intensity,
+    speed: k.speed * intensity,
+    minGap: k.minGap / intensity,
+    spawnRate: k.spawnRate * intensity,
+  })),
+});
@@ -0,0 +1,177 @@
+import { Difficulty, DifficultyCurve } from '../types';
+
+// Difficulty curves as plain data, so tuning them never means touching the
+// simulation. Distances are in px travelled (about 360 px per second at the
+// start of a Normal run); values between keyframes are interpolated. `mix`
+// weights are keyed by pattern id from patterns.ts.
+
+export const DIFFICULTY_CURVES: Record<Exclude<Difficulty, Difficulty.ADAPTIVE>, DifficultyCurve> = {
+  [Difficulty.EASY]: {
+    name: 'Easy',
+    keyframes: [
+      {
+        distance: 0,
+        speed: 300,
+        minGap: 320,
+        spawnRate: 1.0,
+        mix: { CACTUS: 0.8, BIRD: 0.2 },
+        collectibleRate: 0.6,
+        powerUpShare: 0.2,
+      },
+      {
+        distance: 6000,
+        speed: 350,
+        minGap: 290,
+        spawnRate: 1.2,
+        mix: { CACTUS: 0.6, BIRD: 0.2, LOW_BIRD: 0.1, DOUBLE_CACTUS: 0.1 },
+        collectibleRate: 0.6,
+        powerUpShare: 0.2,
+      },
+      {
+        distance: 20000,
+        speed: 420,
+        minGap: 260,
+        spawnRate: 1.4,
+        mix: { CACTUS: 0.4, BIRD: 0.2, LOW_BIRD: 0.15, DOUBLE_CACTUS: 0.1, TALL_CACTUS: 0.1, GAP: 0.05 },
+        collectibleRate: 0.6,
+        powerUpShare: 0.2,
+      },
+    ],
+  },
+  [Difficulty.NORMAL]: {
+    name: 'Normal',
+    keyframes: [
+      {
+        distance: 0,
+        speed: 360,
+        minGap: 250,
+        spawnRate: 1.2,
+        mix: { CACTUS: 0.6, BIRD: 0.4 },
+        collectibleRate: 0.5,
+        powerUpShare: 0.15,
+      },
+      {
+        distance: 5000,
+        speed: 420,
+        minGap: 240,
+        spawnRate: 1.4,
+        mix: { CACTUS: 0.45, BIRD: 0.25, LOW_BIRD: 0.1, TALL_CACTUS: 0.1, DOUBLE_CACTUS: 0.1 },
+        collectibleRate: 0.5,
+        powerUpShare: 0.15,
+      },
+      {
+        distance: 15000,
+        speed: 500,
+        minGap: 220,
+        spawnRate: 1.7,
+        mix: {
+          CACTUS: 0.3,
+          BIRD: 0.15,
+          LOW_BIRD: 0.1,
+          TALL_CACTUS: 0.1,
+          DOUBLE_CACTUS: 0.1,
+          SINE_BIRD: 0.1,
+          GAP: 0.1,
+          CACTUS_LOW_BIRD: 0.05,
+        },
+        collectibleRate: 0.5,
+        powerUpShare: 0.15,
+      },
+      {
+        distance: 40000,
+        speed: 600,
+        minGap: 200,
+        spawnRate: 2.0,
+        mix: {
+          CACTUS: 0.2,
+          BIRD: 0.1,
+          LOW_BIRD: 0.1,
+          TALL_CACTUS: 0.1,
+          DOUBLE_CACTUS: 0.1,
+          SINE_BIRD: 0.1,
+          GAP: 0.1,
+          CACTUS_LOW_BIRD: 0.05,
+          CACTUS_STAIRS: 0.05,
+          GAP_CACTUS: 0.05,
+          BIRD_FLOCK: 0.05,
+        },
+        collectibleRate: 0.5,
+        powerUpShare: 0.15,
+      },
+    ],
+  },
+  [Difficulty.HARD]: {
+    name: 'Hard',
+    keyframes: [
+      {
+        distance: 0,
+        speed: 420,
+        minGap: 230,
+        spawnRate: 1.5,
+        mix: { CACTUS: 0.4, BIRD: 0.3, LOW_BIRD: 0.15, TALL_CACTUS: 0.15 },
+        collectibleRate: 0.4,
+        powerUpShare: 0.12,
+      },
+      {
+        distance: 4000,
+        speed: 500,
+        minGap: 210,
+        spawnRate: 1.8,
+        mix: {
+          CACTUS: 0.3,
+          BIRD: 0.15,
+          LOW_BIRD: 0.1,
+          TALL_CACTUS: 0.1,
+          DOUBLE_CACTUS: 0.1,
+          SINE_BIRD: 0.1,
+          GAP: 0.1,
+          CACTUS_LOW_BIRD: 0.05,
+        },
+        collectibleRate: 0.4,
+        powerUpShare: 0.12,
+      },
+      {
+        distance: 12000,
+        speed: 600,
+        minGap: 190,
+        spawnRate: 2.2,
+        mix: {
+          CACTUS: 0.2,
+          BIRD: 0.1,
+          LOW_BIRD: 0.1,
+          TALL_CACTUS: 0.1,
+          DOUBLE_CACTUS: 0.1,
+          SINE_BIRD: 0.1,
+          GAP: 0.1,
+          CACTUS_LOW_BIRD: 0.05,
+          CACTUS_STAIRS: 0.05,
+          GAP_CACTUS: 0.05,
+          BIRD_FLOCK: 0.05,
+        },
+        collectibleRate: 0.4,
+        powerUpShare: 0.12,
+      },
+      {
+        distance: 30000,
+        speed: 720,
+        minGap: 180,
+        spawnRate: 2.6,
+        mix: {
+          CACTUS: 0.15,
+          BIRD: 0.1,
+          LOW_BIRD: 0.1,
+          TALL_CACTUS: 0.1,
+          DOUBLE_CACTUS: 0.1,
+          SINE_BIRD: 0.1,
+          GAP: 0.1,
+          CACTUS_LOW_BIRD: 0.05,
+          CACTUS_STAIRS: 0.1,
+          GAP_CACTUS: 0.05,
+          BIRD_FLOCK: 0.05,
+        },
+        collectibleRate: 0.4,
+        powerUpShare: 0.12,
+      },
+    ],
+  },
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ObstacleType } from '../types';
+import { TURBO_SPEED_MULTIPLIER } from './constants';
+import { DIFFICULTY_CURVES } from './difficultyCurves';
+import { createObstacle } from './obstacles';
+import { OBSTACLE_PATTERNS } from './patterns';
+import { isSequenceClearable, isSequenceFair } from './fairness';
+
+const SPEED = 360;
+const TURBO = SPEED * TURBO_SPEED_MULTIPLIER;
+
+// Obstacles at the given offsets from the right edge of the screen
+const sequence = (...items: [ObstacleType, number][]) => items.map(([type, offset]) => createObstacle(type, 800 + offset));
+
+describe('isSequenceClearable', () => {
+  it('clears single obstacles, including a tall cactus with a full jump', () => {
+    for (const type of ['CACTUS', 'TALL_CACTUS', 'BIRD', 'LOW_BIRD', 'GAP'] as ObstacleType[]) {
+      expect(isSequenceClearable(sequence([type, 0]), SPEED)).toBe(true);
+    }
+  });
+
+  it('never clears a low bird right over a cactus', () => {
+    expect(isSequenceClearable(sequence(['CACTUS', 0], ['LOW_BIRD', 0]), SPEED)).toBe(false);
+    expect(isSequenceClearable(sequence(['CACTUS', 0], ['LOW_BIRD', 0]), SPEED / 2)).toBe(false);
+  });
+
+  it('clears cacti too far apart for one jump with two', () => {
+    expect(isSequenceClearable(sequence(['CACTUS', 0], ['CACTUS', 200]), SPEED)).toBe(true);
+  });
+
+  it('needs time to land before ducking, which turbo takes away', () => {
+    const jumpThenDuck = sequence(['CACTUS', 0], ['LOW_BIRD', 100]);
+    expect(isSequenceClearable(jumpThenDuck, SPEED)).toBe(true);
+    expect(isSequenceClearable(jumpThenDuck, TURBO)).toBe(false);
+  });
+});
+
+describe('isSequenceFair', () => {
+  it('rejects a layout only a runner without turbo could clear', () => {
+    expect(isSequenceFair(sequence(['CACTUS', 0], ['LOW_BIRD', 100]), SPEED)).toBe(false);
+    expect(isSequenceFair(sequence(['CACTUS', 0], ['LOW_BIRD', 200]), SPEED)).toBe(true);
+  });
+
+  it('accepts every pattern on its own at every curve speed', () => {
+    const speeds = Object.values(DIFFICULTY_CURVES).flatMap((curve) => curve.keyframes.map((k) => k.speed));
+    for (const pattern of OBSTACLE_PATTERNS) {
+      const obstacles = sequence(...pattern.items.map((item): [ObstacleType, number] => [item.type, item.offset]));
+      for (const speed of speeds) expect(isSequenceFair(obstacles, speed), `${pattern.id} at ${speed}`).toBe(true);
+    }
+  });
+});
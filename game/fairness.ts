@@ -0,0 +1,79 @@
+import { Obstacle } from '../types';
+import { GRAVITY, JUMP_FORCE, PLAYER_WIDTH, PLAYER_X, TURBO_SPEED_MULTIPLIER } from './constants';
+import { OBSTACLE_CATALOG } from './obstacles';
+
+// Fairness check for the spawner: could a player get past this sequence of
+// obstacles at a fixed speed? Deliberately conservative: full-strength jumps
+// only, no fast-fall, runner at its home lane, and a short pause between
+// landing and jumping again.
+
+const JUMP_SPEED = -JUMP_FORCE;
+const AIR_TIME = (2 * JUMP_SPEED) / GRAVITY;
+const REJUMP_DELAY = 0.05; // s on the ground before the next jump
+
+// When, after take-off, a full jump is above `height` (null if it never gets there)
+const clearWindow = (height: number): [number, number] | null => {
+  const d = JUMP_SPEED * JUMP_SPEED - 2 * GRAVITY * height;
+  if (d <= 0) return null;
+  const r = Math.sqrt(d);
+  return [(JUMP_SPEED - r) / GRAVITY, (JUMP_SPEED + r) / GRAVITY];
+};
+
+// Seconds from now until an obstacle starts and stops overlapping the runner
+export const overlapTimes = (obs: Pick<Obstacle, 'x' | 'width'>, speed: number) => ({
+  enter: (obs.x - (PLAYER_X + PLAYER_WIDTH)) / speed,
+  exit: (obs.x + obs.width - PLAYER_X) / speed,
+});
+
+// Judges the layout alone, not the runner's current state: take-offs may lie
+// in the past, as if the player had handled everything so far perfectly.
+// `obstacles` must be sorted by x.
+export const isSequenceClearable = (obstacles: Pick<Obstacle, 'type' | 'x' | 'width'>[], speed: number): boolean => {
+  let landsAt = -Infinity; // When the last planned jump touches down
+  let canJumpAt = -Infinity; // Earliest next take-off
+  let groundUntil = -Infinity; // End of the latest stretch the runner must stay down for
+  let jump: { earliest: number; latest: number } | null = null; // Allowed take-off times
+
+  const land = () => {
+    if (jump) {
+      landsAt = jump.earliest + AIR_TIME;
+      canJumpAt = landsAt + REJUMP_DELAY;
+    }
+    jump = null;
+  };
+
+  for (const obs of obstacles) {
+    const { enter, exit } = overlapTimes(obs, speed);
+    const spec = OBSTACLE_CATALOG[obs.type];
+
+    if (spec.counter === 'DUCK') {
+      land();
+      if (landsAt > enter) return false;
+      groundUntil = Math.max(groundUntil, exit);
+      continue;
+    }
+
+    const window = clearWindow(spec.top);
+    if (!window) return false;
+    const earliest = exit - window[1];
+    const latest = enter - window[0];
+
+    // Clear it with the jump already planned, if the timing overlaps
+    if (jump && Math.max(jump.earliest, earliest) <= Math.min(jump.latest, latest)) {
+      jump = { earliest: Math.max(jump.earliest, earliest), latest: Math.min(jump.latest, latest) };
+      continue;
+    }
+
+    land();
+    const takeOff = Math.max(earliest, canJumpAt, groundUntil);
+    if (takeOff > latest) return false;
+    jump = { earliest: takeOff, latest };
+  }
+  return true;
+};
+
+// Turbo takes the runner well past the curve's speed, where a full jump covers
+// more track and can land on what comes next; a layout has to be clearable at
+// the curve's speed and at full turbo.
+export const isSequenceFair = (obstacles: Pick<Obstacle, 'type' | 'x' | 'width'>[], speed: number): boolean =>
+  isSequenceClearable(obstacles, speed) && isSequenceClearable(obstacles, speed * TURBO_SPEED_MULTIPLIER);
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../types';
+import { COUNTDOWN_SECONDS, countdownLeft, GameEvent, handsLost, transition } from './gameState';
+
+const ALL_STATES = Object.values(GameState) as GameState[];
+
+// Runs `events` in order from `state`, as successive dispatches would
+const after = (state: GameState, ...events: GameEvent[]): GameState => events.reduce(transition, state);
+
+describe('transition', () => {
+  it.each<[GameState, GameEvent, GameState]>([
+    [GameState.START, 'START', GameState.PLAYING],
+    [GameState.START, 'CALIBRATE', GameState.CALIBRATING],
+    [GameState.START, 'WATCH_REPLAY', GameState.REPLAY],
+    [GameState.PLAYING, 'PAUSE', GameState.PAUSED],
+    [GameState.PLAYING, 'CRASH', GameState.GAME_OVER],
+    [GameState.PLAYING, 'MENU', GameState.START],
+    [GameState.PAUSED, 'RESUME', GameState.COUNTDOWN],
+    [GameState.PAUSED, 'MENU', GameState.START],
+    [GameState.COUNTDOWN, 'COUNTDOWN_DONE', GameState.PLAYING],
+    [GameState.COUNTDOWN, 'PAUSE', GameState.PAUSED],
+    [GameState.COUNTDOWN, 'MENU', GameState.START],
+    [GameState.GAME_OVER, 'START', GameState.PLAYING],
+    [GameState.GAME_OVER, 'WATCH_REPLAY', GameState.REPLAY],
+    [GameState.GAME_OVER, 'MENU', GameState.START],
+    [GameState.REPLAY, 'MENU', GameState.START],
+    [GameState.CALIBRATING, 'MENU', GameState.START],
+  ])('goes from %s on %s to %s', (state, event, next) => {
+    expect(transition(state, event)).toBe(next);
+  });
+
+  it.each<[GameState, GameEvent]>([
+    [GameState.PAUSED, 'START'],
+    [GameState.REPLAY, 'START'],
+    [GameState.CALIBRATING, 'START'],
+    [GameState.PLAYING, 'START'],
+    [GameState.COUNTDOWN, 'START'],
+    [GameState.START, 'PAUSE'],
+    [GameState.START, 'CRASH'],
+    [GameState.START, 'MENU'],
+    [GameState.COUNTDOWN, 'CRASH'],
+    [GameState.PAUSED, 'CRASH'],
+    [GameState.PAUSED, 'PAUSE'],
+    [GameState.PLAYING, 'RESUME'],
+    [GameState.PLAYING, 'COUNTDOWN_DONE'],
+    [GameState.GAME_OVER, 'PAUSE'],
+    [GameState.REPLAY, 'PAUSE'],
+    [GameState.REPLAY, 'WATCH_REPLAY'],
+    [GameState.CALIBRATING, 'CALIBRATE'],
+    [GameState.CALIBRATING, 'WATCH_REPLAY'],
+  ])('ignores %s on %s', (state, event) => {
+    expect(transition(state, event)).toBe(state);
+  });
+
+  it('reaches a run from every screen by way of the start screen, as a race round does', () => {
+    for (const state of ALL_STATES) expect(after(state, 'MENU', 'START')).toBe(GameState.PLAYING);
+  });
+
+  it('pauses and counts down back into the same run', () => {
+    expect(after(GameState.PLAYING, 'PAUSE', 'RESUME', 'PAUSE', 'RESUME', 'COUNTDOWN_DONE')).toBe(GameState.PLAYING);
+  });
+});
+
+describe('countdownLeft', () => {
+  it('counts whole seconds down from COUNTDOWN_SECONDS to 0', () => {
+    expect(countdownLeft(1000, 1000)).toBe(COUNTDOWN_SECONDS);
+    expect(countdownLeft(1000, 1001)).toBe(3);
+    expect(countdownLeft(1000, 2000)).toBe(2);
+    expect(countdownLeft(1000, 2500)).toBe(2);
+    expect(countdownLeft(1000, 3999)).toBe(1);
+    expect(countdownLeft(1000, 4000)).toBe(0);
+  });
+
+  it('stays within 0 and COUNTDOWN_SECONDS', () => {
+    expect(countdownLeft(1000, 60_000)).toBe(0);
+    expect(countdownLeft(1000, 0)).toBe(COUNTDOWN_SECONDS); // The clock went backwards
+  });
+});
+
+describe('handsLost', () => {
+  it('fires once the hands have been gone for the whole timeout', () => {
+    expect(handsLost(1000, 2999, 2000)).toBe(false);
+    expect(handsLost(1000, 3000, 2000)).toBe(true);
+    expect(handsLost(1000, 10_000, 2000)).toBe(true);
+  });
+
+  it('never fires with a timeout of 0', () => {
+    expect(handsLost(0, 1e9, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { GameState } from '../types';
+
+// Screen-level state machine. The game loop and the UI send events; the table
+// says where each one leads from each state, and anything not listed is
+// ignored (a pause on the start screen, a crash during the countdown, ...).
+
+export type GameEvent =
+  | 'START' // Begin a run: solo, versus or a race
+  | 'PAUSE' // Pause action, hands out of view or the tab hidden
+  | 'RESUME' // Counts down before play continues
+  | 'COUNTDOWN_DONE'
+  | 'CRASH'
+  | 'CALIBRATE'
+  | 'WATCH_REPLAY'
+  | 'MENU'; // Back to the start screen (also when a kiosk is left idle)
+
+export type PauseReason = 'MANUAL' | 'HANDS' | 'HIDDEN';
+
+export const COUNTDOWN_SECONDS = 3;
+
+const TRANSITIONS: Record<GameState, Partial<Record<GameEvent, GameState>>> = {
+  [GameState.START]: {
+    START: GameState.PLAYING,
+    CALIBRATE: GameState.CALIBRATING,
+    WATCH_REPLAY: GameState.REPLAY,
+  },
+  [GameState.PLAYING]: {
+    PAUSE: GameState.PAUSED,
+    CRASH: GameState.GAME_OVER,
+    MENU: GameState.START,
+  },
+  [GameState.PAUSED]: {
+    RESUME: GameState.COUNTDOWN,
+    MENU: GameState.START,
+  },
+  [GameState.COUNTDOWN]: {
+    COUNTDOWN_DONE: GameState.PLAYING,
+    PAUSE: GameState.PAUSED,
+    MENU: GameState.START,
+  },
+  [GameState.GAME_OVER]: {
+    START: GameState.PLAYING,
+    WATCH_REPLAY: GameState.REPLAY,
+    MENU: GameState.START,
+  },
+  [GameState.REPLAY]: {
+    MENU: GameState.START,
+  },
+  [GameState.CALIBRATING]: {
+    MENU: GameState.START,
+  },
+};
+
+export const transition = (state: GameState, event: GameEvent): GameState => TRANSITIONS[state][event] ?? state;
+
+// Whole seconds left to show, counting down from COUNTDOWN_SECONDS to 0 (done)
+export const countdownLeft = (startedAt: number, now: number): number =>
+  Math.min(COUNTDOWN_SECONDS, Math.max(0, Math.ceil(COUNTDOWN_SECONDS - (now - startedAt) / 1000)));
+
+// Camera play pauses itself once the hands have been out of view for `timeoutMs` (0 = never)
+export const handsLost = (lastSeenAt: number, now: number, timeoutMs: number): boolean =>
+  timeoutMs > 0 && now - lastSeenAt >= timeoutMs;
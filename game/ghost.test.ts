@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType, VisionState } from '../types';
+import { DEFAULT_BINDINGS } from '../services/bindings';
+import { createSimState, step } from './simulation';
+import { DIFFICULTY_CURVES } from './difficultyCurves';
+import { DEFAULT_HITBOXES } from './hitboxes';
+import { SIM_DT } from './loop';
+import { createReplay, recordInput, ReplayFile, simulateTo } from './replay';
+import { advanceGhost, createGhost, snapshotOf } from './ghost';
+
+const IDLE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const JUMP: VisionState = { handCount: 1, gesture: GestureType.OPEN_PALM, isTurbo: false };
+
+// A run of up to `ticks` ticks that jumps now and then, cut short by a crash
+const record = (ticks: number): ReplayFile => {
+  const replay = createReplay(21, DEFAULT_BINDINGS, DIFFICULTY_CURVES.NORMAL, DEFAULT_HITBOXES);
+  const state = createSimState(21, DEFAULT_BINDINGS, DIFFICULTY_CURVES.NORMAL, DEFAULT_HITBOXES);
+  for (let i = 0; i < ticks && !state.crashedInto; i++) {
+    const input = i % 70 < 3 ? JUMP : IDLE;
+    recordInput(replay, input);
+    step(state, input, SIM_DT);
+  }
+  replay.score = state.score;
+  return replay;
+};
+
+describe('advanceGhost', () => {
+  it('catches the ghost up to the live tick, as the recorded run was at that tick', () => {
+    const ghost = createGhost(record(300));
+    advanceGhost(ghost, 120);
+    expect(ghost.state.frameCount).toBe(120);
+    expect(ghost.state).toEqual(simulateTo(ghost.replay, ghost.inputs, 120));
+  });
+
+  it('never goes back', () => {
+    const ghost = createGhost(record(300));
+    advanceGhost(ghost, 120);
+    advanceGhost(ghost, 60);
+    expect(ghost.state.frameCount).toBe(120);
+  });
+
+  it('stops where the recording ends', () => {
+    const ghost = createGhost(record(50));
+    advanceGhost(ghost, 500);
+    expect(ghost.state.frameCount).toBe(50);
+    expect(ghost.state.crashedInto).toBeNull();
+  });
+
+  it('stops where the recorded run crashed, and shows it standing still', () => {
+    const replay = record(100_000);
+    const ghost = createGhost(replay);
+    advanceGhost(ghost, replay.ticks + 100);
+    expect(ghost.state.crashedInto).not.toBeNull();
+    expect(ghost.state.frameCount).toBe(replay.ticks);
+    expect(ghost.state.score).toBe(replay.score);
+    expect(snapshotOf(ghost.state)).toMatchObject({ distance: ghost.state.distance, speed: 0, crashed: true });
+  });
+});
@@ -0,0 +1,39 @@
+import { RunnerSnapshot, SimState, VisionState } from '../types';
+import { createReplayState, expandInputs, ReplayFile } from './replay';
+import { step } from './simulation';
+
+// Racing a recorded run. The live run uses the replay's seed and curve, and
+// spawning by distance lays out the same obstacles along the track whatever
+// either runner does, so the ghost faces exactly what the player faces. The
+// ghost is re-simulated from its inputs tick for tick next to the live run.
+
+export interface Ghost {
+  replay: ReplayFile;
+  inputs: VisionState[];
+  state: SimState;
+}
+
+export const createGhost = (replay: ReplayFile): Ghost => ({
+  replay,
+  inputs: expandInputs(replay),
+  state: createReplayState(replay),
+});
+
+// Catches the ghost up to `tick`; it stops where the recording ends or crashed
+export const advanceGhost = (ghost: Ghost, tick: number) => {
+  const { state, inputs, replay } = ghost;
+  while (state.frameCount < tick && state.frameCount < inputs.length && !state.crashedInto) {
+    step(state, inputs[state.frameCount], replay.dt);
+  }
+};
+
+export const snapshotOf = (state: SimState): RunnerSnapshot => ({
+  distance: state.distance,
+  speed: state.crashedInto ? 0 : state.currentSpeed,
+  y: state.player.y,
+  height: state.player.height,
+  isJumping: state.player.isJumping,
+  isDucking: state.player.isDucking,
+  score: state.score,
+  crashed: state.crashedInto !== null,
+});
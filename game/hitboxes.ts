@@ -0,0 +1,44 @@
+import { HitboxSettings, Player, Rect, RunnerPose } from '../types';
+
+// Collision shapes for the runner. The stick figure fills little of its
+// rectangle, so each pose collides as a few boxes around the
+// head, body and legs as drawn (sprites.ts paints the same figure in the same
+// PLAYER_WIDTH x NORMAL_HEIGHT frame). The forgiveness margin shrinks every
+// box on all sides, so grazing contact doesn't end a run.
+
+export const DEFAULT_HITBOX_MARGIN = 3; // px
+
+export const DEFAULT_HITBOXES: HitboxSettings = { margin: DEFAULT_HITBOX_MARGIN };
+
+// Offsets from the runner's top-left corner
+const POSE_SHAPES: Record<RunnerPose, Rect[]> = {
+  RUN: [
+    { x: 11, y: 0, width: 18, height: 18 }, // Head
+    { x: 12, y: 16, width: 16, height: 22 }, // Torso, arms close in
+    { x: 6, y: 36, width: 28, height: 24 }, // Legs mid-stride
+  ],
+  JUMP: [
+    { x: 11, y: 0, width: 18, height: 18 },
+    { x: 5, y: 8, width: 30, height: 12 }, // Arms raised
+    { x: 16, y: 18, width: 8, height: 20 },
+    { x: 9, y: 36, width: 24, height: 22 }, // Knees tucked
+  ],
+  DUCK: [
+    { x: 19, y: 3, width: 18, height: 18 }, // Head, low and forward
+    { x: 0, y: 12, width: 34, height: 15 }, // Body, legs trailing, arms forward
+  ],
+};
+
+export const poseOf = (p: Player): RunnerPose => (p.isDucking ? 'DUCK' : p.isJumping ? 'JUMP' : 'RUN');
+
+// The runner's boxes in world space, margin already taken off
+export const playerHitboxes = (p: Player, { margin }: HitboxSettings): Rect[] =>
+  POSE_SHAPES[poseOf(p)].map((shape) => ({
+    x: p.x + shape.x + margin,
+    y: p.y + shape.y + margin,
+    width: Math.max(0, shape.width - margin * 2),
+    height: Math.max(0, shape.height - margin * 2),
+  }));
+
+export const isHitboxSettings = (value: Partial<HitboxSettings> | undefined): value is HitboxSettings =>
+  typeof value?.margin === 'number' && value.margin >= 0;
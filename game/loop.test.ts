@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType, SimState, VisionState } from '../types';
+import { createSimState, step } from './simulation';
+import { advanceClock, createFixedStepClock, MAX_FRAME_TIME, resetClock, SIM_DT } from './loop';
+
+const IDLE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const JUMP: VisionState = { handCount: 1, gesture: GestureType.OPEN_PALM, isTurbo: false };
+
+// Inputs belong to simulation steps, not display frames, as the replay recorder sees them
+const inputFor = (frame: number): VisionState => (frame % 80 < 4 ? JUMP : IDLE);
+
+// Drives one run at `hz` until it has taken `steps` fixed steps (or crashed)
+const runAt = (hz: number, steps: number): SimState => {
+  const state = createSimState(1234);
+  const clock = createFixedStepClock();
+  for (let now = 0; state.frameCount < steps && !state.crashedInto; now += 1000 / hz) {
+    advanceClock(clock, now, (dt) => {
+      step(state, inputFor(state.frameCount), dt);
+      return state.frameCount < steps && !state.crashedInto;
+    });
+  }
+  return state;
+};
+
+// Steps taken over `seconds` of frames at `hz`
+const stepsOver = (hz: number, seconds: number): number => {
+  const clock = createFixedStepClock();
+  let steps = 0;
+  for (let frame = 0; frame <= seconds * hz; frame++) {
+    advanceClock(clock, (frame * 1000) / hz, () => {
+      steps++;
+    });
+  }
+  return steps;
+};
+
+describe('advanceClock', () => {
+  it('produces the same run at 30, 60 and 144 Hz', () => {
+    const reference = runAt(60, 900);
+    expect(reference.frameCount).toBeGreaterThan(100);
+    expect(runAt(30, 900)).toEqual(reference);
+    expect(runAt(144, 900)).toEqual(reference);
+  });
+
+  it('takes one step per SIM_DT of wall time whatever the refresh rate', () => {
+    for (const hz of [30, 60, 144]) {
+      expect(Math.abs(stepsOver(hz, 10) - 10 / SIM_DT)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('returns how far it is into the next step', () => {
+    const clock = createFixedStepClock();
+    advanceClock(clock, 0, () => {});
+    const alpha = advanceClock(clock, SIM_DT * 1500, () => {});
+    expect(alpha).toBeCloseTo(0.5);
+  });
+
+  it('simulates nothing on the first frame', () => {
+    const clock = createFixedStepClock();
+    let steps = 0;
+    advanceClock(clock, 5000, () => {
+      steps++;
+    });
+    expect(steps).toBe(0);
+  });
+
+  it('drops wall time beyond MAX_FRAME_TIME in one frame', () => {
+    const clock = createFixedStepClock();
+    let steps = 0;
+    advanceClock(clock, 0, () => {});
+    advanceClock(clock, 10_000, () => {
+      steps++;
+    });
+    expect(steps).toBe(Math.floor(MAX_FRAME_TIME / SIM_DT + 1e-9));
+    expect(clock.accumulator).toBeLessThan(SIM_DT);
+  });
+
+  it('ignores time going backwards and paused time after a reset', () => {
+    const clock = createFixedStepClock();
+    let steps = 0;
+    const count = () => {
+      steps++;
+    };
+    advanceClock(clock, 1000, count);
+    advanceClock(clock, 900, count);
+    resetClock(clock);
+    advanceClock(clock, 60_000, count);
+    expect(steps).toBe(0);
+  });
+
+  it('stops early when a step says so and drops the rest', () => {
+    const clock = createFixedStepClock();
+    let steps = 0;
+    advanceClock(clock, 0, () => {});
+    const alpha = advanceClock(clock, 200, () => ++steps < 3);
+    expect(steps).toBe(3);
+    expect(alpha).toBe(0);
+  });
+
+  it('scales wall time by timeScale', () => {
+    const clock = createFixedStepClock();
+    clock.timeScale = 2;
+    let steps = 0;
+    advanceClock(clock, 0, () => {});
+    advanceClock(clock, SIM_DT * 1000 * 5 + 1, () => {
+      steps++;
+    });
+    expect(steps).toBe(10);
+  });
+});
@@ -0,0 +1,50 @@
+import { FRAME_DT } from './constants';
+
+// Fixed-timestep driver. The simulation always advances in SIM_DT steps no
+// matter how often the display refreshes; rendering interpolates between the
+// last two steps using the leftover fraction of the accumulator.
+export const SIM_DT = FRAME_DT;
+
+// Longest wall-clock gap fed into one frame. Anything longer (tab switch, vision
+// stall) is dropped instead of fast-forwarding through dozens of steps at once.
+export const MAX_FRAME_TIME = 0.25;
+
+export interface FixedStepClock {
+  accumulator: number; // Seconds of wall time not yet simulated
+  lastTime: number | null; // Timestamp (ms) of the previous frame
+  timeScale: number; // Playback speed, 1 = real time
+}
+
+export const createFixedStepClock = (): FixedStepClock => ({ accumulator: 0, lastTime: null, timeScale: 1 });
+
+// Forget the previous timestamp so the next frame doesn't count paused time
+export const resetClock = (clock: FixedStepClock) => {
+  clock.accumulator = 0;
+  clock.lastTime = null;
+};
+
+// Feeds the time since the previous frame into the clock and calls `runStep`
+// once per whole fixed step. `runStep` can return false to stop early (e.g. on
+// a collision). Returns the interpolation factor in [0, 1) for rendering.
+export const advanceClock = (
+  clock: FixedStepClock,
+  nowMs: number,
+  runStep: (dt: number) => boolean | void,
+  dt: number = SIM_DT
+): number => {
+  const frameTime = clock.lastTime === null ? 0 : Math.min((nowMs - clock.lastTime) / 1000, MAX_FRAME_TIME);
+  clock.lastTime = nowMs;
+  clock.accumulator += Math.max(frameTime, 0) * clock.timeScale;
+
+  while (clock.accumulator >= dt) {
+    clock.accumulator -= dt;
+    if (runStep(dt) === false) {
+      clock.accumulator = 0;
+      break;
+    }
+  }
+
+  return clock.accumulator / dt;
+};
+
+export const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
@@ -0,0 +1,74 @@
+import { Obstacle, ObstacleMotion, ObstacleType } from '../types';
+import { GROUND_Y, WORLD_HEIGHT, WORLD_WIDTH } from './constants';
+
+// The hazard catalog. `counter` is what gets the runner past it: JUMP means
+// being in the air above its top edge, DUCK means staying on the ground
+// (ducking, or at least not jumping into it).
+
+export interface ObstacleSpec {
+  label: string;
+  plural: string;
+  width: number;
+  height: number;
+  top: number; // px above the ground of the top edge (at rest, for moving ones)
+  color: string;
+  counter: 'JUMP' | 'DUCK';
+  motion?: Omit<ObstacleMotion, 'baseY' | 'age'>;
+}
+
+export const OBSTACLE_CATALOG: Record<ObstacleType, ObstacleSpec> = {
+  CACTUS: { label: 'cactus', plural: 'cacti', width: 30, height: 40, top: 40, color: '#ffaa00', counter: 'JUMP' },
+  // Too tall for a weak jump: needs close to full jump strength
+  TALL_CACTUS: { label: 'tall cactus', plural: 'tall cacti', width: 30, height: 70, top: 70, color: '#ff8800', counter: 'JUMP' },
+  // Flies high: safe standing or ducking, fatal to jump into
+  BIRD: { label: 'bird', plural: 'birds', width: 40, height: 30, top: 90, color: '#ff4444', counter: 'DUCK' },
+  // Head height: only a duck gets under it
+  LOW_BIRD: { label: 'low bird', plural: 'low birds', width: 40, height: 30, top: 65, color: '#ff66aa', counter: 'DUCK' },
+  // Bobs between bird and low bird height
+  SINE_BIRD: {
+    label: 'swooping bird',
+    plural: 'swooping birds',
+    width: 40,
+    height: 30,
+    top: 95,
+    color: '#cc44ff',
+    counter: 'DUCK',
+    motion: { amplitude: 25, period: 1.2 },
+  },
+  // A hole in the ground, drawn in the background colour
+  GAP: {
+    label: 'gap',
+    plural: 'gaps',
+    width: 90,
+    height: WORLD_HEIGHT - GROUND_Y,
+    top: 0,
+    color: '#1a1a1a',
+    counter: 'JUMP',
+  },
+};
+
+export const createObstacle = (type: ObstacleType, x: number = WORLD_WIDTH): Obstacle => {
+  const spec = OBSTACLE_CATALOG[type];
+  const y = GROUND_Y - spec.top;
+  const obstacle: Obstacle = {
+    x,
+    y,
+    width: spec.width,
+    height: spec.height,
+    color: spec.color,
+    prevX: x,
+    prevY: y,
+    type,
+  };
+  if (spec.motion) obstacle.motion = { ...spec.motion, baseY: y, age: 0 };
+  return obstacle;
+};
+
+// `motionDt` advances the bobbing, which may run on its own clock (see simulation.ts)
+export const moveObstacle = (obs: Obstacle, speed: number, dt: number, motionDt = dt) => {
+  obs.x -= speed * dt;
+  if (obs.motion) {
+    obs.motion.age += motionDt;
+    obs.y = obs.motion.baseY + obs.motion.amplitude * Math.sin((2 * Math.PI * obs.motion.age) / obs.motion.period);
+  }
+};
@@ -0,0 +1,65 @@
+import { ObstacleType } from '../types';
+
+// Hand-authored obstacle sequences. The spawner picks one by the weights in the
+// difficulty curve's `mix` (keyed by id) and places all of it at once, offsets
+// measured from the first obstacle's left edge. Single-obstacle patterns come
+// first and share their obstacle's name, so curves from before patterns
+// existed pick exactly the same obstacles.
+
+export interface ObstaclePattern {
+  id: string;
+  items: { type: ObstacleType; offset: number }[];
+}
+
+export const OBSTACLE_PATTERNS: ObstaclePattern[] = [
+  { id: 'CACTUS', items: [{ type: 'CACTUS', offset: 0 }] },
+  { id: 'BIRD', items: [{ type: 'BIRD', offset: 0 }] },
+  { id: 'TALL_CACTUS', items: [{ type: 'TALL_CACTUS', offset: 0 }] },
+  { id: 'LOW_BIRD', items: [{ type: 'LOW_BIRD', offset: 0 }] },
+  { id: 'SINE_BIRD', items: [{ type: 'SINE_BIRD', offset: 0 }] },
+  { id: 'GAP', items: [{ type: 'GAP', offset: 0 }] },
+  // Two cacti side by side, cleared in one jump
+  {
+    id: 'DOUBLE_CACTUS',
+    items: [
+      { type: 'CACTUS', offset: 0 },
+      { type: 'CACTUS', offset: 34 },
+    ],
+  },
+  // Jump, land, duck straight away
+  {
+    id: 'CACTUS_LOW_BIRD',
+    items: [
+      { type: 'CACTUS', offset: 0 },
+      { type: 'LOW_BIRD', offset: 420 },
+    ],
+  },
+  // Small jump then a full one
+  {
+    id: 'CACTUS_STAIRS',
+    items: [
+      { type: 'CACTUS', offset: 0 },
+      { type: 'TALL_CACTUS', offset: 400 },
+    ],
+  },
+  {
+    id: 'GAP_CACTUS',
+    items: [
+      { type: 'GAP', offset: 0 },
+      { type: 'CACTUS', offset: 460 },
+    ],
+  },
+  // Stay down through the whole flock
+  {
+    id: 'BIRD_FLOCK',
+    items: [
+      { type: 'BIRD', offset: 0 },
+      { type: 'LOW_BIRD', offset: 140 },
+      { type: 'SINE_BIRD', offset: 280 },
+    ],
+  },
+];
+
+const PATTERNS_BY_ID = new Map(OBSTACLE_PATTERNS.map((pattern) => [pattern.id, pattern]));
+
+export const getPattern = (id: string): ObstaclePattern | undefined => PATTERNS_BY_ID.get(id);
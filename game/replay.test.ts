@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GestureType, VisionState } from '../types';
+import { DEFAULT_BINDINGS } from '../services/bindings';
+import { createSimState, step } from './simulation';
+import { DIFFICULTY_CURVES } from './difficultyCurves';
+import { DEFAULT_HITBOXES } from './hitboxes';
+import { SIM_DT } from './loop';
+import { createReplay, expandInputs, MAX_REPLAY_TICKS, parseReplay, recordInput, ReplayFile, serializeReplay, simulateTo } from './replay';
+
+const IDLE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const JUMP: VisionState = { handCount: 1, gesture: GestureType.OPEN_PALM, isTurbo: false, jumpStrength: 0.8, laneX: -0.2 };
+
+const record = (): ReplayFile => {
+  const replay = createReplay(99, DEFAULT_BINDINGS, DIFFICULTY_CURVES.NORMAL, DEFAULT_HITBOXES);
+  const state = createSimState(99, DEFAULT_BINDINGS, DIFFICULTY_CURVES.NORMAL, DEFAULT_HITBOXES);
+  for (let i = 0; i < 600 && !state.crashedInto; i++) {
+    const input = i % 70 < 3 ? JUMP : IDLE;
+    recordInput(replay, input);
+    step(state, input, SIM_DT);
+  }
+  replay.score = state.score;
+  return replay;
+};
+
+// The recording as a file, with `patch` applied to its JSON
+const fileWith = (patch: (data: Record<string, any>) => void): string => {
+  const data = JSON.parse(serializeReplay(record()));
+  patch(data);
+  return JSON.stringify(data);
+};
+
+describe('parseReplay', () => {
+  it('round-trips a recording, which then replays to the same run', () => {
+    const replay = record();
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed).toEqual(replay);
+    const inputs = expandInputs(parsed);
+    expect(inputs).toHaveLength(replay.ticks);
+    expect(simulateTo(parsed, inputs, replay.ticks).score).toBe(replay.score);
+  });
+
+  it('keeps the actions a device pressed directly, bound to a gesture or not', () => {
+    const replay = createReplay(5, { ...DEFAULT_BINDINGS, [GameAction.JUMP]: null }, DIFFICULTY_CURVES.NORMAL, DEFAULT_HITBOXES);
+    const spaceBar: VisionState = { ...IDLE, handCount: 1, pressed: [GameAction.JUMP] };
+    recordInput(replay, spaceBar);
+    recordInput(replay, spaceBar);
+    recordInput(replay, { ...IDLE, pressed: [] });
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed.inputs).toHaveLength(2);
+    const inputs = expandInputs(parsed);
+    expect(inputs[0].pressed).toEqual([GameAction.JUMP]);
+    expect(simulateTo(parsed, inputs, 1).player.isJumping).toBe(true);
+  });
+
+  it.each([
+    ['not an object', () => 'null'],
+    ['an unknown version', () => fileWith((data) => (data.version = 2))],
+    ['no hitbox settings', () => fileWith((data) => delete data.hitboxes)],
+    ['missing ticks', () => fileWith((data) => delete data.ticks)],
+    ['a tick count that does not match the inputs', () => fileWith((data) => (data.ticks += 1))],
+    ['a zero dt', () => fileWith((data) => (data.dt = 0))],
+    ['a huge repeat count', () => fileWith((data) => (data.inputs[0][0] = 1e12))],
+    ['a fractional repeat count', () => fileWith((data) => (data.inputs[0][0] = 1.5))],
+    ['a negative hand count', () => fileWith((data) => (data.inputs[0][1] = -1))],
+    ['an unknown gesture', () => fileWith((data) => (data.inputs[0][2] = 'WAVE'))],
+    ['a turbo flag that is not 0 or 1', () => fileWith((data) => (data.inputs[0][3] = true))],
+    ['an unknown pressed action', () => fileWith((data) => (data.inputs[0] = [data.inputs[0][0], 0, 'NONE', 0, null, null, null, ['FLY']]))],
+    ['a non-numeric analog slot', () => fileWith((data) => (data.inputs.find((run: unknown[]) => run.length === 7)[4] = 'high'))],
+    ['an unknown binding', () => fileWith((data) => (data.bindings.JUMP = 'WAVE'))],
+    ['a keyframe without speed', () => fileWith((data) => delete data.difficulty.keyframes[0].speed)],
+  ])('rejects a file with %s', (_, file) => {
+    expect(() => parseReplay(file())).toThrow();
+  });
+
+  it('rejects a file longer than MAX_REPLAY_TICKS before expanding it', () => {
+    const json = fileWith((data) => {
+      data.inputs = [[MAX_REPLAY_TICKS, 0, 'NONE', 0], [1, 0, 'NONE', 0]];
+      data.ticks = MAX_REPLAY_TICKS + 1;
+    });
+    expect(() => parseReplay(json)).toThrow('too long');
+  });
+});
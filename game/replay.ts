@@ -0,0 +1,195 @@
+import { ActionBindings, DifficultyCurve, DifficultyKeyframe, GameAction, GestureType, HitboxSettings, SimState, VisionState } from '../types';
+import { createSimState, step } from './simulation';
+import { isHitboxSettings } from './hitboxes';
+import { SIM_DT } from './loop';
+
+// Replays are the run seed plus the input stream fed to `step`, one entry per
+// simulation tick. Consecutive identical inputs are run-length encoded, which
+// keeps a few minutes of play down to a few KB of JSON. The file also carries
+// everything else the run was set up with: bindings, difficulty curve, hitboxes.
+export const REPLAY_VERSION = 1;
+
+// Longest replay accepted, an hour at 60 ticks per second. Imported files are
+// expanded to one input per tick, so this bounds the memory and time that takes.
+export const MAX_REPLAY_TICKS = 60 * 60 * 60;
+
+// [repeat count, handCount, gesture, isTurbo (0/1), jumpStrength, laneX, turboIntensity, pressed]
+// The analog slots are null when the input had none, and omitted entirely when
+// all are null and no device pressed actions directly.
+type AnalogSlot = number | null;
+export type ReplayInputRun =
+  | [number, number, GestureType, 0 | 1]
+  | [number, number, GestureType, 0 | 1, AnalogSlot, AnalogSlot, AnalogSlot]
+  | [number, number, GestureType, 0 | 1, AnalogSlot, AnalogSlot, AnalogSlot, GameAction[]];
+
+const encodeInput = (input: VisionState): ReplayInputRun => {
+  const turbo = input.isTurbo ? 1 : 0;
+  const analog = [input.jumpStrength ?? null, input.laneX ?? null, input.turboIntensity ?? null] as const;
+  if (input.pressed) return [1, input.handCount, input.gesture, turbo, ...analog, [...input.pressed]];
+  return analog.every((value) => value === null)
+    ? [1, input.handCount, input.gesture, turbo]
+    : [1, input.handCount, input.gesture, turbo, ...analog];
+};
+
+const sameInput = (a: ReplayInputRun, b: ReplayInputRun) =>
+  a.length === b.length &&
+  a.every((value, i) => i === 0 || (Array.isArray(value) ? String(value) === String(b[i]) : value === b[i]));
+
+export interface ReplayFile {
+  version: number;
+  seed: number;
+  bindings: ActionBindings;
+  difficulty: DifficultyCurve;
+  hitboxes: HitboxSettings;
+  dt: number; // Simulation step in seconds
+  recordedAt: string; // ISO timestamp
+  score: number;
+  ticks: number;
+  inputs: ReplayInputRun[];
+}
+
+export const createReplay = (
+  seed: number,
+  bindings: ActionBindings,
+  difficulty: DifficultyCurve,
+  hitboxes: HitboxSettings
+): ReplayFile => ({
+  version: REPLAY_VERSION,
+  seed,
+  bindings,
+  difficulty,
+  hitboxes,
+  dt: SIM_DT,
+  recordedAt: new Date().toISOString(),
+  score: 0,
+  ticks: 0,
+  inputs: [],
+});
+
+// Appends the input used for the next tick
+export const recordInput = (replay: ReplayFile, input: VisionState) => {
+  const last = replay.inputs[replay.inputs.length - 1];
+  const run = encodeInput(input);
+  if (last && sameInput(last, run)) {
+    last[0]++;
+  } else {
+    replay.inputs.push(run);
+  }
+  replay.ticks++;
+};
+
+// Decodes the run-length encoded stream into one VisionState per tick
+export const expandInputs = (replay: ReplayFile): VisionState[] => {
+  const inputs: VisionState[] = [];
+  for (const [count, handCount, gesture, turbo, jumpStrength, laneX, turboIntensity, pressed] of replay.inputs) {
+    const input: VisionState = { handCount, gesture, isTurbo: turbo === 1 };
+    if (jumpStrength != null) input.jumpStrength = jumpStrength;
+    if (laneX != null) input.laneX = laneX;
+    if (turboIntensity != null) input.turboIntensity = turboIntensity;
+    if (pressed) input.pressed = pressed;
+    for (let i = 0; i < count; i++) inputs.push(input);
+  }
+  return inputs;
+};
+
+// Fresh simulation set up the way the recorded run started
+export const createReplayState = (replay: ReplayFile): SimState =>
+  createSimState(replay.seed, replay.bindings, replay.difficulty, replay.hitboxes);
+
+// Re-runs the simulation from the seed up to `tick`. Used for scrubbing: the
+// simulation is deterministic, so this lands exactly where the run was.
+export const simulateTo = (replay: ReplayFile, inputs: VisionState[], tick: number): SimState => {
+  const state = createReplayState(replay);
+  const target = Math.min(tick, inputs.length);
+  while (state.frameCount < target && !state.crashedInto) {
+    step(state, inputs[state.frameCount], replay.dt);
+  }
+  return state;
+};
+
+export const serializeReplay = (replay: ReplayFile): string => JSON.stringify(replay);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isCount = (value: unknown): value is number => Number.isSafeInteger(value) && (value as number) >= 0;
+const isAnalogSlot = (value: unknown) => value === null || isFiniteNumber(value);
+
+const isKeyframe = (frame: Partial<DifficultyKeyframe> | null) =>
+  typeof frame === 'object' &&
+  frame !== null &&
+  isFiniteNumber(frame.distance) &&
+  isFiniteNumber(frame.speed) &&
+  frame.speed > 0 &&
+  isFiniteNumber(frame.minGap) &&
+  isFiniteNumber(frame.spawnRate) &&
+  typeof frame.mix === 'object' &&
+  frame.mix !== null &&
+  Object.values(frame.mix).every(isFiniteNumber);
+
+// Actions missing from the file are unbound (resolveActions treats them so)
+const isBindings = (bindings: unknown, gestures: string[]) =>
+  typeof bindings === 'object' &&
+  bindings !== null &&
+  Object.values(bindings).every((trigger) => trigger === null || trigger === 'TWO_HANDS' || gestures.includes(trigger));
+
+export const parseReplay = (json: string): ReplayFile => {
+  let data: Partial<ReplayFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Replay file is not a replay');
+  }
+
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (!isFiniteNumber(data.seed) || !isFiniteNumber(data.dt) || data.dt <= 0 || !Array.isArray(data.inputs)) {
+    throw new Error('Replay file is missing seed, dt or inputs');
+  }
+  if (!isCount(data.ticks) || !isFiniteNumber(data.score) || typeof data.recordedAt !== 'string') {
+    throw new Error('Replay file is missing ticks, score or recordedAt');
+  }
+  if (!Array.isArray(data.difficulty?.keyframes) || data.difficulty.keyframes.length === 0) {
+    throw new Error('Replay file has no difficulty curve');
+  }
+  if (!data.difficulty.keyframes.every(isKeyframe)) {
+    throw new Error('Replay file has a malformed difficulty keyframe');
+  }
+  if (!isHitboxSettings(data.hitboxes)) {
+    throw new Error('Replay file has invalid hitbox settings');
+  }
+
+  const gestures = Object.values(GestureType) as string[];
+  const actions = Object.values(GameAction) as string[];
+  if (!isBindings(data.bindings, gestures)) {
+    throw new Error('Replay file has invalid bindings');
+  }
+
+  let total = 0;
+  for (const run of data.inputs) {
+    if (
+      !Array.isArray(run) ||
+      (run.length !== 4 && run.length !== 7 && run.length !== 8) ||
+      !isCount(run[0]) ||
+      run[0] === 0 ||
+      !isCount(run[1]) ||
+      !gestures.includes(run[2]) ||
+      (run[3] !== 0 && run[3] !== 1) ||
+      !run.slice(4, 7).every(isAnalogSlot) ||
+      (run.length === 8 && !(Array.isArray(run[7]) && run[7].every((action) => actions.includes(action))))
+    ) {
+      throw new Error('Replay file contains a malformed input entry');
+    }
+    total += run[0];
+    if (total > MAX_REPLAY_TICKS) {
+      throw new Error('Replay file is too long');
+    }
+  }
+  if (total !== data.ticks) {
+    throw new Error(`Replay file has ${total} inputs for ${data.ticks} ticks`);
+  }
+
+  return data as ReplayFile;
+};
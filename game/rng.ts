@@ -0,0 +1,19 @@
+// Seeded PRNG (mulberry32). The state is a plain object so it can live inside
+// the simulation state and be copied or serialized along with it.
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// Returns a float in [0, 1) and advances the generator
+export const nextFloat = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Fresh seed for a new run (the only non-deterministic entry point)
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
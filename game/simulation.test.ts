@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GestureType, HitboxSettings, Obstacle, ObstacleType, Player, SimState, VisionState } from '../types';
+import { comboMultiplier, createSimState, hits, step } from './simulation';
+import { createObstacle } from './obstacles';
+import { createCollectible, POWER_UP_CATALOG } from './collectibles';
+import { playerHitboxes } from './hitboxes';
+import { SIM_DT } from './loop';
+import {
+  COIN_POINTS,
+  GROUND_Y,
+  MAX_MULTIPLIER,
+  MIN_PLAYER_X,
+  NORMAL_HEIGHT,
+  OBSTACLE_POINTS,
+  PLAYER_X,
+  PLAYER_X_RANGE,
+  PLAYER_WIDTH,
+} from './constants';
+
+const IDLE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const JUMP: VisionState = { handCount: 1, gesture: GestureType.OPEN_PALM, isTurbo: false };
+const DUCK: VisionState = { handCount: 1, gesture: GestureType.CLOSED_FIST, isTurbo: false };
+
+// Jumps, ducks and idles in a fixed rhythm, so runs see a bit of everything
+const scriptedInput = (frame: number): VisionState => {
+  const phase = frame % 90;
+  return phase < 5 ? JUMP : phase >= 50 && phase < 70 ? DUCK : IDLE;
+};
+
+const run = (seed: number, frames: number): SimState => {
+  const state = createSimState(seed);
+  for (let i = 0; i < frames && !state.crashedInto; i++) step(state, scriptedInput(i), SIM_DT);
+  return state;
+};
+
+// A lone obstacle with its left edge at `x`, bottom at rest
+const obstacleAt = (type: ObstacleType, x: number): Obstacle => createObstacle(type, x);
+
+describe('step', () => {
+  it('plays out identically for the same seed and inputs', () => {
+    for (const seed of [1, 42, 0xdeadbeef]) {
+      expect(run(seed, 1200)).toEqual(run(seed, 1200));
+    }
+  });
+
+  it('lays out a different track for a different seed', () => {
+    const a = run(1, 1200);
+    const b = run(2, 1200);
+    expect(a.obstacles.map((obs) => obs.x)).not.toEqual(b.obstacles.map((obs) => obs.x));
+  });
+
+  it('ends the run on a cactus in the runner’s path', () => {
+    const state = createSimState(7);
+    const cactus = obstacleAt('CACTUS', PLAYER_X + PLAYER_WIDTH + 1);
+    state.obstacles.push(cactus);
+    let events = step(state, IDLE, SIM_DT);
+    for (let i = 0; i < 30 && !state.crashedInto; i++) events = step(state, IDLE, SIM_DT);
+    expect(state.crashedInto).toBe(cactus);
+    expect(events).toContainEqual({ type: 'COLLISION', obstacle: cactus });
+    expect(step(state, IDLE, SIM_DT)).toEqual([]); // Nothing moves after a crash
+  });
+});
+
+describe('lane steering', () => {
+  const FAR_LEFT: VisionState = { ...IDLE, handCount: 1, laneX: -1 };
+  const FAR_RIGHT: VisionState = { ...IDLE, handCount: 1, laneX: 1 };
+
+  const steer = (state: SimState, input: VisionState, frames = 60) => {
+    for (let i = 0; i < frames && !state.crashedInto; i++) step(state, input, SIM_DT);
+    return state;
+  };
+
+  it('keeps the whole runner on screen at laneX = -1', () => {
+    const state = steer(createSimState(3), FAR_LEFT);
+    expect(state.player.x).toBe(MIN_PLAYER_X);
+  });
+
+  it('still moves the full range forward at laneX = 1', () => {
+    const state = steer(createSimState(3), FAR_RIGHT);
+    expect(state.player.x).toBe(PLAYER_X + PLAYER_X_RANGE);
+  });
+
+  it('still crashes into a cactus at laneX = -1', () => {
+    const state = steer(createSimState(3), FAR_LEFT);
+    state.obstacles = [];
+    const cactus = obstacleAt('CACTUS', state.player.x + state.player.width + 100);
+    state.obstacles.push(cactus);
+    steer(state, FAR_LEFT);
+    expect(state.crashedInto).toBe(cactus);
+  });
+});
+
+describe('collectibles and combo', () => {
+  const FIRE: VisionState = { ...IDLE, handCount: 1, pressed: [GameAction.POWER_UP] };
+
+  // An obstacle that leaves the screen on the next step, having been dodged
+  const passing = (): Obstacle => {
+    const cactus = obstacleAt('CACTUS', 0);
+    cactus.x = -cactus.width + 1;
+    return cactus;
+  };
+
+  it('steps the multiplier up every few clean dodges, up to the cap', () => {
+    expect([0, 4, 5, 9, 10, 19, 20, 100].map(comboMultiplier)).toEqual([1, 1, 2, 2, 3, 4, 5, MAX_MULTIPLIER]);
+  });
+
+  it('scores a dodged obstacle at the multiplier it was dodged on, and announces the next step', () => {
+    const state = createSimState(3);
+    state.combo = 4;
+    state.obstacles.push(passing());
+    const events = step(state, IDLE, SIM_DT);
+    expect(state.combo).toBe(5);
+    expect(state.scoreParts.obstacles).toBe(OBSTACLE_POINTS);
+    expect(events).toContainEqual({ type: 'COMBO', combo: 5, multiplier: 2 });
+
+    state.obstacles.push(passing());
+    step(state, IDLE, SIM_DT);
+    expect(state.scoreParts.obstacles).toBe(OBSTACLE_POINTS * 3);
+    expect(state.stats.bestCombo).toBe(6);
+  });
+
+  it('adds a coin the runner touches to the score', () => {
+    const state = createSimState(3);
+    const coin = createCollectible('COIN', PLAYER_X + 10, state.player.y + 10);
+    state.collectibles.push(coin);
+    const events = step(state, IDLE, SIM_DT);
+    expect(events).toContainEqual({ type: 'COLLECT', item: coin });
+    expect(state.collectibles).toEqual([]);
+    expect(state.stats.coins).toBe(1);
+    expect(state.scoreParts.coins).toBe(COIN_POINTS);
+    expect(state.score).toBe(state.scoreParts.distance + COIN_POINTS);
+  });
+
+  it('pulls nearby coins in while the magnet runs', () => {
+    const pulled = createSimState(3);
+    const still = createSimState(3);
+    pulled.activePowerUps.MAGNET = 5;
+    for (const state of [pulled, still]) state.collectibles.push(createCollectible('COIN', PLAYER_X + 100, state.player.y - 100));
+    step(pulled, IDLE, SIM_DT);
+    step(still, IDLE, SIM_DT);
+    expect(pulled.collectibles[0].x).toBeLessThan(still.collectibles[0].x);
+    expect(pulled.collectibles[0].y).toBeGreaterThan(still.collectibles[0].y);
+  });
+
+  it('holds a collected power-up until the power-up action fires it, then runs it out', () => {
+    const state = createSimState(3);
+    state.collectibles.push(createCollectible('SLOW_MO', PLAYER_X + 10, state.player.y + 10));
+    step(state, IDLE, SIM_DT);
+    expect(state.heldPowerUp).toBe('SLOW_MO');
+    expect(state.activePowerUps).toEqual({});
+
+    const events = step(state, FIRE, SIM_DT);
+    expect(events).toContainEqual({ type: 'POWER_UP', powerUp: 'SLOW_MO', active: true });
+    expect(state.heldPowerUp).toBeNull();
+    expect(state.stats.powerUpsUsed).toBe(1);
+
+    let ended = false;
+    const frames = Math.ceil(POWER_UP_CATALOG.SLOW_MO.duration / SIM_DT) + 1;
+    for (let i = 0; i < frames && !ended; i++) {
+      state.obstacles = []; // Nothing to dodge while it runs out
+      ended = step(state, IDLE, SIM_DT).some((event) => event.type === 'POWER_UP' && !event.active);
+    }
+    expect(ended).toBe(true);
+    expect(state.activePowerUps).toEqual({});
+  });
+
+  it('jumps again mid-air on a fresh press while double jump runs', () => {
+    const state = createSimState(3);
+    state.activePowerUps.DOUBLE_JUMP = 5;
+    step(state, JUMP, SIM_DT);
+    for (let i = 0; i < 10; i++) step(state, JUMP, SIM_DT); // Held, not pressed again
+    expect(state.player.airJumpUsed).toBe(false);
+    step(state, IDLE, SIM_DT);
+    const events = step(state, JUMP, SIM_DT);
+    expect(events).toContainEqual({ type: 'JUMP' });
+    expect(state.player.airJumpUsed).toBe(true);
+    expect(state.player.vy).toBeLessThan(0);
+  });
+
+  it('lets the shield take a hit at the cost of the combo, without counting the obstacle as dodged', () => {
+    const state = createSimState(7);
+    state.activePowerUps.SHIELD = 5;
+    state.combo = 7;
+    const cactus = obstacleAt('CACTUS', PLAYER_X + PLAYER_WIDTH + 1);
+    state.obstacles.push(cactus);
+    const events = [];
+    for (let i = 0; i < 60; i++) events.push(...step(state, IDLE, SIM_DT));
+    expect(state.crashedInto).toBeNull();
+    expect(cactus.broken).toBe(true);
+    expect(events).toContainEqual({ type: 'SHIELD_BREAK', obstacle: cactus });
+    expect(state.activePowerUps.SHIELD).toBeUndefined();
+    expect(state.obstacles).not.toContain(cactus);
+    expect(state.combo).toBe(0);
+    expect(state.scoreParts.obstacles).toBe(0);
+  });
+});
+
+describe('hits', () => {
+  const EXACT: HitboxSettings = { margin: 0 };
+  const runner = () => createSimState(1, undefined, undefined, EXACT).player;
+
+  // Outer edges of the runner's boxes in its current pose
+  const bounds = (p: Player) => {
+    const boxes = playerHitboxes(p, EXACT);
+    return {
+      right: Math.max(...boxes.map((box) => box.x + box.width)),
+      top: Math.min(...boxes.map((box) => box.y)),
+      bottom: Math.max(...boxes.map((box) => box.y + box.height)),
+    };
+  };
+
+  it('needs a cactus to overlap the runner, not just touch it', () => {
+    const p = runner();
+    const { right } = bounds(p);
+    expect(hits(p, obstacleAt('CACTUS', right), EXACT)).toBe(false);
+    expect(hits(p, obstacleAt('CACTUS', right - 1), EXACT)).toBe(true);
+  });
+
+  it('shrinks the runner by the forgiveness margin', () => {
+    const p = runner();
+    const { right } = bounds(p);
+    expect(hits(p, obstacleAt('CACTUS', right - 3), { margin: 3 })).toBe(false);
+    expect(hits(p, obstacleAt('CACTUS', right - 4), { margin: 3 })).toBe(true);
+  });
+
+  it('lets a runner whose feet are level with a cactus top pass over it', () => {
+    const p = runner();
+    const cactus = obstacleAt('CACTUS', p.x);
+    p.isJumping = true;
+    p.y += cactus.y - bounds(p).bottom;
+    expect(hits(p, cactus, EXACT)).toBe(false);
+    p.y += 1;
+    expect(hits(p, cactus, EXACT)).toBe(true);
+  });
+
+  it('lets a standing runner under a high bird but not a jumping one', () => {
+    const p = runner();
+    const bird = obstacleAt('BIRD', p.x);
+    expect(p.y).toBe(GROUND_Y - NORMAL_HEIGHT);
+    expect(bird.y + bird.height).toBe(bounds(p).top); // Its underside is level with the runner's head
+    expect(hits(p, bird, EXACT)).toBe(false);
+    p.isJumping = true;
+    p.y -= 1;
+    expect(hits(p, bird, EXACT)).toBe(true);
+  });
+
+  it('catches a standing runner under a low bird, and lets a ducking one through', () => {
+    const state = createSimState(1);
+    const bird = obstacleAt('LOW_BIRD', state.player.x);
+    expect(hits(state.player, bird, state.hitboxes)).toBe(true);
+    step(state, DUCK, SIM_DT);
+    bird.x = state.player.x;
+    expect(hits(state.player, bird, state.hitboxes)).toBe(false);
+  });
+});
@@ -0,0 +1,423 @@
+import {
+  ActionBindings,
+  Collectible,
+  DifficultyCurve,
+  DifficultyKeyframe,
+  Obstacle,
+  GameAction,
+  HitboxSettings,
+  Player,
+  PowerUpType,
+  Rect,
+  SimEvent,
+  SimState,
+  VisionState,
+} from '../types';
+import { ActionState, DEFAULT_BINDINGS, resolveActions } from '../services/bindings';
+import { createRng, nextFloat } from './rng';
+import { pickPattern, sampleCurve } from './difficulty';
+import { createObstacle, moveObstacle } from './obstacles';
+import { isSequenceFair, overlapTimes } from './fairness';
+import { createCollectible, POWER_UP_CATALOG, POWER_UP_TYPES } from './collectibles';
+import { DIFFICULTY_CURVES } from './difficultyCurves';
+import { DEFAULT_HITBOXES, playerHitboxes } from './hitboxes';
+import {
+  COIN_POINTS,
+  COIN_SIZE,
+  COMBO_STEP,
+  DISTANCE_PER_POINT,
+  DUCK_HEIGHT,
+  FAST_FALL_ACCEL,
+  GRAVITY,
+  GROUND_Y,
+  JUMP_FORCE,
+  MAGNET_PULL_SPEED,
+  MAGNET_RADIUS,
+  MAX_MULTIPLIER,
+  MIN_COLLECTIBLE_GAP,
+  MIN_JUMP_SCALE,
+  MIN_PLAYER_X,
+  NORMAL_HEIGHT,
+  OBSTACLE_POINTS,
+  PLAYER_WIDTH,
+  PLAYER_X,
+  PLAYER_X_BACK_RANGE,
+  PLAYER_X_RANGE,
+  PLAYER_X_SPEED,
+  POWER_UP_SIZE,
+  SLOW_MO_FACTOR,
+  SPAWN_DISTANCE_STEP,
+  TURBO_SPEED_MULTIPLIER,
+  WORLD_WIDTH,
+} from './constants';
+
+// Headless game simulation. No canvas, timers or Math.random in here: given the
+// same seed and the same input stream, a run always plays out identically.
+
+export const createPlayer = (homeX = PLAYER_X, color = '#00ffcc'): Player => ({
+  x: homeX,
+  y: GROUND_Y - NORMAL_HEIGHT,
+  width: PLAYER_WIDTH,
+  height: NORMAL_HEIGHT,
+  color,
+  prevX: homeX,
+  prevY: GROUND_Y - NORMAL_HEIGHT,
+  homeX,
+  vy: 0,
+  isJumping: false,
+  isDucking: false,
+  airJumpUsed: false,
+});
+
+const NO_ACTIONS: ActionState = {
+  [GameAction.JUMP]: false,
+  [GameAction.DUCK]: false,
+  [GameAction.TURBO]: false,
+  [GameAction.PAUSE]: false,
+  [GameAction.RESTART]: false,
+  [GameAction.POWER_UP]: false,
+};
+
+// Loot gets its own stream derived from the seed
+const LOOT_SEED_SALT = 0x9e3779b9;
+
+export const createSimState = (
+  seed: number,
+  bindings: ActionBindings = DEFAULT_BINDINGS,
+  difficulty: DifficultyCurve = DIFFICULTY_CURVES.NORMAL,
+  hitboxes: HitboxSettings = DEFAULT_HITBOXES
+): SimState => ({
+  seed,
+  bindings,
+  difficulty,
+  hitboxes,
+  spawnCursor: 0,
+  rng: createRng(seed),
+  lootRng: createRng(seed ^ LOOT_SEED_SALT),
+  player: createPlayer(),
+  obstacles: [],
+  collectibles: [],
+  heldPowerUp: null,
+  activePowerUps: {},
+  combo: 0,
+  prevActions: NO_ACTIONS,
+  frameCount: 0,
+  elapsed: 0,
+  currentSpeed: sampleCurve(difficulty, 0).speed,
+  distance: 0,
+  score: 0,
+  scoreParts: { obstacles: 0, distance: 0, coins: 0 },
+  stats: { jumps: 0, ducks: 0, turboTime: 0, coins: 0, powerUpsUsed: 0, bestCombo: 0 },
+  crashedInto: null,
+});
+
+export const intersects = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+// The building blocks below are also used by versus.ts, which runs several
+// runners over one shared track
+
+// Gaps only catch a runner on the ground whose centre is over the hole
+export const hits = (p: Player, obs: Obstacle, hitboxes: HitboxSettings): boolean => {
+  if (obs.type !== 'GAP') return playerHitboxes(p, hitboxes).some((box) => intersects(box, obs));
+  const centre = p.x + p.width / 2;
+  return !p.isJumping && centre > obs.x && centre < obs.x + obs.width;
+};
+
+export const applyInput = (state: SimState, level: DifficultyKeyframe, input: VisionState, dt: number, events: SimEvent[]) => {
+  const p = state.player;
+  const actions = resolveActions(input, state.bindings);
+  const previous = state.prevActions;
+  const pressed = (action: GameAction) => actions[action] && !previous[action];
+  state.prevActions = actions;
+
+  // Jump, or a second one mid-air with double-jump active (needs a fresh press)
+  const canAirJump = p.isJumping && !p.airJumpUsed && !!state.activePowerUps.DOUBLE_JUMP && pressed(GameAction.JUMP);
+  if (actions[GameAction.JUMP] && (!p.isJumping || canAirJump)) {
+    const strength = input.jumpStrength ?? 1;
+    if (p.isJumping) p.airJumpUsed = true;
+    p.vy = JUMP_FORCE * (MIN_JUMP_SCALE + (1 - MIN_JUMP_SCALE) * strength);
+    p.isJumping = true;
+    if (p.isDucking) {
+      p.y += p.height - NORMAL_HEIGHT;
+      p.height = NORMAL_HEIGHT;
+    }
+    p.isDucking = false;
+    state.stats.jumps++;
+    events.push({ type: 'JUMP' });
+  }
+
+  // Fire the held power-up
+  if (pressed(GameAction.POWER_UP) && state.heldPowerUp) {
+    const powerUp = state.heldPowerUp;
+    state.heldPowerUp = null;
+    state.activePowerUps[powerUp] = POWER_UP_CATALOG[powerUp].duration;
+    state.stats.powerUpsUsed++;
+    events.push({ type: 'POWER_UP', powerUp, active: true });
+  }
+
+  // Duck
+  if (actions[GameAction.DUCK]) {
+    if (!p.isDucking) {
+      state.stats.ducks++;
+      events.push({ type: 'DUCK' });
+    }
+    if (!p.isDucking) {
+      p.y += p.height - DUCK_HEIGHT; // Feet stay where they were, on the ground or mid-arc
+    }
+    p.isDucking = true;
+    p.height = DUCK_HEIGHT;
+    // Fast fall if in air
+    if (p.isJumping) {
+      p.vy += FAST_FALL_ACCEL * dt;
+    }
+  } else if (p.isDucking) {
+    // Stand up
+    p.isDucking = false;
+    p.y += p.height - NORMAL_HEIGHT;
+    p.height = NORMAL_HEIGHT;
+  }
+
+  // Horizontal movement towards the lane position. Back only as far as the
+  // screen edge, forward the full range.
+  const laneX = input.laneX ?? 0;
+  const reach = laneX < 0 ? PLAYER_X_BACK_RANGE : PLAYER_X_RANGE;
+  const targetX = Math.max(MIN_PLAYER_X, Math.min(WORLD_WIDTH - p.width, p.homeX + laneX * reach));
+  const maxMove = PLAYER_X_SPEED * dt;
+  p.x += Math.max(-maxMove, Math.min(maxMove, targetX - p.x));
+
+  // Turbo Speed, scaled by how hard the player is pushing it
+  const turbo = actions[GameAction.TURBO] ? input.turboIntensity ?? 1 : 0;
+  const slowMo = state.activePowerUps.SLOW_MO ? SLOW_MO_FACTOR : 1;
+  state.currentSpeed = level.speed * (1 + (TURBO_SPEED_MULTIPLIER - 1) * turbo) * slowMo;
+  if (turbo > 0) state.stats.turboTime += dt;
+};
+
+export const updatePlayer = (p: Player, dt: number) => {
+  // Gravity
+  if (p.y < GROUND_Y - p.height || p.vy < 0) {
+    p.y += p.vy * dt;
+    p.vy += GRAVITY * dt;
+    p.isJumping = true;
+  } else {
+    p.vy = 0;
+    p.isJumping = false;
+    p.airJumpUsed = false;
+    p.y = GROUND_Y - p.height;
+  }
+};
+
+// One spawn roll, for the track point `cursor`: the gap and fairness checks see
+// the obstacles where they were at that point (from their exact track
+// positions, so float drift in `x` never changes a decision) and new ones are
+// placed relative to it.
+const rollSpawn = (
+  state: SimState,
+  level: DifficultyKeyframe,
+  speed: number,
+  chance: number,
+  cursor: number,
+  events: SimEvent[]
+) => {
+  const { obstacles } = state;
+  const atRoll = (obs: Obstacle) => obs.trackX! - cursor;
+  // Min distance between obstacles based on speed
+  const minGap = level.minGap + speed / 6;
+  const lastObstacle = obstacles[obstacles.length - 1];
+  if (lastObstacle && WORLD_WIDTH - atRoll(lastObstacle) <= minGap) return;
+  if (nextFloat(state.rng) >= chance) return;
+
+  const pattern = pickPattern(level.mix, nextFloat(state.rng));
+  if (!pattern) return;
+  const placed = pattern.items.map((item) => createObstacle(item.type, WORLD_WIDTH + item.offset));
+
+  // Never chain an impossible sequence; skip and roll again later
+  const ahead = obstacles
+    .map((obs) => ({ ...obs, x: atRoll(obs) }))
+    .filter((obs) => overlapTimes(obs, speed).exit > 0);
+  if (!isSequenceFair([...ahead, ...placed], speed)) return;
+
+  const behind = state.distance - cursor; // The track has already moved on this far
+  for (const obstacle of placed) {
+    obstacle.trackX = cursor + obstacle.x;
+    obstacle.x -= behind;
+    obstacle.prevX = obstacle.x;
+    if (obstacle.motion) obstacle.motion.age = behind / speed;
+    obstacles.push(obstacle);
+    events.push({ type: 'SPAWN', obstacle });
+  }
+};
+
+// Spawns are rolled by track covered, not time, so a seed always lays out the
+// same obstacles whatever the runner's speed, which races rely on
+export const spawnObstacle = (state: SimState, events: SimEvent[]) => {
+  // One roll per SPAWN_DISTANCE_STEP of track covered, at that point's curve values
+  while (state.spawnCursor + SPAWN_DISTANCE_STEP <= state.distance) {
+    state.spawnCursor += SPAWN_DISTANCE_STEP;
+    const at = sampleCurve(state.difficulty, state.spawnCursor);
+    rollSpawn(state, at, at.speed, (at.spawnRate * SPAWN_DISTANCE_STEP) / at.speed, state.spawnCursor, events);
+  }
+};
+
+// Coins come in rows, low enough to run through or high enough to need a jump;
+// power-ups float at head height
+const spawnCollectibles = (state: SimState, level: DifficultyKeyframe, dt: number) => {
+  const { collectibles, lootRng } = state;
+  const last = collectibles[collectibles.length - 1];
+  if (!level.collectibleRate || (last && WORLD_WIDTH - last.x < MIN_COLLECTIBLE_GAP)) return;
+  if (nextFloat(lootRng) >= level.collectibleRate * dt) return;
+
+  if (nextFloat(lootRng) < (level.powerUpShare ?? 0)) {
+    const type = POWER_UP_TYPES[Math.floor(nextFloat(lootRng) * POWER_UP_TYPES.length)];
+    collectibles.push(createCollectible(type, WORLD_WIDTH, GROUND_Y - 80 - POWER_UP_SIZE / 2));
+    return;
+  }
+
+  const count = 3 + Math.floor(nextFloat(lootRng) * 3);
+  const y = nextFloat(lootRng) < 0.5 ? GROUND_Y - 40 : GROUND_Y - 130;
+  for (let i = 0; i < count; i++) {
+    collectibles.push(createCollectible('COIN', WORLD_WIDTH + i * (COIN_SIZE * 2), y));
+  }
+};
+
+const collect = (state: SimState, item: Collectible, events: SimEvent[]) => {
+  if (item.type === 'COIN') {
+    state.stats.coins++;
+    state.scoreParts.coins += COIN_POINTS;
+  } else {
+    state.heldPowerUp = item.type; // Replaces anything unused
+  }
+  events.push({ type: 'COLLECT', item });
+};
+
+const updateCollectibles = (state: SimState, dt: number, events: SimEvent[]) => {
+  const p = state.player;
+  const px = p.x + p.width / 2;
+  const py = p.y + p.height / 2;
+  const magnet = !!state.activePowerUps.MAGNET;
+
+  for (let i = state.collectibles.length - 1; i >= 0; i--) {
+    const item = state.collectibles[i];
+    item.x -= state.currentSpeed * dt;
+
+    if (magnet && item.type === 'COIN') {
+      const dx = px - (item.x + item.width / 2);
+      const dy = py - (item.y + item.height / 2);
+      const dist = Math.hypot(dx, dy);
+      if (dist < MAGNET_RADIUS && dist > 0) {
+        const pull = Math.min(dist, MAGNET_PULL_SPEED * dt);
+        item.x += (dx / dist) * pull;
+        item.y += (dy / dist) * pull;
+      }
+    }
+
+    if (intersects(p, item)) {
+      state.collectibles.splice(i, 1);
+      collect(state, item, events);
+    } else if (item.x + item.width < 0) {
+      state.collectibles.splice(i, 1);
+    }
+  }
+};
+
+const tickPowerUps = (state: SimState, dt: number, events: SimEvent[]) => {
+  for (const powerUp of Object.keys(state.activePowerUps) as PowerUpType[]) {
+    const left = state.activePowerUps[powerUp]! - dt;
+    if (left > 0) {
+      state.activePowerUps[powerUp] = left;
+    } else {
+      delete state.activePowerUps[powerUp];
+      events.push({ type: 'POWER_UP', powerUp, active: false });
+    }
+  }
+};
+
+export const comboMultiplier = (combo: number) => Math.min(MAX_MULTIPLIER, 1 + Math.floor(combo / COMBO_STEP));
+
+export const clearObstacle = (state: SimState, events: SimEvent[]) => {
+  const multiplier = comboMultiplier(state.combo);
+  state.scoreParts.obstacles += OBSTACLE_POINTS * multiplier;
+  state.combo++;
+  state.stats.bestCombo = Math.max(state.stats.bestCombo, state.combo);
+  const next = comboMultiplier(state.combo);
+  if (next > multiplier) events.push({ type: 'COMBO', combo: state.combo, multiplier: next });
+};
+
+// Moving obstacles animate by track covered, so a swooping bird is at the
+// same height at the same spot whatever the runner's speed
+export const obstacleMotionDt = (state: SimState, level: DifficultyKeyframe, dt: number) =>
+  (state.currentSpeed * dt) / level.speed;
+
+// Recomputes the total from its parts after `distance` moved
+export const updateScore = (state: SimState, events: SimEvent[]) => {
+  state.scoreParts.distance = Math.floor(state.distance / DISTANCE_PER_POINT);
+  const total = state.scoreParts.obstacles + state.scoreParts.distance + state.scoreParts.coins;
+  if (total !== state.score) {
+    events.push({ type: 'SCORE', points: total - state.score, total });
+    state.score = total;
+  }
+};
+
+// Advances the simulation by dt seconds. Mutates `state` in place (it lives in a
+// ref on the hot path) and returns what happened during the step.
+export const step = (state: SimState, input: VisionState, dt: number): SimEvent[] => {
+  const events: SimEvent[] = [];
+  if (state.crashedInto) return events;
+
+  const p = state.player;
+  p.prevX = p.x;
+  p.prevY = p.y;
+  for (const entity of [...state.obstacles, ...state.collectibles]) {
+    entity.prevX = entity.x;
+    entity.prevY = entity.y;
+  }
+
+  // Progression: speed, gaps, spawn rate and mix follow the run's difficulty curve
+  const level = sampleCurve(state.difficulty, state.distance);
+  applyInput(state, level, input, dt, events);
+  updatePlayer(state.player, dt);
+  spawnObstacle(state, events);
+  spawnCollectibles(state, level, dt);
+  tickPowerUps(state, dt, events);
+
+  // Move & Collision
+  const motionDt = obstacleMotionDt(state, level, dt);
+  for (let i = state.obstacles.length - 1; i >= 0; i--) {
+    const obs = state.obstacles[i];
+    moveObstacle(obs, state.currentSpeed, dt, motionDt);
+
+    // Remove off-screen
+    if (obs.x + obs.width < 0) {
+      state.obstacles.splice(i, 1);
+      if (!obs.broken) clearObstacle(state, events);
+      continue;
+    }
+
+    if (!obs.broken && hits(p, obs, state.hitboxes)) {
+      // The shield takes the hit instead, but the combo is gone
+      if (state.activePowerUps.SHIELD) {
+        delete state.activePowerUps.SHIELD;
+        obs.broken = true;
+        state.combo = 0;
+        events.push({ type: 'SHIELD_BREAK', obstacle: obs });
+        events.push({ type: 'POWER_UP', powerUp: 'SHIELD', active: false });
+        continue;
+      }
+      state.crashedInto = obs;
+      events.push({ type: 'COLLISION', obstacle: obs });
+      break;
+    }
+  }
+
+  if (!state.crashedInto) updateCollectibles(state, dt, events);
+
+  state.distance += state.currentSpeed * dt;
+  updateScore(state, events);
+
+  state.frameCount++;
+  state.elapsed += dt;
+  return events;
+};
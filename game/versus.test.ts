@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, GestureType, SimEvent, VisionState } from '../types';
+import { DEFAULT_BINDINGS } from '../services/bindings';
+import { DIFFICULTY_CURVES } from './difficultyCurves';
+import { createObstacle } from './obstacles';
+import { SIM_DT } from './loop';
+import { createVersusState, isVersusOver, stepVersus, VersusState, versusWinner } from './versus';
+
+const IDLE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const JUMP: VisionState = { handCount: 1, gesture: GestureType.OPEN_PALM, isTurbo: false };
+
+const createVersus = (seed = 9) => createVersusState(seed, DEFAULT_BINDINGS, DIFFICULTY_CURVES[Difficulty.NORMAL]);
+
+// Steps `frames` times with the same inputs, collecting each runner's events
+const play = (versus: VersusState, inputs: VisionState[], frames: number): SimEvent[][] => {
+  const events: SimEvent[][] = versus.runners.map(() => []);
+  for (let i = 0; i < frames; i++) {
+    stepVersus(versus, inputs, SIM_DT).forEach((list, r) => events[r].push(...list));
+  }
+  return events;
+};
+
+describe('stepVersus', () => {
+  it('gives every runner the same obstacles', () => {
+    const versus = createVersus();
+    const [first, second] = play(versus, [IDLE, JUMP], 300);
+    const spawns = (events: SimEvent[]) => events.filter((event) => event.type === 'SPAWN');
+    expect(spawns(first).length).toBeGreaterThan(0);
+    expect(spawns(second)).toEqual(spawns(first));
+  });
+
+  it('ends one runner on an obstacle the other jumps, and scores it only for the one still running', () => {
+    const versus = createVersus();
+    const [back, front] = versus.runners;
+    const cactus = createObstacle('CACTUS', front.player.x + front.player.width + 60);
+    versus.track.obstacles.push(cactus);
+
+    const events = play(versus, [IDLE, JUMP], 60);
+    expect(back.crashedInto).toBe(cactus);
+    expect(events[0]).toContainEqual({ type: 'COLLISION', obstacle: cactus });
+    expect(front.crashedInto).toBeNull();
+    expect(versus.track.obstacles).not.toContain(cactus);
+    expect(front.combo).toBe(1);
+    expect(back.combo).toBe(0);
+    expect(front.distance).toBe(versus.track.distance);
+    expect(back.distance).toBeLessThan(front.distance);
+    expect(versusWinner(versus)).toBe(1);
+  });
+
+  it('ignores turbo and lane steering, which would change one runner’s track', () => {
+    const versus = createVersus();
+    const startX = versus.runners.map((runner) => runner.player.x);
+    const pushing: VisionState = { ...IDLE, handCount: 2, isTurbo: true, turboIntensity: 1, laneX: 1 };
+    play(versus, [pushing, pushing], 30);
+    expect(versus.runners.map((runner) => runner.player.x)).toEqual(startX);
+    expect(versus.runners.map((runner) => runner.currentSpeed)).toEqual([versus.track.currentSpeed, versus.track.currentSpeed]);
+    expect(versus.runners[0].stats.turboTime).toBe(0);
+  });
+
+  it('stops once every runner has crashed', () => {
+    const versus = createVersus();
+    play(versus, [IDLE], 2000); // The second runner has no input at all
+    expect(isVersusOver(versus)).toBe(true);
+    const frame = versus.track.frameCount;
+    expect(stepVersus(versus, [JUMP, JUMP], SIM_DT)).toEqual([[], []]);
+    expect(versus.track.frameCount).toBe(frame);
+  });
+});
+
+describe('versusWinner', () => {
+  it('is the highest score, or nobody on a tie', () => {
+    const versus = createVersus();
+    versus.runners[0].score = 120;
+    versus.runners[1].score = 80;
+    expect(versusWinner(versus)).toBe(0);
+    versus.runners[1].score = 120;
+    expect(versusWinner(versus)).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { ActionBindings, DifficultyCurve, GestureType, HitboxSettings, SimEvent, SimState, VisionState } from '../types';
+import { moveObstacle } from './obstacles';
+import { sampleCurve } from './difficulty';
+import {
+  applyInput,
+  clearObstacle,
+  createPlayer,
+  createSimState,
+  hits,
+  obstacleMotionDt,
+  spawnObstacle,
+  updatePlayer,
+  updateScore,
+} from './simulation';
+import { PLAYER_X, VERSUS_COLORS, VERSUS_RUNNER_SPACING } from './constants';
+
+// Local versus: several runners on one track. The `track` state owns the
+// obstacles, speed and distance; each runner keeps its own player, score,
+// combo and stats. Everyone sees the same obstacles at the same speed, so
+// turbo and the loot (coins, power-ups) are left out: they would give one
+// runner a different track from the other. Lane steering is off too, as each
+// player's hand only covers part of the camera picture.
+
+export interface VersusState {
+  track: SimState; // Its own player is never drawn or hit
+  runners: SimState[];
+}
+
+export const createVersusState = (
+  seed: number,
+  bindings: ActionBindings,
+  difficulty: DifficultyCurve,
+  hitboxes?: HitboxSettings,
+  playerCount = 2
+): VersusState => ({
+  track: createSimState(seed, bindings, difficulty),
+  runners: Array.from({ length: playerCount }, (_, i) => {
+    const runner = createSimState(seed, bindings, difficulty, hitboxes);
+    runner.player = createPlayer(PLAYER_X + i * VERSUS_RUNNER_SPACING, VERSUS_COLORS[i % VERSUS_COLORS.length]);
+    return runner;
+  }),
+});
+
+export const isVersusOver = (versus: VersusState): boolean => versus.runners.every((runner) => runner.crashedInto);
+
+// Highest score wins; null on a tie
+export const versusWinner = (versus: VersusState): number | null => {
+  const scores = versus.runners.map((runner) => runner.score);
+  const best = Math.max(...scores);
+  return scores.filter((score) => score === best).length === 1 ? scores.indexOf(best) : null;
+};
+
+const IDLE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const VERSUS_OVERRIDES = { isTurbo: false, turboIntensity: 0, laneX: 0 };
+
+// Steps the shared track and every runner still alive. `inputs[i]` drives
+// runner i; returns each runner's events (SPAWN events go to all of them).
+export const stepVersus = (versus: VersusState, inputs: VisionState[], dt: number): SimEvent[][] => {
+  const { track, runners } = versus;
+  const events: SimEvent[][] = runners.map(() => []);
+  if (isVersusOver(versus)) return events;
+
+  for (const obs of track.obstacles) {
+    obs.prevX = obs.x;
+    obs.prevY = obs.y;
+  }
+
+  const level = sampleCurve(track.difficulty, track.distance);
+  track.currentSpeed = level.speed;
+  const alive = runners.filter((runner) => !runner.crashedInto);
+
+  runners.forEach((runner, i) => {
+    if (runner.crashedInto) return;
+    runner.player.prevX = runner.player.x;
+    runner.player.prevY = runner.player.y;
+    applyInput(runner, level, { ...(inputs[i] ?? IDLE), ...VERSUS_OVERRIDES }, dt, events[i]);
+    updatePlayer(runner.player, dt);
+  });
+
+  const spawned: SimEvent[] = [];
+  spawnObstacle(track, spawned);
+  events.forEach((list) => list.push(...spawned));
+
+  const motionDt = obstacleMotionDt(track, level, dt);
+  for (let i = track.obstacles.length - 1; i >= 0; i--) {
+    const obs = track.obstacles[i];
+    moveObstacle(obs, track.currentSpeed, dt, motionDt);
+
+    // Passed everyone still running
+    if (obs.x + obs.width < 0) {
+      track.obstacles.splice(i, 1);
+      runners.forEach((runner, r) => {
+        if (!runner.crashedInto) clearObstacle(runner, events[r]);
+      });
+      continue;
+    }
+
+    runners.forEach((runner, r) => {
+      if (!runner.crashedInto && hits(runner.player, obs, runner.hitboxes)) {
+        runner.crashedInto = obs;
+        events[r].push({ type: 'COLLISION', obstacle: obs });
+      }
+    });
+  }
+
+  track.distance += track.currentSpeed * dt;
+  track.frameCount++;
+  track.elapsed += dt;
+
+  // Runners that crashed this step keep the score they had going into it
+  runners.forEach((runner, i) => {
+    if (!alive.includes(runner)) return;
+    runner.currentSpeed = track.currentSpeed;
+    if (!runner.crashedInto) runner.distance = track.distance;
+    updateScore(runner, events[i]);
+    runner.frameCount++;
+    runner.elapsed += dt;
+  });
+
+  return events;
+};
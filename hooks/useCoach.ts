@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { ActionBindings, SimEvent, SimState, VisionState } from '../types';
+import { createTelemetryRecorder, loadTelemetry, saveTelemetry } from '../services/telemetry';
+import {
+  analyzeRuns,
+  createHintMonitor,
+  generateCoachTips,
+  HintMonitor,
+  isCoachEnabled,
+  offlineTips,
+  setCoachEnabled,
+} from '../services/coach';
+import { RunTelemetry } from '../services/telemetry';
+
+// The rule-based tips, or the generic one if even the analysis fails
+const fallbackTips = (runs: RunTelemetry[], bindings: ActionBindings): string[] => {
+  try {
+    return offlineTips(analyzeRuns(runs, bindings));
+  } catch {
+    return offlineTips([]);
+  }
+};
+
+// Coaching: telemetry for the current run, live hints, and tips between runs
+export const useCoach = () => {
+  const telemetryRef = useRef(createTelemetryRecorder());
+  const hintMonitorRef = useRef<HintMonitor | null>(null);
+  const [coachEnabled, setCoachEnabledState] = useState(isCoachEnabled);
+  const [coachHint, setCoachHint] = useState("");
+  const [coachTips, setCoachTips] = useState<string[] | null>(null);
+
+  const toggleCoach = () => {
+    setCoachEnabled(!coachEnabled);
+    setCoachEnabledState(!coachEnabled);
+  };
+
+  // Live hints stay up briefly
+  useEffect(() => {
+    if (!coachHint) return;
+    const timer = setTimeout(() => setCoachHint(""), 2500);
+    return () => clearTimeout(timer);
+  }, [coachHint]);
+
+  // Fresh telemetry for a new run, with hints drawn from the runs before it
+  const startCoaching = (bindings: ActionBindings) => {
+    telemetryRef.current = createTelemetryRecorder();
+    hintMonitorRef.current = isCoachEnabled() ? createHintMonitor(analyzeRuns(loadTelemetry(), bindings), bindings) : null;
+    setCoachHint("");
+  };
+
+  // One simulation step of the run
+  const observeStep = (game: SimState, input: VisionState, events: SimEvent[]) => {
+    telemetryRef.current.observe(game, input, events);
+    const monitor = hintMonitorRef.current;
+    if (!monitor) return;
+    for (const event of events) {
+      if (event.type === 'JUMP' || event.type === 'DUCK') {
+        monitor.update(telemetryRef.current.reactions);
+      } else if (event.type === 'SPAWN') {
+        const hint = monitor.onSpawn(event.obstacle.type, game.elapsed * 1000);
+        if (hint) setCoachHint(hint);
+      }
+    }
+  };
+
+  // Saves the finished run's telemetry and asks for tips. `isCurrent` drops a
+  // late answer for a run the player already moved on from.
+  const finishCoaching = (game: SimState, isCurrent: () => boolean) => {
+    const runs = saveTelemetry(telemetryRef.current.finish(game));
+    if (!isCoachEnabled()) return;
+    setCoachTips(null);
+    generateCoachTips(runs, game.bindings)
+      .catch((error) => {
+        console.error('Coach tips failed:', error);
+        return fallbackTips(runs, game.bindings);
+      })
+      .then((tips) => {
+        if (isCurrent()) setCoachTips(tips);
+      });
+  };
+
+  return { coachEnabled, coachHint, coachTips, setCoachTips, toggleCoach, startCoaching, observeStep, finishCoaching };
+};
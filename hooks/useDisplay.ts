@@ -0,0 +1,74 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { DisplaySettings, isKioskRequested, loadDisplaySettings, saveDisplaySettings } from '../services/display';
+import { fitCanvas, WORLD_VIEWPORT } from '../renderer/viewport';
+
+// Screen: how the world maps onto the canvas, the camera preview, and kiosk mode
+export const useDisplay = (canvasRef: RefObject<HTMLCanvasElement>) => {
+  const viewportRef = useRef(WORLD_VIEWPORT);
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(loadDisplaySettings);
+  const [kiosk, setKiosk] = useState(isKioskRequested);
+  const activeAtRef = useRef(performance.now()); // Last time anyone was seen or pressed anything
+
+  // The canvas follows its on-screen size and the display's pixel density
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const fit = () => {
+      viewportRef.current = fitCanvas(canvas);
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(canvas);
+    window.addEventListener('resize', fit); // Also fires when the pixel ratio changes (zoom, another monitor)
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', fit);
+    };
+  }, []);
+
+  // Kiosk: any click or key counts as someone playing, and the first one goes
+  // fullscreen (browsers refuse without one, e.g. after a reload with ?kiosk)
+  useEffect(() => {
+    if (!kiosk) return;
+    activeAtRef.current = performance.now();
+    const onActivity = () => {
+      activeAtRef.current = performance.now();
+      if (!document.fullscreenElement) {
+        document.documentElement.requestFullscreen?.().catch((e) => console.warn('Fullscreen unavailable:', e));
+      }
+    };
+    // Leaving fullscreen (Esc) leaves kiosk mode
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) setKiosk(false);
+    };
+    window.addEventListener('pointerdown', onActivity);
+    window.addEventListener('keydown', onActivity);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => {
+      window.removeEventListener('pointerdown', onActivity);
+      window.removeEventListener('keydown', onActivity);
+      document.removeEventListener('fullscreenchange', onFullscreenChange);
+    };
+  }, [kiosk]);
+
+  const enterKiosk = () => {
+    setKiosk(true);
+    document.documentElement.requestFullscreen?.().catch((e) => console.warn('Fullscreen unavailable:', e));
+  };
+
+  const exitKiosk = () => {
+    setKiosk(false);
+    if (document.fullscreenElement) document.exitFullscreen().catch((e) => console.warn('Could not leave fullscreen:', e));
+  };
+
+  const changeDisplay = (patch: Partial<DisplaySettings>) => {
+    const next = { ...displaySettings, ...patch };
+    saveDisplaySettings(next);
+    setDisplaySettings(next);
+  };
+
+  // In kiosk mode, nobody has played for the configured idle time
+  const kioskIdle = (now: number) => kiosk && now - activeAtRef.current > displaySettings.kioskIdleMs;
+
+  return { viewportRef, activeAtRef, displaySettings, kiosk, enterKiosk, exitKiosk, changeDisplay, kioskIdle };
+};
@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from 'react';
+import { Difficulty, RunnerSnapshot, SimState } from '../types';
+import { Ghost, snapshotOf } from '../game/ghost';
+import { RIVAL_COLOR } from '../game/constants';
+import { Figure } from '../renderer/renderer';
+import { connectRace, predictDistance, RaceClient, RaceRoom } from '../services/race';
+import { RaceDifficulty, RaceServerMessage } from '../services/raceMessages';
+
+// A live opponent's latest snapshot, and when it arrived
+export interface RemoteRunner {
+  name: string;
+  runner: RunnerSnapshot;
+  receivedAt: number;
+}
+
+// Races on a shared seed: against a recorded ghost, or live over the race server.
+// `startRound` sets up the local run when the server starts a round; the hook
+// then marks that run as part of the round.
+export const useRace = (difficulty: Difficulty, startRound: (seed: number, difficulty: RaceDifficulty) => void) => {
+  const ghostRef = useRef<Ghost | null>(null);
+  const raceRef = useRef<RaceClient | null>(null);
+  const raceRoomRef = useRef<RaceRoom | null>(null); // For the socket callbacks, which outlive renders
+  const liveRaceRef = useRef(false); // The current run is a live race round
+  const remoteRunnersRef = useRef(new Map<string, RemoteRunner>());
+  const startRoundRef = useRef(startRound);
+  startRoundRef.current = startRound;
+  const [raceRoom, setRaceRoom] = useState<RaceRoom | null>(null);
+  const [raceConnecting, setRaceConnecting] = useState(false);
+  const [raceError, setRaceError] = useState("");
+  const [raceWaiting, setRaceWaiting] = useState(false);
+  const [rivals, setRivals] = useState<RemoteRunner[]>([]);
+  const [showRaceLobby, setShowRaceLobby] = useState(false);
+
+  // The run is no longer a race (the connection, if any, stays open)
+  const endRace = () => {
+    ghostRef.current = null;
+    liveRaceRef.current = false;
+    remoteRunnersRef.current.clear();
+    setRivals([]);
+    setRaceWaiting(false);
+  };
+
+  const updateRaceRoom = (room: RaceRoom | null) => {
+    raceRoomRef.current = room;
+    setRaceRoom(room);
+  };
+
+  const handleRaceMessage = (message: RaceServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        updateRaceRoom({ id: message.id, name: message.room, difficulty: message.difficulty, peers: message.peers });
+        setRaceError("");
+        break;
+      case 'peers': {
+        const room = raceRoomRef.current;
+        if (room) updateRaceRoom({ ...room, peers: message.peers });
+        // Runners who left drop out of the race
+        const present = new Set(message.peers.map((peer) => peer.id));
+        remoteRunnersRef.current.forEach((_, id) => present.has(id) || remoteRunnersRef.current.delete(id));
+        setRivals([...remoteRunnersRef.current.values()]);
+        break;
+      }
+      case 'start':
+        startRoundRef.current(message.seed, message.difficulty);
+        liveRaceRef.current = true;
+        setShowRaceLobby(false);
+        break;
+      case 'state': {
+        if (!liveRaceRef.current) break; // Left the round for a solo run
+        const name = raceRoomRef.current?.peers.find((peer) => peer.id === message.id)?.name ?? 'Runner';
+        remoteRunnersRef.current.set(message.id, { name, runner: message.runner, receivedAt: performance.now() });
+        setRivals([...remoteRunnersRef.current.values()]);
+        break;
+      }
+      case 'error':
+        setRaceError(message.message);
+        break;
+    }
+  };
+
+  const joinRace = async (url: string, room: string, name: string) => {
+    raceRef.current?.close();
+    raceRef.current = null;
+    setRaceConnecting(true);
+    setRaceError("");
+    try {
+      const client = await connectRace(url, handleRaceMessage, () => {
+        raceRef.current = null;
+        updateRaceRoom(null);
+        remoteRunnersRef.current.clear();
+        setRivals([]);
+        setRaceWaiting(false);
+        setRaceError("Lost connection to the race server");
+      });
+      raceRef.current = client;
+      client.join(room, name, difficulty === Difficulty.ADAPTIVE ? Difficulty.NORMAL : difficulty);
+    } catch (err) {
+      setRaceError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRaceConnecting(false);
+    }
+  };
+
+  const leaveRace = () => {
+    raceRef.current?.close();
+    raceRef.current = null;
+    updateRaceRoom(null);
+    endRace();
+  };
+
+  // Back in the lobby queue after a round; the next one starts when everyone is
+  const readyForNextRace = () => {
+    raceRef.current?.ready();
+    setRaceWaiting(true);
+  };
+
+  // Still connected to the room the current round was started by
+  const inLiveRace = () => liveRaceRef.current && raceRef.current !== null;
+
+  // Shares the local runner with the room during a live round
+  const sendRunner = (game: SimState) => {
+    if (liveRaceRef.current) raceRef.current?.sendState(snapshotOf(game));
+  };
+
+  // Ghost and live opponents, placed by how far ahead of or behind the local runner they are
+  const rivalFigures = (game: SimState): Figure[] => {
+    const rivals: { name: string; runner: RunnerSnapshot; distance: number }[] = [];
+    if (ghostRef.current) {
+      const runner = snapshotOf(ghostRef.current.state);
+      rivals.push({ name: 'Ghost', runner, distance: runner.distance });
+    }
+    const now = performance.now();
+    remoteRunnersRef.current.forEach(({ name, runner, receivedAt }) => {
+      rivals.push({ name, runner, distance: predictDistance(runner, now - receivedAt) });
+    });
+    return rivals.map(({ name, runner, distance }) => {
+      const x = game.player.homeX + distance - game.distance;
+      return {
+        player: {
+          ...game.player,
+          x,
+          prevX: x,
+          y: runner.y,
+          prevY: runner.y,
+          height: runner.height,
+          isJumping: runner.isJumping,
+          isDucking: runner.isDucking,
+          color: RIVAL_COLOR,
+        },
+        frame: game.frameCount,
+        opacity: runner.crashed ? 0.2 : 0.45,
+        label: name,
+        shield: false,
+      };
+    });
+  };
+
+  useEffect(() => () => raceRef.current?.close(), []);
+
+  return {
+    ghostRef,
+    liveRaceRef,
+    raceRoom,
+    raceConnecting,
+    raceError,
+    raceWaiting,
+    rivals,
+    showRaceLobby,
+    setShowRaceLobby,
+    endRace,
+    joinRace,
+    leaveRace,
+    readyForNextRace,
+    inLiveRace,
+    sendRunner,
+    rivalFigures,
+  };
+};
@@ -0,0 +1,41 @@
+import { useRef, useState } from 'react';
+import { VersusSplit } from '../types';
+import { setVersusSplit } from '../services/vision';
+import { getActiveBindings } from '../services/bindings';
+import { getDifficulty, resolveDifficultyCurve } from '../services/difficulty';
+import { getHitboxSettings } from '../services/hitboxes';
+import { createVersusState, VersusState, versusWinner } from '../game/versus';
+import { randomSeed } from '../game/rng';
+
+// Local versus: two runners on one track (versusRef is null in single player)
+export const useVersus = () => {
+  const versusRef = useRef<VersusState | null>(null);
+  const [versusSplit, setVersusSplitChoice] = useState<VersusSplit>('HALF');
+  const [versusScores, setVersusScores] = useState<number[]>([]);
+  const [winner, setWinner] = useState<number | null>(null);
+
+  // A new match with the current settings; the vision service starts splitting the camera picture
+  const beginVersus = (): VersusState => {
+    const versus = createVersusState(randomSeed(), getActiveBindings(), resolveDifficultyCurve(getDifficulty()), getHitboxSettings());
+    versusRef.current = versus;
+    setVersusSplit(versusSplit);
+    setVersusScores(versus.runners.map((runner) => runner.score));
+    setWinner(null);
+    return versus;
+  };
+
+  const showVersusScores = (versus: VersusState) => setVersusScores(versus.runners.map((runner) => runner.score));
+
+  const finishVersus = (versus: VersusState) => {
+    showVersusScores(versus);
+    setWinner(versusWinner(versus));
+  };
+
+  // Back to single player
+  const endVersus = () => {
+    versusRef.current = null;
+    setVersusSplit(null);
+  };
+
+  return { versusRef, versusSplit, setVersusSplitChoice, versusScores, winner, beginVersus, showVersusScores, finishVersus, endVersus };
+};
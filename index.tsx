@@ -12,4 +12,19 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+// Cache the app, its libraries and the hand tracking assets for offline play
+// (production only, so the dev server's hot reload isn't served stale files)
+if ('serviceWorker' in navigator && process.env.NODE_ENV === 'production') {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        // What loaded before the worker took over; it caches those as well
+        const urls = [location.href, ...performance.getEntriesByType('resource').map((entry) => entry.name)];
+        registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+      })
+      .catch((e) => console.error('Service worker registration failed:', e));
+  });
+}
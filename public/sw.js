@@ -0,0 +1,96 @@
+// Offline cache for Gesture Dash. The MediaPipe runtime and hand model are
+// large and never change for a given URL, so they are served cache-first;
+// the app shell is network-first so new builds show up, with the cache as
+// the offline fallback.
+// The libraries the page loads from CDNs (React and the rest of the import map
+// from esm.sh, Tailwind) are cache-first as well, or the game couldn't start
+// offline. Their URLs aren't pinned to exact versions, so the cached copies stay
+// until CACHE_NAME changes: bump it to pick up new library versions.
+const CACHE_NAME = 'gesture-dash-v2';
+
+const VISION_ASSET_HOSTS = ['cdn.jsdelivr.net', 'storage.googleapis.com'];
+const LIBRARY_HOSTS = ['esm.sh', 'cdn.tailwindcss.com'];
+
+const isVisionAsset = (url) =>
+  url.pathname.startsWith('/mediapipe/') || VISION_ASSET_HOSTS.includes(url.hostname);
+
+const isLibrary = (url) => LIBRARY_HOSTS.includes(url.hostname);
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Plain <script src> requests to another origin (Tailwind) come back opaque:
+  // no status to check, but still usable from the cache
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (e) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+const isCacheable = (url) => isVisionAsset(url) || isLibrary(url) || url.origin === self.location.origin;
+
+// Scripts without CORS headers can only be fetched opaque
+const fetchForCache = (href) => fetch(href).catch(() => fetch(href, { mode: 'no-cors' }));
+
+// The first visit loads the page and its libraries before this worker is in
+// control, so none of that passed through it. The page sends the URLs it
+// loaded once the worker is ready, and they are cached here.
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'CACHE_URLS') return;
+  const urls = event.data.urls.filter((href) => isCacheable(new URL(href)));
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      Promise.all(
+        urls.map(async (href) => {
+          if (await cache.match(href)) return;
+          try {
+            const response = await fetchForCache(href);
+            if (response.ok || response.type === 'opaque') await cache.put(href, response);
+          } catch (e) {
+            console.warn(`Could not cache ${href}:`, e);
+          }
+        })
+      )
+    )
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (isVisionAsset(url) || isLibrary(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  }
+});
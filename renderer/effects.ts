@@ -0,0 +1,44 @@
+import { SimEvent } from '../types';
+import { POWER_UP_CATALOG } from '../game/collectibles';
+
+// Screen-shake and flashes in response to simulation events. They run on
+// wall-clock time, so a crash keeps shaking for a moment on the game-over
+// screen even though the simulation has stopped.
+
+export interface ScreenEffects {
+  shake: number; // px, current amplitude
+  flash: number; // 0-1, current opacity
+  flashColor: string;
+}
+
+const SHAKE_DECAY = 6; // Per second, exponential
+const FLASH_DECAY = 4;
+
+export const createEffects = (): ScreenEffects => ({ shake: 0, flash: 0, flashColor: '#fff' });
+
+const kick = (effects: ScreenEffects, shake: number, flash: number, color: string) => {
+  effects.shake = Math.max(effects.shake, shake);
+  if (flash >= effects.flash) {
+    effects.flash = flash;
+    effects.flashColor = color;
+  }
+};
+
+export const triggerEffects = (effects: ScreenEffects, events: SimEvent[]) => {
+  for (const event of events) {
+    if (event.type === 'COLLISION') kick(effects, 14, 0.6, '#ef4444');
+    else if (event.type === 'SHIELD_BREAK') kick(effects, 8, 0.4, POWER_UP_CATALOG.SHIELD.color);
+    else if (event.type === 'POWER_UP' && event.active) kick(effects, 0, 0.25, POWER_UP_CATALOG[event.powerUp].color);
+  }
+};
+
+export const decayEffects = (effects: ScreenEffects, dt: number) => {
+  effects.shake *= Math.exp(-SHAKE_DECAY * dt);
+  effects.flash *= Math.exp(-FLASH_DECAY * dt);
+  if (effects.shake < 0.5) effects.shake = 0;
+  if (effects.flash < 0.01) effects.flash = 0;
+};
+
+// Random offset for this frame's world drawing
+export const shakeOffset = (effects: ScreenEffects): [number, number] =>
+  effects.shake === 0 ? [0, 0] : [(Math.random() * 2 - 1) * effects.shake, (Math.random() * 2 - 1) * effects.shake];
@@ -0,0 +1,136 @@
+import { WORLD_WIDTH } from '../game/constants';
+import { createRng, nextFloat, Rng } from '../game/rng';
+import { LayerStyle, ParallaxLayerSpec } from './themes';
+
+// Background layers. Each one is a canvas-wide tile repeated sideways and
+// scrolled at a fraction of the distance travelled, so nearer layers move
+// faster and everything speeds up and slows down with the run.
+
+export interface ParallaxLayer {
+  spec: ParallaxLayerSpec;
+  image: CanvasImageSource;
+}
+
+const TILE_WIDTH = WORLD_WIDTH;
+
+// Painters draw into a TILE_WIDTH x height tile whose left and right edges meet
+type LayerPainter = (ctx: CanvasRenderingContext2D, height: number, rng: Rng) => void;
+
+// Draws `shape` at x and again one tile over, so shapes crossing an edge wrap around
+const wrapped = (shape: (offset: number) => void) => {
+  shape(0);
+  shape(-TILE_WIDTH);
+  shape(TILE_WIDTH);
+};
+
+const ridge = (ctx: CanvasRenderingContext2D, height: number, points: number[]) => {
+  // A closed outline through evenly spaced heights, first and last equal so it tiles
+  const step = TILE_WIDTH / (points.length - 1);
+  ctx.beginPath();
+  ctx.moveTo(0, height);
+  points.forEach((h, i) => ctx.lineTo(i * step, height - h));
+  ctx.lineTo(TILE_WIDTH, height);
+  ctx.closePath();
+  ctx.fill();
+};
+
+const PAINTERS: Record<LayerStyle, LayerPainter> = {
+  STARS: (ctx, height, rng) => {
+    for (let i = 0; i < 70; i++) {
+      ctx.globalAlpha = 0.3 + nextFloat(rng) * 0.7;
+      ctx.fillRect(nextFloat(rng) * TILE_WIDTH, nextFloat(rng) * height, 2, 2);
+    }
+    ctx.globalAlpha = 1;
+    ctx.beginPath();
+    ctx.arc(TILE_WIDTH * 0.75, height * 0.25, 22, 0, Math.PI * 2); // Moon
+    ctx.fill();
+  },
+  SKYLINE: (ctx, height, rng) => {
+    let x = 0;
+    while (x < TILE_WIDTH) {
+      const width = 30 + nextFloat(rng) * 50;
+      const top = height * (0.2 + nextFloat(rng) * 0.7);
+      ctx.fillRect(x, top, Math.min(width, TILE_WIDTH - x) - 4, height - top);
+      x += width;
+    }
+  },
+  MESAS: (ctx, height, rng) => {
+    for (let i = 0; i < 3; i++) {
+      const x = nextFloat(rng) * TILE_WIDTH;
+      const width = 120 + nextFloat(rng) * 140;
+      const top = height * (0.1 + nextFloat(rng) * 0.4);
+      wrapped((offset) => {
+        ctx.beginPath();
+        ctx.moveTo(offset + x - 20, height);
+        ctx.lineTo(offset + x, top);
+        ctx.lineTo(offset + x + width, top);
+        ctx.lineTo(offset + x + width + 20, height);
+        ctx.fill();
+      });
+    }
+  },
+  DUNES: (ctx, height, rng) => {
+    const points = Array.from({ length: 9 }, () => height * (0.3 + nextFloat(rng) * 0.5));
+    points[points.length - 1] = points[0];
+    ctx.beginPath();
+    ctx.moveTo(0, height);
+    // Smooth humps between the control heights
+    const step = TILE_WIDTH / (points.length - 1);
+    ctx.lineTo(0, height - points[0]);
+    for (let i = 1; i < points.length; i++) {
+      ctx.quadraticCurveTo((i - 0.5) * step, height - points[i - 1] - 20, i * step, height - points[i]);
+    }
+    ctx.lineTo(TILE_WIDTH, height);
+    ctx.closePath();
+    ctx.fill();
+  },
+  HILLS: (ctx, height, rng) => {
+    const points = Array.from({ length: 13 }, () => height * (0.4 + nextFloat(rng) * 0.6));
+    points[points.length - 1] = points[0];
+    ridge(ctx, height, points);
+  },
+  GROUND: (ctx, height, rng) => {
+    // Stripes and pebbles, so the ground visibly moves at world speed
+    for (let x = 0; x < TILE_WIDTH; x += 40) ctx.fillRect(x, 0, 20, 3);
+    for (let i = 0; i < 40; i++) {
+      ctx.fillRect(nextFloat(rng) * TILE_WIDTH, 10 + nextFloat(rng) * (height - 14), 3 + nextFloat(rng) * 5, 2);
+    }
+  },
+};
+
+// Paints the tile from its style; an image `src` replaces it once loaded
+export const loadParallaxLayer = (spec: ParallaxLayerSpec, seed: number, resolution = 1): ParallaxLayer => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(TILE_WIDTH * resolution);
+  canvas.height = Math.ceil(spec.height * resolution);
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(resolution, resolution);
+  ctx.fillStyle = spec.color;
+  PAINTERS[spec.style](ctx, spec.height, createRng(seed));
+
+  const layer: ParallaxLayer = { spec, image: canvas };
+  if (spec.src) {
+    const image = new Image();
+    image.onload = () => (layer.image = image);
+    image.onerror = () => console.error(`Could not load background layer ${spec.src}, keeping the painted one`);
+    image.src = spec.src;
+  }
+  return layer;
+};
+
+// `distance` is how far the world has scrolled, in px; tiles cover `from` to `to`
+export const drawParallaxLayer = (
+  ctx: CanvasRenderingContext2D,
+  layer: ParallaxLayer,
+  distance: number,
+  from = 0,
+  to = WORLD_WIDTH
+) => {
+  const { spec } = layer;
+  // Tile edges sit at -offset + n * TILE_WIDTH; start at the last one left of `from`
+  const offset = (distance * spec.factor) % TILE_WIDTH;
+  const start = from - ((((from + offset) % TILE_WIDTH) + TILE_WIDTH) % TILE_WIDTH);
+  for (let x = start; x < to; x += TILE_WIDTH) {
+    ctx.drawImage(layer.image, Math.round(x), spec.y, TILE_WIDTH, spec.height);
+  }
+};
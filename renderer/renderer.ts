@@ -0,0 +1,274 @@
+import { HitboxSettings, ObstacleType, Player, RunnerPose, SimEvent, SimState } from '../types';
+import { GROUND_Y, WORLD_WIDTH } from '../game/constants';
+import { OBSTACLE_CATALOG } from '../game/obstacles';
+import { POWER_UP_CATALOG, POWER_UP_TYPES } from '../game/collectibles';
+import { lerp, MAX_FRAME_TIME, SIM_DT } from '../game/loop';
+import { playerHitboxes, poseOf } from '../game/hitboxes';
+import { ThemeId, ThemeManifest, THEMES } from './themes';
+import { drawSprite, loadSpriteSheet, paintObstacle, paintRunner, SpriteSheet } from './sprites';
+import { drawParallaxLayer, loadParallaxLayer, ParallaxLayer } from './parallax';
+import { createEffects, decayEffects, shakeOffset, triggerEffects } from './effects';
+import { Viewport } from './viewport';
+
+// Draws the scene from the simulation state. The caller decides which runners
+// are on screen (local, versus, ghost, live); the renderer owns the theme's
+// sprite sheets and background layers, and the screen effects. Everything is
+// drawn in world units; the viewport says how they map onto the canvas.
+
+// Anything drawn as a runner: the local runner(s), a ghost or a live opponent
+export interface Figure {
+  player: Player;
+  frame: number; // Simulation tick, drives the run cycle
+  opacity: number;
+  label?: string;
+  shield: boolean;
+  hitboxes?: HitboxSettings; // Runners collided on this machine; rivals have none
+}
+
+export interface SceneFrame {
+  game: SimState;
+  figures: Figure[]; // Back to front
+  alpha: number; // Blend between the previous and current simulation step
+  isPaused: boolean;
+  isTurbo: boolean;
+  now: number; // ms, for the screen effects
+  showHitboxes: boolean; // Debug: outline what collides
+  viewport: Viewport;
+}
+
+export interface Renderer {
+  draw: (ctx: CanvasRenderingContext2D, frame: SceneFrame) => void;
+  onEvents: (events: SimEvent[]) => void;
+  setTheme: (id: ThemeId) => void;
+}
+
+interface ThemeAssets {
+  layers: ParallaxLayer[];
+  obstacles: Record<ObstacleType, SpriteSheet<'IDLE'>>;
+  runners: Map<string, SpriteSheet<RunnerPose>>; // One per runner colour, painted on first use
+  resolution: number; // Canvas pixels per world unit the art was painted for
+}
+
+const SHAKE_MARGIN = 20; // px the backdrop reaches past the canvas so shaking shows no edge
+const HITBOX_COLORS = { runner: '#22c55e', obstacle: '#ef4444' };
+const SPARE_ROOM_SHADE = 'rgba(0, 0, 0, 0.35)'; // Over the backdrop beside the playfield
+const RESOLUTION_STEP = 0.25; // Art is repainted when the scale moves past a step, not on every resize
+
+const loadThemeAssets = (theme: ThemeManifest, resolution: number): ThemeAssets => {
+  const obstacles = {} as Record<ObstacleType, SpriteSheet<'IDLE'>>;
+  for (const type of Object.keys(OBSTACLE_CATALOG) as ObstacleType[]) {
+    const spec = theme.obstacles[type];
+    const { width, height } = OBSTACLE_CATALOG[type];
+    const color = type === 'GAP' ? theme.pit : spec.color ?? OBSTACLE_CATALOG[type].color;
+    obstacles[type] = loadSpriteSheet(
+      spec,
+      paintObstacle(type, color, width, height),
+      color,
+      type === 'GAP' ? 0 : theme.glow,
+      resolution
+    );
+  }
+  return {
+    layers: theme.layers.map((spec, i) => loadParallaxLayer(spec, i + 1, resolution)),
+    obstacles,
+    runners: new Map(),
+    resolution,
+  };
+};
+
+export const createRenderer = (themeId: ThemeId): Renderer => {
+  let theme = THEMES[themeId];
+  let assets: ThemeAssets | null = null; // Painted on the first draw, not at construction
+  const effects = createEffects();
+  let lastDraw: number | null = null;
+  const reduceMotion = typeof matchMedia !== 'undefined' && matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+  const runnerSheet = (assets: ThemeAssets, color: string) => {
+    let sheet = assets.runners.get(color);
+    if (!sheet) {
+      const spec = theme.runner;
+      sheet = loadSpriteSheet(
+        spec,
+        paintRunner(spec.color ?? color, spec.frameWidth - spec.padding * 2),
+        color,
+        theme.glow,
+        assets.resolution
+      );
+      assets.runners.set(color, sheet);
+    }
+    return sheet;
+  };
+
+  const drawFigure = (ctx: CanvasRenderingContext2D, assets: ThemeAssets, { player: p, frame, opacity, label, shield }: Figure) => {
+    ctx.globalAlpha = opacity;
+    ctx.fillStyle = p.color;
+    ctx.font = 'bold 12px monospace';
+    ctx.textBaseline = 'bottom';
+
+    // Rivals out of view get a marker at the edge they are beyond
+    if (p.x + p.width < 0 || p.x > WORLD_WIDTH) {
+      const ahead = p.x > WORLD_WIDTH;
+      ctx.textAlign = ahead ? 'right' : 'left';
+      ctx.fillText(ahead ? `${label} ▶` : `◀ ${label}`, ahead ? WORLD_WIDTH - 8 : 8, GROUND_Y - 8);
+      return;
+    }
+
+    drawSprite(ctx, runnerSheet(assets, p.color), poseOf(p), frame * SIM_DT, p.x, p.y);
+
+    if (shield) {
+      ctx.strokeStyle = POWER_UP_CATALOG.SHIELD.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.ellipse(p.x + p.width / 2, p.y + p.height / 2, p.width, p.height * 0.75, 0, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    if (label) {
+      ctx.textAlign = 'center';
+      ctx.fillText(label, p.x + p.width / 2, p.y - 6);
+    }
+  };
+
+  const drawCollectibles = (ctx: CanvasRenderingContext2D, game: SimState, alpha: number) => {
+    game.collectibles.forEach((item) => {
+      const x = lerp(item.prevX, item.x, alpha);
+      const y = lerp(item.prevY, item.y, alpha);
+      ctx.fillStyle = item.color;
+      if (item.type === 'COIN') {
+        // Spins: the face narrows and widens, each coin at its own phase
+        const spin = Math.abs(Math.cos(game.elapsed * 5 + item.x * 0.02));
+        ctx.beginPath();
+        ctx.ellipse(x + item.width / 2, y + item.height / 2, Math.max(1, (item.width / 2) * spin), item.height / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.beginPath();
+        ctx.roundRect(x, y, item.width, item.height, 6);
+        ctx.fill();
+        ctx.fillStyle = '#000';
+        ctx.font = 'bold 14px monospace';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(POWER_UP_CATALOG[item.type].label[0], x + item.width / 2, y + item.height / 2 + 1);
+      }
+    });
+  };
+
+  // The shapes the simulation collides, at the drawn positions
+  const drawHitboxes = (ctx: CanvasRenderingContext2D, game: SimState, figures: Figure[], alpha: number) => {
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = HITBOX_COLORS.obstacle;
+    game.obstacles.forEach((obs) => {
+      if (!obs.broken) ctx.strokeRect(lerp(obs.prevX, obs.x, alpha), lerp(obs.prevY, obs.y, alpha), obs.width, obs.height);
+    });
+    ctx.strokeStyle = HITBOX_COLORS.runner;
+    figures.forEach(({ player, hitboxes }) => {
+      if (hitboxes) playerHitboxes(player, hitboxes).forEach((box) => ctx.strokeRect(box.x, box.y, box.width, box.height));
+    });
+  };
+
+  return {
+    draw: (ctx, { game, figures, alpha, isPaused, isTurbo, now, showHitboxes, viewport }) => {
+      const resolution = Math.max(RESOLUTION_STEP, Math.ceil(viewport.scale / RESOLUTION_STEP) * RESOLUTION_STEP);
+      if (assets?.resolution !== resolution) assets = loadThemeAssets(theme, resolution);
+      decayEffects(effects, lastDraw === null ? 0 : Math.min((now - lastDraw) / 1000, MAX_FRAME_TIME));
+      lastDraw = now;
+
+      // How far the world has scrolled, between the last two steps like everything else
+      const scroll = Math.max(0, game.distance - game.currentSpeed * SIM_DT * (1 - alpha));
+      const [dx, dy] = reduceMotion ? [0, 0] : shakeOffset(effects);
+
+      // The backdrop spans the whole screen (plus room to shake), the playfield only the world
+      const { visible } = viewport;
+      const left = visible.x - SHAKE_MARGIN;
+      const right = visible.x + visible.width + SHAKE_MARGIN;
+      const top = visible.y - SHAKE_MARGIN;
+      const bottom = visible.y + visible.height + SHAKE_MARGIN;
+
+      ctx.setTransform(viewport.scale, 0, 0, viewport.scale, viewport.offsetX, viewport.offsetY);
+      ctx.save();
+      ctx.translate(dx, dy);
+
+      // Sky and far layers
+      const sky = ctx.createLinearGradient(0, 0, 0, GROUND_Y);
+      sky.addColorStop(0, theme.sky[0]);
+      sky.addColorStop(1, theme.sky[1]);
+      ctx.fillStyle = sky;
+      ctx.fillRect(left, top, right - left, bottom - top);
+      assets.layers.forEach((layer) => layer.spec.style !== 'GROUND' && drawParallaxLayer(ctx, layer, scroll, left, right));
+
+      // Ground
+      ctx.fillStyle = theme.ground;
+      ctx.fillRect(left, GROUND_Y, right - left, bottom - GROUND_Y);
+      assets.layers.forEach((layer) => layer.spec.style === 'GROUND' && drawParallaxLayer(ctx, layer, scroll, left, right));
+      ctx.fillStyle = theme.groundEdge;
+      ctx.fillRect(left, GROUND_Y, right - left, 2);
+
+      // Obstacles spawn at the world's right edge and leave at its left, so
+      // nothing is drawn in the spare room beside it
+      if (visible.x < 0) {
+        ctx.fillStyle = SPARE_ROOM_SHADE;
+        ctx.fillRect(left, top, -left, bottom - top);
+        ctx.fillRect(WORLD_WIDTH, top, right - WORLD_WIDTH, bottom - top);
+        ctx.beginPath();
+        ctx.rect(0, top, WORLD_WIDTH, bottom - top);
+        ctx.clip();
+      }
+
+      // Turbo speed lines
+      if (isTurbo && !isPaused) {
+        ctx.strokeStyle = theme.accent;
+        ctx.lineWidth = 2;
+        for (let i = 0; i < 5; i++) {
+          const y = Math.random() * GROUND_Y;
+          ctx.beginPath();
+          ctx.moveTo(0, y);
+          ctx.lineTo(WORLD_WIDTH, y);
+          ctx.stroke();
+        }
+      }
+
+      // Slow-mo tint
+      if (game.activePowerUps.SLOW_MO) {
+        ctx.fillStyle = 'rgba(167, 139, 250, 0.08)';
+        ctx.fillRect(left, top, right - left, bottom - top);
+      }
+
+      // Obstacles (birds flap on simulation time, so they freeze with the game)
+      game.obstacles.forEach((obs) => {
+        if (obs.broken) return;
+        drawSprite(ctx, assets!.obstacles[obs.type], 'IDLE', game.elapsed, lerp(obs.prevX, obs.x, alpha), lerp(obs.prevY, obs.y, alpha));
+      });
+
+      drawCollectibles(ctx, game, alpha);
+      figures.forEach((figure) => drawFigure(ctx, assets!, figure));
+      ctx.globalAlpha = 1;
+      if (showHitboxes) drawHitboxes(ctx, game, figures, alpha);
+      ctx.restore();
+
+      // Active power-up timers (steady while the scene shakes)
+      POWER_UP_TYPES.forEach((type, i) => {
+        const left = game.activePowerUps[type] ?? 0;
+        if (left <= 0) return;
+        const spec = POWER_UP_CATALOG[type];
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+        ctx.fillRect(10, 10 + i * 10, 100, 6);
+        ctx.fillStyle = spec.color;
+        ctx.fillRect(10, 10 + i * 10, 100 * Math.min(1, left / spec.duration), 6);
+      });
+
+      // Hit flash
+      if (effects.flash > 0) {
+        ctx.globalAlpha = effects.flash;
+        ctx.fillStyle = effects.flashColor;
+        ctx.fillRect(left, top, right - left, bottom - top);
+        ctx.globalAlpha = 1;
+      }
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+    },
+    onEvents: (events) => triggerEffects(effects, events),
+    setTheme: (id) => {
+      theme = THEMES[id];
+      assets = null;
+    },
+  };
+};
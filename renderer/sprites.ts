@@ -0,0 +1,201 @@
+import { ObstacleType, RunnerPose } from '../types';
+import { AnimationSpec, SpriteSheetSpec } from './themes';
+
+// Sprite sheets: one row per animation, one frame per column. A sheet with a
+// `src` image is drawn from that once it loads; until then (and for the
+// built-in themes, always) the frames are painted in code into a canvas, at
+// the resolution they will be shown at so they stay sharp on any screen.
+
+export interface SpriteSheet<Animation extends string = string> {
+  spec: SpriteSheetSpec<Animation>;
+  image: CanvasImageSource;
+  scale: number; // Image pixels per world unit
+}
+
+// Paints one frame with the origin at the top-left of the entity box
+export type FramePainter = (ctx: CanvasRenderingContext2D, animation: string, frame: number, frames: number) => void;
+
+export const loadSpriteSheet = <Animation extends string>(
+  spec: SpriteSheetSpec<Animation>,
+  paint: FramePainter,
+  color: string,
+  glow = 0,
+  resolution = 1
+): SpriteSheet<Animation> => {
+  const animations = Object.entries(spec.animations) as [string, AnimationSpec][];
+  const width = spec.frameWidth * Math.max(...animations.map(([, a]) => a.frames));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * resolution);
+  canvas.height = Math.ceil(spec.frameHeight * Math.max(...animations.map(([, a]) => a.row + 1)) * resolution);
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(resolution, resolution);
+  for (const [name, animation] of animations) {
+    for (let frame = 0; frame < animation.frames; frame++) {
+      ctx.save();
+      ctx.translate(frame * spec.frameWidth + spec.padding, animation.row * spec.frameHeight + spec.padding);
+      if (glow > 0) {
+        ctx.shadowBlur = glow * resolution; // Blur ignores the transform
+        ctx.shadowColor = color;
+      }
+      paint(ctx, name, frame, animation.frames);
+      ctx.restore();
+    }
+  }
+
+  const sheet: SpriteSheet<Animation> = { spec, image: canvas, scale: resolution };
+  if (spec.src) {
+    const image = new Image();
+    image.onload = () => {
+      sheet.image = image;
+      sheet.scale = image.naturalWidth / width; // Sheets may be drawn at 2x or more
+    };
+    image.onerror = () => console.error(`Could not load sprite sheet ${spec.src}, keeping the painted one`);
+    image.src = spec.src;
+  }
+  return sheet;
+};
+
+// Frame `time` seconds into a looping animation
+export const frameAt = (animation: AnimationSpec, time: number) => Math.floor(time * animation.fps) % animation.frames;
+
+// Draws a frame so that its entity box lands on (x, y)
+export const drawSprite = <Animation extends string>(
+  ctx: CanvasRenderingContext2D,
+  sheet: SpriteSheet<Animation>,
+  animation: Animation,
+  time: number,
+  x: number,
+  y: number
+) => {
+  const { spec, scale } = sheet;
+  const anim = spec.animations[animation];
+  const frame = frameAt(anim, time);
+  ctx.drawImage(
+    sheet.image,
+    frame * spec.frameWidth * scale,
+    anim.row * spec.frameHeight * scale,
+    spec.frameWidth * scale,
+    spec.frameHeight * scale,
+    Math.round(x - spec.padding),
+    Math.round(y - spec.padding),
+    spec.frameWidth,
+    spec.frameHeight
+  );
+};
+
+// --- Painted frames ---
+
+const line = (ctx: CanvasRenderingContext2D, points: [number, number][]) => {
+  ctx.beginPath();
+  ctx.moveTo(...points[0]);
+  for (const point of points.slice(1)) ctx.lineTo(...point);
+  ctx.stroke();
+};
+
+const circle = (ctx: CanvasRenderingContext2D, x: number, y: number, r: number) => {
+  ctx.beginPath();
+  ctx.arc(x, y, r, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// The stick figure: a stride over the RUN frames, a tucked jump, and a slide for
+// ducking (drawn in the top DUCK_HEIGHT px, as the entity box shrinks)
+export const paintRunner = (color: string, width: number): FramePainter => (ctx, animation, frame, frames) => {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 4;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  const cx = width / 2;
+
+  if ((animation as RunnerPose) === 'DUCK') {
+    const flutter = frame % 2 === 0 ? 0 : 3;
+    circle(ctx, width - 12, 12, 7); // Head, low and forward
+    line(ctx, [[width - 12, 15], [10, 20]]); // Body
+    line(ctx, [[10, 20], [0, 15 + flutter]]); // Legs trailing
+    line(ctx, [[20, 18], [32, 25 - flutter]]); // Arms forward for balance
+    return;
+  }
+
+  circle(ctx, cx, 9, 8); // Head
+  line(ctx, [[cx, 16], [cx, 36]]); // Torso
+  const hipY = 36;
+  const shoulderY = 18;
+
+  if ((animation as RunnerPose) === 'JUMP') {
+    line(ctx, [[cx, hipY], [cx - 8, hipY + 10], [cx - 2, hipY + 18]]);
+    line(ctx, [[cx, hipY], [cx + 12, hipY + 8], [cx + 8, hipY + 20]]);
+    line(ctx, [[cx, shoulderY], [cx - 14, shoulderY - 8]]);
+    line(ctx, [[cx, shoulderY], [cx + 14, shoulderY - 8]]);
+    return;
+  }
+
+  // RUN: legs swing one way, arms the other
+  const swing = Math.sin((frame / frames) * Math.PI * 2) * 12;
+  line(ctx, [[cx, hipY], [cx - swing, 58]]);
+  line(ctx, [[cx, hipY], [cx + swing, 58]]);
+  line(ctx, [[cx, shoulderY], [cx + swing, shoulderY + 14]]);
+  line(ctx, [[cx, shoulderY], [cx - swing, shoulderY + 14]]);
+};
+
+const paintCactus = (color: string, width: number, height: number): FramePainter => (ctx) => {
+  const trunk = width * 0.4;
+  const left = (width - trunk) / 2;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.roundRect(left, 0, trunk, height, trunk / 2);
+  ctx.fill();
+  // Arms
+  const armY = height * 0.35;
+  ctx.beginPath();
+  ctx.roundRect(0, armY, left + 2, trunk * 0.6, 3);
+  ctx.roundRect(0, armY - height * 0.2, trunk * 0.6, height * 0.2 + 4, 3);
+  ctx.roundRect(left + trunk - 2, armY + height * 0.1, width - left - trunk + 2, trunk * 0.6, 3);
+  ctx.roundRect(width - trunk * 0.6, armY - height * 0.05, trunk * 0.6, height * 0.15 + 4, 3);
+  ctx.fill();
+};
+
+const paintBird = (color: string, width: number, height: number): FramePainter => (ctx, _animation, frame, frames) => {
+  const wing = Math.sin((frame / frames) * Math.PI * 2) * (height * 0.45);
+  const midY = height / 2;
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  // Body and head
+  ctx.beginPath();
+  ctx.ellipse(width / 2, midY, width * 0.32, height * 0.22, 0, 0, Math.PI * 2);
+  ctx.fill();
+  circle(ctx, width * 0.18, midY - 2, height * 0.16);
+  // Beak
+  ctx.beginPath();
+  ctx.moveTo(width * 0.05, midY - 4);
+  ctx.lineTo(0, midY);
+  ctx.lineTo(width * 0.05, midY + 1);
+  ctx.fill();
+  // Wing
+  ctx.lineWidth = 4;
+  ctx.lineCap = 'round';
+  line(ctx, [[width * 0.4, midY], [width * 0.6, midY - wing], [width * 0.85, midY - wing * 0.6]]);
+};
+
+const paintGap = (color: string, width: number, height: number): FramePainter => (ctx) => {
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  // Darker walls so the hole reads as depth
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.fillRect(0, 0, 6, height);
+  ctx.fillRect(width - 6, 0, 6, height);
+};
+
+export const paintObstacle = (type: ObstacleType, color: string, width: number, height: number): FramePainter => {
+  switch (type) {
+    case 'CACTUS':
+    case 'TALL_CACTUS':
+      return paintCactus(color, width, height);
+    case 'BIRD':
+    case 'LOW_BIRD':
+    case 'SINE_BIRD':
+      return paintBird(color, width, height);
+    case 'GAP':
+      return paintGap(color, width, height);
+  }
+};
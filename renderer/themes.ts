@@ -0,0 +1,150 @@
+import { ObstacleType, RunnerPose } from '../types';
+import { GROUND_Y, NORMAL_HEIGHT, PLAYER_WIDTH, WORLD_HEIGHT } from '../game/constants';
+import { OBSTACLE_CATALOG } from '../game/obstacles';
+
+// Visual themes as asset manifests. Each sprite sheet and background layer
+// may point at an image (`src`). The built-in themes don't ship images: their
+// frames and layers are painted in code (sprites.ts, parallax.ts) from the
+// same manifest, and an image dropped in later replaces the painted version.
+
+export type ThemeId = 'NEON' | 'DESERT' | 'NIGHT';
+
+export interface AnimationSpec {
+  row: number; // Sheet row holding this animation's frames, left to right
+  frames: number;
+  fps: number;
+}
+
+export interface SpriteSheetSpec<Animation extends string = string> {
+  src?: string;
+  frameWidth: number;
+  frameHeight: number;
+  padding: number; // px around the entity box in each frame (glow, overhanging limbs)
+  animations: Record<Animation, AnimationSpec>;
+  color?: string; // Painted frames only; defaults to the entity's own colour
+}
+
+// How a layer without an image gets painted
+export type LayerStyle = 'STARS' | 'SKYLINE' | 'MESAS' | 'DUNES' | 'HILLS' | 'GROUND';
+
+export interface ParallaxLayerSpec {
+  src?: string; // Tiles horizontally; should be as wide as the canvas
+  style: LayerStyle;
+  color: string;
+  factor: number; // Share of the world speed it scrolls at (1 = moves with the obstacles)
+  y: number; // Top of the band it covers
+  height: number;
+}
+
+export interface ThemeManifest {
+  label: string;
+  sky: [string, string]; // Gradient, top to bottom
+  ground: string;
+  groundEdge: string;
+  pit: string; // Inside of gaps
+  accent: string; // Turbo speed lines
+  glow: number; // Blur around runners and obstacles, 0 for none
+  runner: SpriteSheetSpec<RunnerPose>;
+  obstacles: Record<ObstacleType, SpriteSheetSpec<'IDLE'>>;
+  layers: ParallaxLayerSpec[]; // Back to front; GROUND layers are drawn over the ground
+}
+
+// Frames are laid out from the simulation's entity sizes, so hitboxes and art line up
+const runnerSheet = (padding: number): SpriteSheetSpec<RunnerPose> => ({
+  frameWidth: PLAYER_WIDTH + padding * 2,
+  frameHeight: NORMAL_HEIGHT + padding * 2,
+  padding,
+  animations: {
+    RUN: { row: 0, frames: 8, fps: 14 },
+    JUMP: { row: 1, frames: 1, fps: 1 },
+    DUCK: { row: 2, frames: 2, fps: 8 },
+  },
+});
+
+const obstacleSheets = (
+  padding: number,
+  colors: Partial<Record<ObstacleType, string>> = {}
+): Record<ObstacleType, SpriteSheetSpec<'IDLE'>> => {
+  const sheets = {} as Record<ObstacleType, SpriteSheetSpec<'IDLE'>>;
+  for (const type of Object.keys(OBSTACLE_CATALOG) as ObstacleType[]) {
+    const spec = OBSTACLE_CATALOG[type];
+    const flaps = type === 'BIRD' || type === 'LOW_BIRD' || type === 'SINE_BIRD';
+    sheets[type] = {
+      frameWidth: spec.width + padding * 2,
+      frameHeight: spec.height + padding * 2,
+      padding,
+      animations: { IDLE: { row: 0, frames: flaps ? 4 : 1, fps: 8 } },
+      color: colors[type],
+    };
+  }
+  return sheets;
+};
+
+const GROUND_BAND = { y: GROUND_Y, height: WORLD_HEIGHT - GROUND_Y };
+
+export const THEMES: Record<ThemeId, ThemeManifest> = {
+  // The original look: dark backdrop and glowing runners
+  NEON: {
+    label: 'Neon',
+    sky: ['#0d0d16', '#1a1a1a'],
+    ground: '#444',
+    groundEdge: '#00ffcc',
+    pit: '#1a1a1a',
+    accent: 'rgba(0, 255, 204, 0.2)',
+    glow: 15,
+    runner: runnerSheet(16),
+    obstacles: obstacleSheets(12),
+    layers: [
+      { style: 'SKYLINE', color: '#1c1c30', factor: 0.1, y: GROUND_Y - 200, height: 200 },
+      { style: 'SKYLINE', color: '#2a2a44', factor: 0.3, y: GROUND_Y - 120, height: 120 },
+      { style: 'GROUND', color: 'rgba(0, 255, 204, 0.15)', factor: 1, ...GROUND_BAND },
+    ],
+  },
+  DESERT: {
+    label: 'Desert',
+    sky: ['#f59e0b', '#fde68a'],
+    ground: '#c2a36b',
+    groundEdge: '#8b6b3d',
+    pit: '#3b2f20',
+    accent: 'rgba(255, 255, 255, 0.35)',
+    glow: 0,
+    runner: runnerSheet(16),
+    obstacles: obstacleSheets(12, {
+      CACTUS: '#15803d',
+      TALL_CACTUS: '#166534',
+      BIRD: '#7c2d12',
+      LOW_BIRD: '#9a3412',
+      SINE_BIRD: '#581c87',
+    }),
+    layers: [
+      { style: 'MESAS', color: '#d97706', factor: 0.08, y: GROUND_Y - 150, height: 150 },
+      { style: 'DUNES', color: '#e9c27a', factor: 0.25, y: GROUND_Y - 80, height: 80 },
+      { style: 'GROUND', color: 'rgba(90, 60, 20, 0.35)', factor: 1, ...GROUND_BAND },
+    ],
+  },
+  NIGHT: {
+    label: 'Night',
+    sky: ['#020617', '#1e293b'],
+    ground: '#1f2937',
+    groundEdge: '#475569',
+    pit: '#000',
+    accent: 'rgba(148, 163, 184, 0.3)',
+    glow: 6,
+    runner: runnerSheet(16),
+    obstacles: obstacleSheets(12, {
+      CACTUS: '#4d7c0f',
+      TALL_CACTUS: '#3f6212',
+      BIRD: '#94a3b8',
+      LOW_BIRD: '#cbd5e1',
+      SINE_BIRD: '#a78bfa',
+    }),
+    layers: [
+      { style: 'STARS', color: '#e2e8f0', factor: 0.02, y: 0, height: 260 },
+      { style: 'HILLS', color: '#0f172a', factor: 0.12, y: GROUND_Y - 130, height: 130 },
+      { style: 'HILLS', color: '#172033', factor: 0.35, y: GROUND_Y - 70, height: 70 },
+      { style: 'GROUND', color: 'rgba(148, 163, 184, 0.12)', factor: 1, ...GROUND_BAND },
+    ],
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
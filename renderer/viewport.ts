@@ -0,0 +1,44 @@
+import { Rect } from '../types';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+
+// Maps the fixed-size world onto a canvas of any size and pixel density. The
+// whole world is always on screen, centred; when the screen is wider or taller
+// than 16:9 the spare room shows more of the backdrop instead of black bars.
+
+export interface Viewport {
+  scale: number; // Canvas pixels per world unit
+  offsetX: number; // Canvas pixels from the left edge to the world's origin
+  offsetY: number;
+  visible: Rect; // World units on screen, spare room included
+}
+
+// Beyond this the extra pixels cost more fill rate than they are worth
+const MAX_PIXEL_RATIO = 2;
+
+export const fitViewport = (width: number, height: number): Viewport => {
+  const scale = Math.min(width / WORLD_WIDTH, height / WORLD_HEIGHT) || 1;
+  const offsetX = (width - WORLD_WIDTH * scale) / 2;
+  const offsetY = (height - WORLD_HEIGHT * scale) / 2;
+  return {
+    scale,
+    offsetX,
+    offsetY,
+    visible: { x: -offsetX / scale, y: -offsetY / scale, width: width / scale, height: height / scale },
+  };
+};
+
+// Before the canvas has been measured
+export const WORLD_VIEWPORT = fitViewport(WORLD_WIDTH, WORLD_HEIGHT);
+
+// Sizes the canvas backing store to its on-screen size at the display's pixel
+// density, so nothing is upscaled by the browser, and fits the world into it
+export const fitCanvas = (canvas: HTMLCanvasElement): Viewport => {
+  const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+  const width = Math.max(1, Math.round(canvas.clientWidth * ratio));
+  const height = Math.max(1, Math.round(canvas.clientHeight * ratio));
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return fitViewport(width, height);
+};
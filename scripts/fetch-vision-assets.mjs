@@ -0,0 +1,26 @@
+// Copies the MediaPipe WASM runtime out of node_modules and downloads the hand
+// model into public/mediapipe, so the game can load both from its own origin
+// (see services/visionConfig.ts). Run with `npm run vision:assets`.
+import { copyFile, mkdir, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const root = path.resolve(import.meta.dirname, '..');
+const wasmSource = path.join(root, 'node_modules/@mediapipe/tasks-vision/wasm');
+const outDir = path.join(root, 'public/mediapipe');
+
+await mkdir(path.join(outDir, 'wasm'), { recursive: true });
+
+for (const file of await readdir(wasmSource)) {
+  await copyFile(path.join(wasmSource, file), path.join(outDir, 'wasm', file));
+  console.log(`copied wasm/${file}`);
+}
+
+const response = await fetch(MODEL_URL);
+if (!response.ok) {
+  throw new Error(`Model download failed: ${response.status} ${response.statusText}`);
+}
+await writeFile(path.join(outDir, 'hand_landmarker.task'), Buffer.from(await response.arrayBuffer()));
+console.log('downloaded hand_landmarker.task');
@@ -0,0 +1,27 @@
+// Minimal stand-in for a commentary backend. Start it with
+// `node scripts/mock-commentary-server.mjs` and set
+// COMMENTARY_URL=http://localhost:8787/commentary in .env.local.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+  if (req.method !== 'POST' || req.url !== '/commentary') return res.writeHead(404).end();
+
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    try {
+      const { summary } = JSON.parse(body);
+      const text = `[mock] ${summary.score} points, ${summary.jumps} jumps, ${summary.ducks} ducks, done in by ${summary.causeOfDeath ?? 'nothing'}.`;
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ text }));
+    } catch {
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(PORT, () => console.log(`Mock commentary server on http://localhost:${PORT}/commentary`));
@@ -0,0 +1,198 @@
+// Reference server for live races. Start it with `node scripts/race-server.mjs`
+// (set RACE_SERVER_URL=ws://<host>:8788 in .env.local when it runs elsewhere).
+// It keeps rooms, hands every room a fresh seed when all its players are ready,
+// and relays each runner's snapshots to the rest of the room. Message shapes
+// are in services/raceMessages.ts. No dependencies: just enough of the
+// WebSocket protocol (RFC 6455) for small text messages.
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8788;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const DIFFICULTIES = ['EASY', 'NORMAL', 'HARD'];
+
+/** @type {Map<string, { difficulty: string, clients: Map<string, Client> }>} */
+const rooms = new Map();
+
+/**
+ * @typedef {{ id: string, name: string, ready: boolean, room: string | null, send: (message: object) => void }} Client
+ */
+
+// --- WebSocket framing ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN + opcode; servers never mask
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete frames off the front of `buffer`; returns them and the leftover bytes
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Message too large');
+    const maskLength = masked ? 4 : 0;
+    const end = offset + headerLength + maskLength + length;
+    if (buffer.length < end) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, end));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = end;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// --- Rooms ---
+
+const peersOf = (room) =>
+  [...room.clients.values()].map(({ id, name, ready }) => ({ id, name, ready }));
+
+const broadcast = (room, message, except) => {
+  for (const client of room.clients.values()) {
+    if (client !== except) client.send(message);
+  }
+};
+
+const leave = (client) => {
+  const roomName = client.room;
+  const room = roomName && rooms.get(roomName);
+  if (!room) return;
+  room.clients.delete(client.id);
+  client.room = null;
+  if (room.clients.size === 0) {
+    rooms.delete(roomName);
+  } else {
+    broadcast(room, { type: 'peers', peers: peersOf(room) });
+  }
+};
+
+const handleMessage = (client, message) => {
+  switch (message.type) {
+    case 'join': {
+      const roomName = String(message.room || '').trim().slice(0, 32);
+      if (!roomName) return client.send({ type: 'error', message: 'Room name is required' });
+      leave(client);
+      const difficulty = DIFFICULTIES.includes(message.difficulty) ? message.difficulty : 'NORMAL';
+      const room = rooms.get(roomName) ?? { difficulty, clients: new Map() };
+      rooms.set(roomName, room);
+      client.name = String(message.name || 'Runner').slice(0, 24);
+      client.ready = false;
+      client.room = roomName;
+      room.clients.set(client.id, client);
+      client.send({ type: 'joined', id: client.id, room: roomName, difficulty: room.difficulty, peers: peersOf(room) });
+      broadcast(room, { type: 'peers', peers: peersOf(room) }, client);
+      return;
+    }
+    case 'ready': {
+      const room = client.room && rooms.get(client.room);
+      if (!room) return client.send({ type: 'error', message: 'Join a room first' });
+      client.ready = true;
+      const everyone = [...room.clients.values()];
+      if (everyone.length >= 2 && everyone.every((c) => c.ready)) {
+        everyone.forEach((c) => (c.ready = false));
+        const seed = crypto.randomInt(0, 2 ** 32);
+        broadcast(room, { type: 'start', seed, difficulty: room.difficulty });
+        console.log(`Room ${client.room}: round started with seed ${seed}`);
+      }
+      broadcast(room, { type: 'peers', peers: peersOf(room) });
+      return;
+    }
+    case 'state': {
+      const room = client.room && rooms.get(client.room);
+      if (room) broadcast(room, { type: 'state', id: client.id, runner: message.runner }, client);
+      return;
+    }
+    default:
+      client.send({ type: 'error', message: `Unknown message type: ${message.type}` });
+  }
+};
+
+// --- Server ---
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' }).end('Race server: connect over WebSocket');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  /** @type {Client} */
+  const client = {
+    id: crypto.randomUUID().slice(0, 8),
+    name: 'Runner',
+    ready: false,
+    room: null,
+    send: (message) => {
+      if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+    },
+  };
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    try {
+      const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+      for (const { opcode, payload } of frames) {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+          return;
+        }
+        if (opcode === 0x9) socket.write(encodeFrame(0xa, payload)); // Ping -> pong
+        if (opcode !== 0x1) continue;
+        let message;
+        try {
+          message = JSON.parse(payload.toString('utf8'));
+        } catch {
+          client.send({ type: 'error', message: 'Messages must be JSON' });
+          continue;
+        }
+        handleMessage(client, message);
+      }
+    } catch (e) {
+      console.error(`Dropping client ${client.id}:`, e.message);
+      socket.destroy();
+    }
+  });
+  socket.on('close', () => leave(client));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => console.log(`Race server on ws://localhost:${PORT}`));
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType, HandReading } from '../types';
+import { computeAnalogControls } from './analog';
+
+// A hand with every landmark at one point of the camera image, so its palm is centred there
+const handAt = (x: number, y: number): HandReading => ({
+  landmarks: Array.from({ length: 21 }, () => ({ x, y, z: 0 })),
+  handedness: 'Right',
+  score: 1,
+  features: { curl: [0, 0, 0, 0, 0], thumbSpread: 1, thumbAcross: 0, pinchDistance: 1 },
+  gesture: GestureType.OPEN_PALM,
+});
+
+const controlsFor = (...hands: HandReading[]) => computeAnalogControls(hands, hands[0]);
+
+describe('computeAnalogControls', () => {
+  it('has nothing to report without a hand', () => {
+    expect(computeAnalogControls([], undefined)).toEqual({});
+  });
+
+  it('reads a hand in the middle of the frame as a half jump in the home lane', () => {
+    expect(controlsFor(handAt(0.5, 0.5))).toEqual({ jumpStrength: 0.5, laneX: 0 });
+  });
+
+  it('jumps harder the higher the palm, within the usable band', () => {
+    expect(controlsFor(handAt(0.5, 0.25)).jumpStrength).toBe(1);
+    expect(controlsFor(handAt(0.5, 0.05)).jumpStrength).toBe(1);
+    expect(controlsFor(handAt(0.5, 0.75)).jumpStrength).toBe(0);
+    expect(controlsFor(handAt(0.5, 0.95)).jumpStrength).toBe(0);
+  });
+
+  it("steers by the player's side, which is the other side of the unmirrored frame", () => {
+    expect(controlsFor(handAt(0.15, 0.5)).laneX).toBe(1);
+    expect(controlsFor(handAt(0.05, 0.5)).laneX).toBe(1);
+    expect(controlsFor(handAt(0.85, 0.5)).laneX).toBe(-1);
+    expect(controlsFor(handAt(0.675, 0.5)).laneX).toBe(-0.5);
+  });
+
+  it('snaps to a 1/20 grid so replays see exact values', () => {
+    expect(controlsFor(handAt(0.5, 0.513)).jumpStrength).toBe(0.45);
+    expect(controlsFor(handAt(0.5, 0.487)).jumpStrength).toBe(0.55);
+  });
+
+  it('boosts more the further apart two hands are, and always some', () => {
+    expect(controlsFor(handAt(0.5, 0.5)).turboIntensity).toBeUndefined();
+    expect(controlsFor(handAt(0.45, 0.5), handAt(0.55, 0.5)).turboIntensity).toBe(0.25);
+    expect(controlsFor(handAt(0.35, 0.5), handAt(0.65, 0.5)).turboIntensity).toBe(0.5);
+    expect(controlsFor(handAt(0.1, 0.5), handAt(0.9, 0.5)).turboIntensity).toBe(1);
+  });
+
+  it('takes jump and lane from the primary hand only', () => {
+    const primary = handAt(0.5, 0.25);
+    expect(computeAnalogControls([handAt(0.9, 0.9), primary], primary)).toMatchObject({ jumpStrength: 1, laneX: 0 });
+  });
+});
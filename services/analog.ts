@@ -0,0 +1,55 @@
+import { HandReading, Landmark, VisionState } from '../types';
+import { INDEX, PINKY, WRIST } from './gestureClassifier';
+
+// Continuous controls from hand position. Values are quantized to a 1/20 grid
+// so the simulation (and a recorded replay) sees a small, exact set of values.
+
+// Palm height (normalized image y, 0 = top) mapped to jumpStrength 0..1
+const JUMP_LOW_Y = 0.75;
+const JUMP_HIGH_Y = 0.25;
+// Usable horizontal band of the frame for laneX
+const LANE_MIN_X = 0.15;
+const LANE_MAX_X = 0.85;
+// Distance between palms (normalized) mapped to turboIntensity
+const TURBO_NEAR = 0.15;
+const TURBO_FAR = 0.6;
+const TURBO_MIN_INTENSITY = 0.25; // Two hands in view always give some boost
+
+const STEPS = 20;
+
+export const quantize = (value: number) => Math.round(value * STEPS) / STEPS;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const palmCenter = (landmarks: Landmark[]): Landmark => {
+  const points = [landmarks[WRIST], landmarks[INDEX[0]], landmarks[PINKY[0]]];
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    z: points.reduce((sum, p) => sum + p.z, 0) / points.length,
+  };
+};
+
+type AnalogControls = Pick<VisionState, 'jumpStrength' | 'laneX' | 'turboIntensity'>;
+
+// `primary` is the hand whose gesture drives the game
+export const computeAnalogControls = (hands: HandReading[], primary: HandReading | undefined): AnalogControls => {
+  if (!primary) return {};
+  const center = palmCenter(primary.landmarks);
+
+  // The camera image isn't mirrored: moving your hand to your right moves it left in the frame
+  const mirroredX = 1 - center.x;
+  const controls: AnalogControls = {
+    jumpStrength: quantize(clamp01((JUMP_LOW_Y - center.y) / (JUMP_LOW_Y - JUMP_HIGH_Y))),
+    laneX: quantize(clamp01((mirroredX - LANE_MIN_X) / (LANE_MAX_X - LANE_MIN_X)) * 2 - 1),
+  };
+
+  if (hands.length >= 2) {
+    const a = palmCenter(hands[0].landmarks);
+    const b = palmCenter(hands[1].landmarks);
+    const spread = clamp01((Math.hypot(a.x - b.x, a.y - b.y) - TURBO_NEAR) / (TURBO_FAR - TURBO_NEAR));
+    controls.turboIntensity = quantize(TURBO_MIN_INTENSITY + (1 - TURBO_MIN_INTENSITY) * spread);
+  }
+
+  return controls;
+};
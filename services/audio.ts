@@ -0,0 +1,123 @@
+import { SimEvent } from '../types';
+import { BASE_SPEED } from '../game/constants';
+import { OBSTACLE_CATALOG } from '../game/obstacles';
+import { loadJson, saveJson } from './storage';
+import { playSound, SoundId, SOUNDS } from './sfx';
+import { createMusic, Music } from './music';
+
+// Sound for the game: effects for what happens in the simulation, with cues a
+// player watching their hands can follow, and music that follows the run.
+// Browsers only start audio from a click or key press, so nothing plays until
+// unlock() has been called from one; before that every call is a no-op.
+
+export interface AudioSettings {
+  volume: number; // 0-1
+  muted: boolean;
+  reduced: boolean; // No music, and only the sounds that carry gameplay cues
+}
+
+export interface AudioEngine {
+  unlock: () => void;
+  onEvents: (events: SimEvent[]) => void;
+  // Once per frame: whether a run is moving, and how fast
+  update: (isRunning: boolean, speed: number, isTurbo: boolean) => void;
+  setSettings: (settings: AudioSettings) => void;
+  close: () => void;
+}
+
+const AUDIO_KEY = 'gesture-dash:audio';
+const DEFAULT_AUDIO: AudioSettings = { volume: 0.7, muted: false, reduced: false };
+const MILESTONE_POINTS = 100;
+
+export const loadAudioSettings = (): AudioSettings => ({
+  ...DEFAULT_AUDIO,
+  ...loadJson<Partial<AudioSettings>>(AUDIO_KEY, {}),
+});
+
+export const saveAudioSettings = (settings: AudioSettings) => saveJson(AUDIO_KEY, settings);
+
+const soundFor = (event: SimEvent): SoundId | null => {
+  switch (event.type) {
+    case 'JUMP':
+    case 'DUCK':
+    case 'COLLISION':
+    case 'SHIELD_BREAK':
+    case 'COMBO':
+      return event.type;
+    case 'SPAWN':
+      return OBSTACLE_CATALOG[event.obstacle.type].counter === 'JUMP' ? 'WARN_JUMP' : 'WARN_DUCK';
+    case 'COLLECT':
+      return event.item.type === 'COIN' ? 'COIN' : 'POWER_UP';
+    case 'POWER_UP':
+      return event.active ? 'POWER_UP' : null;
+    default:
+      return null;
+  }
+};
+
+export const createAudioEngine = (initial: AudioSettings): AudioEngine => {
+  let settings = initial;
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let music: Music | null = null;
+  let lastMilestone = 0;
+  let wasTurbo = false;
+
+  const applyVolume = () => {
+    if (ctx && master) master.gain.setTargetAtTime(settings.muted ? 0 : settings.volume, ctx.currentTime, 0.02);
+  };
+
+  const play = (id: SoundId) => {
+    if (!ctx || !master || settings.muted) return;
+    if (settings.reduced && !SOUNDS[id].cue) return;
+    playSound(ctx, master, id);
+  };
+
+  return {
+    unlock: () => {
+      if (!ctx) {
+        if (typeof AudioContext === 'undefined') return;
+        ctx = new AudioContext();
+        master = ctx.createGain();
+        master.gain.value = 0;
+        master.connect(ctx.destination);
+        music = createMusic(ctx, master);
+        applyVolume();
+      }
+      if (ctx.state === 'suspended') ctx.resume().catch((e) => console.error('Could not start audio:', e));
+    },
+    onEvents: (events) => {
+      for (const event of events) {
+        const id = soundFor(event);
+        if (id) play(id);
+        if (event.type === 'SCORE') {
+          const milestone = Math.floor(event.total / MILESTONE_POINTS);
+          if (milestone > lastMilestone) play('MILESTONE');
+          lastMilestone = milestone; // Also drops back to 0 when a new run starts
+        }
+      }
+    },
+    update: (isRunning, speed, isTurbo) => {
+      if (isRunning && isTurbo && !wasTurbo) play('TURBO');
+      wasTurbo = isRunning && isTurbo;
+      if (!music) return;
+      if (isRunning && !settings.muted && !settings.reduced) {
+        music.start();
+        music.setIntensity(speed / BASE_SPEED, isTurbo);
+      } else {
+        music.stop();
+      }
+    },
+    setSettings: (next) => {
+      settings = next;
+      applyVolume();
+    },
+    close: () => {
+      music?.stop();
+      ctx?.close();
+      ctx = null;
+      master = null;
+      music = null;
+    },
+  };
+};
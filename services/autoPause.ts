@@ -0,0 +1,11 @@
+import { loadJson, saveJson } from './storage';
+
+// How long camera play carries on with no hands in view before pausing itself
+
+const HAND_LOSS_KEY = 'gesture-dash:hand-loss-timeout';
+const DEFAULT_HAND_LOSS_MS = 2000;
+
+export const HAND_LOSS_TIMEOUTS = [0, 1000, 2000, 3000, 5000]; // ms, 0 = never
+
+export const getHandLossTimeout = () => loadJson<number>(HAND_LOSS_KEY, DEFAULT_HAND_LOSS_MS);
+export const setHandLossTimeout = (ms: number) => saveJson(HAND_LOSS_KEY, ms);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ActionBindings, GameAction, GestureType, VisionState } from '../types';
+import { BUILT_IN_PRESETS, DEFAULT_BINDINGS, emojiFor, findConflicts, findUnbound, gestureFor, resolveActions } from './bindings';
+
+const { JUMP, DUCK, TURBO, PAUSE, RESTART, POWER_UP } = GameAction;
+
+const IDLE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const rebound = (patch: Partial<ActionBindings>): ActionBindings => ({ ...DEFAULT_BINDINGS, ...patch });
+
+describe('findConflicts', () => {
+  it('finds nothing in the built-in presets', () => {
+    for (const preset of BUILT_IN_PRESETS) {
+      expect(findConflicts(preset.bindings), preset.name).toEqual([]);
+      expect(findUnbound(preset.bindings), preset.name).toEqual([]);
+    }
+  });
+
+  it('flags two actions read in the same game state on one trigger', () => {
+    expect(findConflicts(rebound({ [DUCK]: GestureType.OPEN_PALM }))).toEqual([{ trigger: GestureType.OPEN_PALM, actions: [JUMP, DUCK] }]);
+    expect(findConflicts(rebound({ [POWER_UP]: 'TWO_HANDS' }))).toEqual([{ trigger: 'TWO_HANDS', actions: [TURBO, POWER_UP] }]);
+    // Both resume a paused game
+    expect(findConflicts(rebound({ [PAUSE]: GestureType.OPEN_PALM }))).toEqual([{ trigger: GestureType.OPEN_PALM, actions: [JUMP, PAUSE] }]);
+  });
+
+  it('lets actions that are never read at the same time share a trigger', () => {
+    expect(findConflicts(rebound({ [RESTART]: GestureType.OPEN_PALM }))).toEqual([]);
+    expect(findConflicts(rebound({ [RESTART]: GestureType.PEACE }))).toEqual([]);
+  });
+
+  it('ignores unbound actions', () => {
+    expect(findConflicts(rebound({ [PAUSE]: null, [POWER_UP]: null }))).toEqual([]);
+  });
+});
+
+describe('findUnbound', () => {
+  it('lists the actions the game cannot do without', () => {
+    expect(findUnbound(rebound({ [JUMP]: null, [PAUSE]: null, [RESTART]: null }))).toEqual([JUMP, RESTART]);
+  });
+});
+
+describe('resolveActions', () => {
+  it('reads gestures through the bindings', () => {
+    const swapped = rebound({ [JUMP]: GestureType.CLOSED_FIST, [DUCK]: GestureType.OPEN_PALM });
+    expect(resolveActions({ ...IDLE, handCount: 1, gesture: GestureType.OPEN_PALM }, swapped)).toMatchObject({ JUMP: false, DUCK: true });
+    expect(resolveActions({ ...IDLE, handCount: 2, isTurbo: true }, DEFAULT_BINDINGS)).toMatchObject({ TURBO: true });
+  });
+
+  it('takes pressed actions as they are, bound or not', () => {
+    const noPause = rebound({ [PAUSE]: null });
+    const actions = resolveActions({ ...IDLE, handCount: 1, gesture: GestureType.CLOSED_FIST, pressed: [PAUSE] }, noPause);
+    expect(actions).toEqual({ JUMP: false, DUCK: false, TURBO: false, PAUSE: true, RESTART: false, POWER_UP: false });
+  });
+
+  it('leaves the power-up unbound in bindings saved before it existed', () => {
+    const { [POWER_UP]: _, ...old } = DEFAULT_BINDINGS;
+    expect(resolveActions({ ...IDLE, handCount: 1, gesture: GestureType.PINCH }, old as ActionBindings)[POWER_UP]).toBe(false);
+  });
+});
+
+describe('gestureFor', () => {
+  it('names the bound gesture, or says the action has none', () => {
+    const bindings = rebound({ [JUMP]: GestureType.OPEN_PALM, [POWER_UP]: null });
+    expect(gestureFor(bindings, JUMP)).toBe('Open Palm 🖐️');
+    expect(emojiFor(bindings, JUMP)).toBe('🖐️');
+    expect(gestureFor(bindings, POWER_UP)).toBe('Unbound');
+    expect(emojiFor(bindings, POWER_UP)).toBe('—');
+  });
+});
@@ -0,0 +1,194 @@
+import { ActionBindings, GameAction, GestureTrigger, GestureType, VisionState } from '../types';
+import { loadJson, saveJson } from './storage';
+
+// Gesture-to-action bindings. Each action has at most one trigger; the game
+// only ever asks "is JUMP active?", never "is the palm open?".
+
+export const GESTURE_INFO: Record<GestureTrigger, { label: string; emoji: string }> = {
+  [GestureType.NONE]: { label: 'None', emoji: '—' },
+  [GestureType.OPEN_PALM]: { label: 'Open Palm', emoji: '🖐️' },
+  [GestureType.CLOSED_FIST]: { label: 'Closed Fist', emoji: '✊' },
+  [GestureType.THUMBS_UP]: { label: 'Thumbs Up', emoji: '👍' },
+  [GestureType.PEACE]: { label: 'Peace', emoji: '✌️' },
+  [GestureType.POINT]: { label: 'Point', emoji: '☝️' },
+  [GestureType.PINCH]: { label: 'Pinch', emoji: '🤏' },
+  TWO_HANDS: { label: '2 Hands', emoji: '👐' },
+};
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  [GameAction.JUMP]: 'Jump / Start / Resume',
+  [GameAction.DUCK]: 'Duck',
+  [GameAction.TURBO]: 'Turbo',
+  [GameAction.PAUSE]: 'Pause / Resume',
+  [GameAction.RESTART]: 'Restart',
+  [GameAction.POWER_UP]: 'Use Power-up',
+};
+
+// How the screens name the gesture bound to an action
+export const gestureFor = (bindings: ActionBindings, action: GameAction): string => {
+  const trigger = bindings[action];
+  return trigger ? `${GESTURE_INFO[trigger].label} ${GESTURE_INFO[trigger].emoji}` : 'Unbound';
+};
+
+export const emojiFor = (bindings: ActionBindings, action: GameAction): string => {
+  const trigger = bindings[action];
+  return trigger ? GESTURE_INFO[trigger].emoji : '—';
+};
+
+export const BINDABLE_TRIGGERS: GestureTrigger[] = [
+  GestureType.OPEN_PALM,
+  GestureType.CLOSED_FIST,
+  GestureType.THUMBS_UP,
+  GestureType.PEACE,
+  GestureType.POINT,
+  GestureType.PINCH,
+  'TWO_HANDS',
+];
+
+// Game states each action is read in. Two actions may share a trigger as long
+// as they are never read at the same time (e.g. Jump and Restart). Jump also
+// resumes a paused game.
+const ACTION_CONTEXTS: Record<GameAction, string[]> = {
+  [GameAction.JUMP]: ['START', 'PLAYING', 'PAUSED'],
+  [GameAction.DUCK]: ['PLAYING'],
+  [GameAction.TURBO]: ['PLAYING'],
+  [GameAction.PAUSE]: ['PLAYING', 'PAUSED', 'COUNTDOWN'],
+  [GameAction.RESTART]: ['GAME_OVER'],
+  [GameAction.POWER_UP]: ['PLAYING'],
+};
+
+export interface BindingPreset {
+  id: string;
+  name: string;
+  bindings: ActionBindings;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_BINDINGS: ActionBindings = {
+  [GameAction.JUMP]: GestureType.OPEN_PALM,
+  [GameAction.DUCK]: GestureType.CLOSED_FIST,
+  [GameAction.TURBO]: 'TWO_HANDS',
+  [GameAction.PAUSE]: GestureType.PEACE,
+  [GameAction.RESTART]: GestureType.THUMBS_UP,
+  [GameAction.POWER_UP]: GestureType.PINCH,
+};
+
+export const BUILT_IN_PRESETS: BindingPreset[] = [
+  { id: 'classic', name: 'Classic', builtIn: true, bindings: DEFAULT_BINDINGS },
+  {
+    // Everything with one hand (either one), turbo on a finger gesture
+    id: 'one-handed',
+    name: 'One-handed',
+    builtIn: true,
+    bindings: {
+      [GameAction.JUMP]: GestureType.OPEN_PALM,
+      [GameAction.DUCK]: GestureType.CLOSED_FIST,
+      [GameAction.TURBO]: GestureType.POINT,
+      [GameAction.PAUSE]: GestureType.PEACE,
+      [GameAction.RESTART]: GestureType.THUMBS_UP,
+      [GameAction.POWER_UP]: GestureType.PINCH,
+    },
+  },
+  {
+    // Whole-hand gestures only, no individual finger control needed
+    id: 'limited-mobility',
+    name: 'Limited finger mobility',
+    builtIn: true,
+    bindings: {
+      [GameAction.JUMP]: GestureType.OPEN_PALM,
+      [GameAction.DUCK]: GestureType.CLOSED_FIST,
+      [GameAction.TURBO]: 'TWO_HANDS',
+      [GameAction.PAUSE]: null,
+      [GameAction.RESTART]: GestureType.OPEN_PALM,
+      [GameAction.POWER_UP]: null,
+    },
+  },
+];
+
+export type ActionState = Record<GameAction, boolean>;
+
+export const isTriggered = (trigger: GestureTrigger | null, input: VisionState): boolean => {
+  if (!trigger || trigger === GestureType.NONE) return false;
+  return trigger === 'TWO_HANDS' ? input.isTurbo : input.gesture === trigger;
+};
+
+const pressedActions = (pressed: GameAction[]): ActionState => ({
+  [GameAction.JUMP]: pressed.includes(GameAction.JUMP),
+  [GameAction.DUCK]: pressed.includes(GameAction.DUCK),
+  [GameAction.TURBO]: pressed.includes(GameAction.TURBO),
+  [GameAction.PAUSE]: pressed.includes(GameAction.PAUSE),
+  [GameAction.RESTART]: pressed.includes(GameAction.RESTART),
+  [GameAction.POWER_UP]: pressed.includes(GameAction.POWER_UP),
+});
+
+const resolveGestures = (input: VisionState, bindings: ActionBindings): ActionState => ({
+  [GameAction.JUMP]: isTriggered(bindings[GameAction.JUMP], input),
+  [GameAction.DUCK]: isTriggered(bindings[GameAction.DUCK], input),
+  [GameAction.TURBO]: isTriggered(bindings[GameAction.TURBO], input),
+  [GameAction.PAUSE]: isTriggered(bindings[GameAction.PAUSE], input),
+  [GameAction.RESTART]: isTriggered(bindings[GameAction.RESTART], input),
+  // Missing from bindings saved before power-ups existed
+  [GameAction.POWER_UP]: isTriggered(bindings[GameAction.POWER_UP] ?? null, input),
+});
+
+// Devices that press actions directly (keyboard, gamepad, touch) bypass the bindings,
+// so an action with no gesture still has its key
+export const resolveActions = (input: VisionState, bindings: ActionBindings): ActionState =>
+  input.pressed ? pressedActions(input.pressed) : resolveGestures(input, bindings);
+
+// The input a button device reports: the pressed actions, plus a virtual hand
+// and the turbo flag so the HUD and sound react as they do to the camera
+export const encodeActions = (buttons: ActionState): VisionState => {
+  const pressed = Object.values(GameAction).filter((action) => buttons[action]);
+  return { handCount: pressed.length > 0 ? 1 : 0, gesture: GestureType.NONE, isTurbo: buttons[GameAction.TURBO], pressed };
+};
+
+export interface BindingConflict {
+  trigger: GestureTrigger;
+  actions: GameAction[];
+}
+
+export const findConflicts = (bindings: ActionBindings): BindingConflict[] => {
+  const conflicts: BindingConflict[] = [];
+  const actions = Object.values(GameAction);
+  for (const trigger of BINDABLE_TRIGGERS) {
+    const bound = actions.filter((action) => bindings[action] === trigger);
+    const clashing = bound.filter((a) =>
+      bound.some((b) => a !== b && ACTION_CONTEXTS[a].some((context) => ACTION_CONTEXTS[b].includes(context)))
+    );
+    if (clashing.length > 1) conflicts.push({ trigger, actions: clashing });
+  }
+  return conflicts;
+};
+
+// Actions the game can't do without
+export const REQUIRED_ACTIONS = [GameAction.JUMP, GameAction.DUCK, GameAction.RESTART];
+
+export const findUnbound = (bindings: ActionBindings): GameAction[] =>
+  REQUIRED_ACTIONS.filter((action) => !bindings[action]);
+
+// Active bindings and saved presets (localStorage)
+
+const BINDINGS_KEY = 'gesture-dash:bindings';
+const PRESETS_KEY = 'gesture-dash:binding-presets';
+
+let activeBindings: ActionBindings = { ...DEFAULT_BINDINGS, ...loadJson<Partial<ActionBindings>>(BINDINGS_KEY, {}) };
+
+export const getActiveBindings = (): ActionBindings => activeBindings;
+
+export const setActiveBindings = (bindings: ActionBindings) => {
+  activeBindings = bindings;
+  saveJson(BINDINGS_KEY, bindings);
+};
+
+export const loadCustomPresets = (): BindingPreset[] => loadJson<BindingPreset[]>(PRESETS_KEY, []);
+
+export const saveCustomPreset = (name: string, bindings: ActionBindings): BindingPreset => {
+  const preset: BindingPreset = { id: `custom-${Date.now().toString(36)}`, name, bindings };
+  saveJson(PRESETS_KEY, [...loadCustomPresets(), preset]);
+  return preset;
+};
+
+export const deleteCustomPreset = (id: string) => {
+  saveJson(PRESETS_KEY, loadCustomPresets().filter((preset) => preset.id !== id));
+};
@@ -0,0 +1,12 @@
+// Remembered answers from slow or rate-limited providers: the last `size`
+// entries by key, dropping the oldest first
+export const createCache = <T,>(size: number) => {
+  const entries = new Map<string, T>();
+  return {
+    get: (key: string): T | undefined => entries.get(key),
+    set: (key: string, value: T) => {
+      entries.set(key, value);
+      if (entries.size > size) entries.delete(entries.keys().next().value!);
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType, HandFeatures } from '../types';
+import { buildProfile, buildTemplate, classifyWithProfile } from './calibration';
+
+const { OPEN_PALM, CLOSED_FIST, THUMBS_UP, PINCH, NONE } = GestureType;
+
+const hand = (curl: number, thumbSpread = 1, thumbAcross = 0, pinchDistance = 1): HandFeatures => ({
+  curl: [curl, curl, curl, curl, curl],
+  thumbSpread,
+  thumbAcross,
+  pinchDistance,
+});
+
+// A player whose open hand is only half open and whose fist is only half closed:
+// the generic thresholds would miss both
+const PALM = hand(0.3);
+const FIST = hand(0.7, 0.5);
+const profile = buildProfile('Sam', {
+  [OPEN_PALM]: [hand(0.28), PALM, hand(0.32)],
+  [CLOSED_FIST]: [hand(0.68, 0.5), FIST, hand(0.72, 0.5)],
+});
+
+describe('buildTemplate', () => {
+  it('centres on the mean of the samples', () => {
+    const { centroid } = buildTemplate([hand(0.2, 1), hand(0.4, 0.5)])!;
+    [0.3, 0.3, 0.3, 0.3, 0.3, 0.75, 0, 1].forEach((value, i) => expect(centroid[i]).toBeCloseTo(value));
+  });
+
+  it('keeps a minimum radius for a perfectly steady calibration', () => {
+    expect(buildTemplate([PALM, PALM, PALM])!.radius).toBeGreaterThan(0.1);
+  });
+
+  it('has nothing to build from no samples', () => {
+    expect(buildTemplate([])).toBeUndefined();
+  });
+});
+
+describe('classifyWithProfile', () => {
+  it('reads a pose as the nearest calibrated gesture, whatever the generic classifier said', () => {
+    expect(classifyWithProfile(hand(0.31), profile, NONE)).toBe(OPEN_PALM);
+    expect(classifyWithProfile(hand(0.69, 0.5), profile, OPEN_PALM)).toBe(CLOSED_FIST);
+  });
+
+  it('rejects a pose outside every template', () => {
+    expect(classifyWithProfile(hand(1, 0.2), profile, NONE)).toBe(NONE);
+    expect(classifyWithProfile(hand(0.5, 0.75), profile, NONE)).toBe(NONE);
+  });
+
+  it('leaves gestures the player did not calibrate to the generic classifier', () => {
+    expect(profile.templates[THUMBS_UP]).toBeUndefined();
+    expect(classifyWithProfile(hand(0.7, 1, 1), profile, THUMBS_UP)).toBe(THUMBS_UP);
+    expect(classifyWithProfile(PALM, profile, PINCH)).toBe(PINCH);
+  });
+
+  it('compares against each template relative to its own spread', () => {
+    const loose = buildProfile('Loose', {
+      [OPEN_PALM]: [hand(0), hand(0.6)],
+      [CLOSED_FIST]: [FIST, FIST],
+    });
+    // Nearer the fist's centroid, but inside the loose palm's spread and outside the tight fist's
+    expect(classifyWithProfile(hand(0.55, 0.75), loose, NONE)).toBe(OPEN_PALM);
+  });
+});
@@ -0,0 +1,115 @@
+import { GestureType, HandFeatures } from '../types';
+import { loadJson, removeKey, saveJson } from './storage';
+
+// Per-player calibration. The wizard records the player's own hand poses for
+// each gesture; the profile keeps one centroid per gesture in feature space and
+// frames are classified by the nearest centroid instead of fixed thresholds.
+
+export const CALIBRATED_GESTURES = [GestureType.OPEN_PALM, GestureType.CLOSED_FIST, GestureType.THUMBS_UP];
+
+export interface GestureTemplate {
+  centroid: number[];
+  radius: number; // Samples further than this from the centroid are rejected
+}
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  templates: Partial<Record<GestureType, GestureTemplate>>;
+}
+
+const PROFILES_KEY = 'gesture-dash:calibration-profiles';
+const ACTIVE_KEY = 'gesture-dash:active-calibration';
+
+// Radius = mean distance + this many standard deviations, with a floor so a very
+// steady calibration doesn't reject every later frame
+const RADIUS_DEVIATIONS = 2.5;
+const MIN_RADIUS = 0.15;
+
+export const featureVector = (features: HandFeatures): number[] => [
+  ...features.curl,
+  features.thumbSpread,
+  features.thumbAcross,
+  features.pinchDistance,
+];
+
+// Compares the common prefix, so profiles saved before a feature was added keep working
+const distance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+export const buildTemplate = (samples: HandFeatures[]): GestureTemplate | undefined => {
+  if (samples.length === 0) return undefined;
+  const vectors = samples.map(featureVector);
+  const centroid = vectors[0].map((_, i) => vectors.reduce((sum, v) => sum + v[i], 0) / vectors.length);
+  const distances = vectors.map((v) => distance(v, centroid));
+  const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const std = Math.sqrt(distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / distances.length);
+  return { centroid, radius: Math.max(mean + RADIUS_DEVIATIONS * std, MIN_RADIUS) };
+};
+
+export const buildProfile = (name: string, samples: Partial<Record<GestureType, HandFeatures[]>>): CalibrationProfile => {
+  const templates: CalibrationProfile['templates'] = {};
+  for (const gesture of CALIBRATED_GESTURES) {
+    const template = buildTemplate(samples[gesture] ?? []);
+    if (template) templates[gesture] = template;
+  }
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    createdAt: new Date().toISOString(),
+    templates,
+  };
+};
+
+// Nearest centroid, or NONE when the pose is outside every template's radius.
+// Gestures the profile has no template for are left to the generic classifier.
+export const classifyWithProfile = (
+  features: HandFeatures,
+  profile: CalibrationProfile,
+  generic: GestureType
+): GestureType => {
+  if (generic !== GestureType.NONE && !profile.templates[generic]) return generic;
+
+  const vector = featureVector(features);
+  let best = GestureType.NONE;
+  let bestScore = Infinity;
+  for (const [gesture, template] of Object.entries(profile.templates)) {
+    if (!template) continue;
+    // Distance relative to the template's own spread, so tight and loose gestures compare fairly
+    const score = distance(vector, template.centroid) / template.radius;
+    if (score <= 1 && score < bestScore) {
+      best = gesture as GestureType;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Persistence (localStorage)
+
+export const loadProfiles = (): CalibrationProfile[] => loadJson<CalibrationProfile[]>(PROFILES_KEY, []);
+
+export const saveProfile = (profile: CalibrationProfile) => {
+  saveJson(PROFILES_KEY, [...loadProfiles().filter((p) => p.id !== profile.id), profile]);
+};
+
+export const deleteProfile = (id: string) => {
+  saveJson(PROFILES_KEY, loadProfiles().filter((p) => p.id !== id));
+  if (getActiveProfileId() === id) setActiveProfileId(null);
+};
+
+export const getActiveProfileId = (): string | null => loadJson<string | null>(ACTIVE_KEY, null);
+
+export const setActiveProfileId = (id: string | null) => {
+  if (id) saveJson(ACTIVE_KEY, id);
+  else removeKey(ACTIVE_KEY);
+};
+
+export const loadActiveProfile = (): CalibrationProfile | null => {
+  const id = getActiveProfileId();
+  return loadProfiles().find((p) => p.id === id) ?? null;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GestureType, ObstacleType } from '../types';
+import { DEFAULT_BINDINGS } from './bindings';
+import { analyzeRuns, offlineTips } from './coach';
+import { ObstacleReaction, RunTelemetry } from './telemetry';
+
+const runOf = (patch: Partial<RunTelemetry> = {}): RunTelemetry => ({
+  recordedAt: 0,
+  score: 300,
+  duration: 20,
+  reactions: [],
+  misreads: {},
+  cameraFrames: 600,
+  deathBy: null,
+  ...patch,
+});
+
+// `count` identical reactions to one obstacle type
+const reactions = (obstacle: ObstacleType, action: 'JUMP' | 'DUCK', leadMs: number, count = 3): ObstacleReaction[] =>
+  Array.from({ length: count }, () => ({ obstacle, action, reactionMs: 600, leadMs }));
+
+const ids = (runs: RunTelemetry[], bindings = DEFAULT_BINDINGS) => analyzeRuns(runs, bindings).map((insight) => insight.id);
+
+describe('analyzeRuns', () => {
+  it('finds nothing to say about clean runs, or too few reactions to judge', () => {
+    expect(ids([])).toEqual([]);
+    expect(ids([runOf({ reactions: reactions('CACTUS', 'JUMP', 250) })])).toEqual([]);
+    expect(ids([runOf({ reactions: reactions('CACTUS', 'JUMP', 20, 2) })])).toEqual([]);
+  });
+
+  it('spots jumps that start too late or too early, by the median lead', () => {
+    expect(ids([runOf({ reactions: reactions('CACTUS', 'JUMP', 40) })])).toEqual(['late-CACTUS']);
+    expect(ids([runOf({ reactions: reactions('CACTUS', 'JUMP', 500) })])).toEqual(['early-CACTUS']);
+    const mixed = [...reactions('CACTUS', 'JUMP', 20, 1), ...reactions('CACTUS', 'JUMP', 250, 2)];
+    expect(ids([runOf({ reactions: mixed })])).toEqual([]);
+  });
+
+  it('spots the wrong action for an obstacle, naming the gesture the player has bound', () => {
+    const [insight] = analyzeRuns([runOf({ reactions: reactions('BIRD', 'JUMP', 300) })], {
+      ...DEFAULT_BINDINGS,
+      [GameAction.DUCK]: GestureType.POINT,
+    });
+    expect(insight).toMatchObject({ id: 'wrong-BIRD', obstacle: 'BIRD' });
+    expect(insight.tip).toContain('point');
+  });
+
+  it('points out an obstacle that keeps ending runs, unless timing already explains it', () => {
+    const deaths = [runOf({ deathBy: 'LOW_BIRD' }), runOf({ deathBy: 'LOW_BIRD' }), runOf({ deathBy: 'GAP' })];
+    expect(ids(deaths)).toEqual(['deaths-LOW_BIRD']);
+    expect(ids([...deaths, runOf({ deathBy: 'CACTUS' })])).toEqual([]); // Two of four runs
+    const late = runOf({ reactions: reactions('LOW_BIRD', 'DUCK', 50) });
+    expect(ids([...deaths, late])).toEqual(['late-LOW_BIRD']);
+  });
+
+  it('points out a gesture the camera keeps misreading', () => {
+    const runs = [runOf({ misreads: { [GestureType.PINCH]: 120, [GestureType.OPEN_PALM]: 60 } }), runOf()];
+    expect(ids(runs)).toEqual(['misread-PINCH']);
+    expect(ids([runOf({ misreads: { [GestureType.PINCH]: 120 } }), runOf(), runOf()])).toEqual([]); // Under 8% of frames
+  });
+});
+
+describe('offlineTips', () => {
+  it('gives the most important three tips, or a generic one', () => {
+    const runs = [
+      runOf({
+        reactions: [...reactions('CACTUS', 'JUMP', 40), ...reactions('GAP', 'JUMP', 20), ...reactions('BIRD', 'JUMP', 300)],
+        misreads: { [GestureType.PEACE]: 200 },
+      }),
+    ];
+    const insights = analyzeRuns(runs, DEFAULT_BINDINGS);
+    expect(insights).toHaveLength(4);
+    expect(offlineTips(insights)).toEqual(insights.slice(0, 3).map((insight) => insight.tip));
+    expect(offlineTips([])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,232 @@
+import { ActionBindings, GameAction, GestureType, ObstacleType } from '../types';
+import { OBSTACLE_CATALOG } from '../game/obstacles';
+import { withTimeout } from './async';
+import { createCache } from './cache';
+import { GESTURE_INFO } from './bindings';
+import { createGeminiCoachProvider } from './gemini';
+import { loadJson, saveJson } from './storage';
+import { ObstacleReaction, RunTelemetry } from './telemetry';
+
+// Optional coaching mode. Recent runs' telemetry is turned into insights by
+// fixed rules; those double as the offline tips and as context for Gemini,
+// which rewrites them into friendlier advice when a key is available.
+
+export interface CoachInsight {
+  id: string;
+  obstacle?: ObstacleType; // The live hint shows when this obstacle appears
+  tip: string; // Between runs
+  hint: string; // A few words, on screen during a run
+}
+
+export interface CoachProvider {
+  name: string;
+  isAvailable: () => boolean;
+  generate: (runs: RunTelemetry[], insights: CoachInsight[], bindings: ActionBindings, signal?: AbortSignal) => Promise<string[]>;
+}
+
+const COACH_ENABLED_KEY = 'gesture-dash:coach-enabled';
+const COACH_TIMEOUT_MS = 8000;
+const MAX_TIPS = 3;
+const MIN_SAMPLES = 3; // Reactions of one kind before judging their timing
+
+// When it's too late or too early to start the action that clears each
+// obstacle (ms before the obstacle reaches the player)
+const LATE_LEAD_MS: Record<ObstacleType, number> = {
+  CACTUS: 70,
+  TALL_CACTUS: 90,
+  GAP: 60,
+  BIRD: 150,
+  LOW_BIRD: 150,
+  SINE_BIRD: 150,
+};
+const EARLY_LEAD_MS: Partial<Record<ObstacleType, number>> = { CACTUS: 420, TALL_CACTUS: 380 };
+const OBSTACLE_TYPES = Object.keys(OBSTACLE_CATALOG) as ObstacleType[];
+const WRONG_ACTION_SHARE = 0.4;
+const MISREAD_SHARE = 0.08;
+
+export const HINT_COOLDOWN_MS = 8000;
+
+export const isCoachEnabled = () => loadJson<boolean>(COACH_ENABLED_KEY, false);
+export const setCoachEnabled = (enabled: boolean) => saveJson(COACH_ENABLED_KEY, enabled);
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const gestureLabel = (bindings: ActionBindings, action: GameAction) => {
+  const trigger = bindings[action];
+  return trigger ? GESTURE_INFO[trigger].label.toLowerCase() : action.toLowerCase();
+};
+
+const gestureEmoji = (bindings: ActionBindings, action: GameAction) => {
+  const trigger = bindings[action];
+  return trigger ? GESTURE_INFO[trigger].emoji : '';
+};
+
+const ACTION_VERBS = { JUMP: 'jumping', DUCK: 'ducking' };
+
+// Reaction timing and choice of action, per obstacle type
+const timingInsights = (reactions: ObstacleReaction[], bindings: ActionBindings): CoachInsight[] => {
+  const insights: CoachInsight[] = [];
+  for (const obstacle of OBSTACLE_TYPES) {
+    const action = OBSTACLE_CATALOG[obstacle].counter;
+    const gameAction = action === 'JUMP' ? GameAction.JUMP : GameAction.DUCK;
+    const label = gestureLabel(bindings, gameAction);
+    const emoji = gestureEmoji(bindings, gameAction);
+    const forType = reactions.filter((r) => r.obstacle === obstacle);
+    const correct = forType.filter((r) => r.action === action);
+
+    if (forType.length >= MIN_SAMPLES && 1 - correct.length / forType.length > WRONG_ACTION_SHARE) {
+      insights.push({
+        id: `wrong-${obstacle}`,
+        obstacle,
+        tip: `You're often ${ACTION_VERBS[action === 'JUMP' ? 'DUCK' : 'JUMP']} for ${OBSTACLE_CATALOG[obstacle].plural}; they need a ${label} instead.`,
+        hint: `${emoji} ${action === 'JUMP' ? 'Jump' : 'Duck'} this one!`,
+      });
+    }
+    if (correct.length < MIN_SAMPLES) continue;
+
+    const lead = median(correct.map((r) => r.leadMs));
+    const early = EARLY_LEAD_MS[obstacle];
+    if (lead < LATE_LEAD_MS[obstacle]) {
+      insights.push({
+        id: `late-${obstacle}`,
+        obstacle,
+        tip: `You're ${ACTION_VERBS[action]} too late for ${OBSTACLE_CATALOG[obstacle].plural}; start your ${label} earlier.`,
+        hint: `${emoji} Earlier!`,
+      });
+    } else if (early !== undefined && lead > early) {
+      insights.push({
+        id: `early-${obstacle}`,
+        obstacle,
+        tip: `You're ${ACTION_VERBS[action]} too early for ${OBSTACLE_CATALOG[obstacle].plural} and coming down on them; wait a beat before your ${label}.`,
+        hint: `${emoji} Wait for it...`,
+      });
+    }
+  }
+  return insights;
+};
+
+// Deterministic analysis of the last few runs, most important first
+export const analyzeRuns = (runs: RunTelemetry[], bindings: ActionBindings): CoachInsight[] => {
+  const insights = timingInsights(runs.flatMap((run) => run.reactions), bindings);
+
+  // Deaths repeatedly caused by the same obstacle, when timing didn't already explain it
+  const deaths = runs.map((run) => run.deathBy).filter((type): type is ObstacleType => type !== null);
+  for (const obstacle of OBSTACLE_TYPES) {
+    const count = deaths.filter((type) => type === obstacle).length;
+    if (count < 2 || count / runs.length < 0.6 || insights.some((i) => i.obstacle === obstacle)) continue;
+    const gameAction = OBSTACLE_CATALOG[obstacle].counter === 'JUMP' ? GameAction.JUMP : GameAction.DUCK;
+    const { label, plural } = OBSTACLE_CATALOG[obstacle];
+    insights.push({
+      id: `deaths-${obstacle}`,
+      obstacle,
+      tip: `${capitalize(plural)} ended ${count} of your last ${runs.length} runs; watch for them and have your ${gestureLabel(bindings, gameAction)} ready.`,
+      hint: `${gestureEmoji(bindings, gameAction)} ${capitalize(label)} incoming`,
+    });
+  }
+
+  // Gestures the camera keeps getting wrong
+  const frames = runs.reduce((sum, run) => sum + run.cameraFrames, 0);
+  const misreads: Partial<Record<GestureType, number>> = {};
+  for (const run of runs) {
+    for (const [gesture, count] of Object.entries(run.misreads) as [GestureType, number][]) {
+      misreads[gesture] = (misreads[gesture] ?? 0) + count;
+    }
+  }
+  const [worst, worstCount] = (Object.entries(misreads) as [GestureType, number][]).sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (worst && frames > 0 && worstCount / frames > MISREAD_SHARE) {
+    insights.push({
+      id: `misread-${worst}`,
+      tip: `The camera keeps misreading your ${GESTURE_INFO[worst].label.toLowerCase()}; hold it square to the camera, or calibrate it from the start screen.`,
+      hint: `${GESTURE_INFO[worst].emoji} Hold it steady`,
+    });
+  }
+
+  return insights;
+};
+
+export const offlineTips = (insights: CoachInsight[]): string[] =>
+  insights.length > 0
+    ? insights.slice(0, MAX_TIPS).map((i) => i.tip)
+    : ['No repeating mistakes in your recent runs. Try holding turbo longer for a higher score.'];
+
+// Shared context for remote coaches
+export const buildCoachPrompt = (runs: RunTelemetry[], insights: CoachInsight[], bindings: ActionBindings): string => {
+  const reactions = runs.flatMap((run) => run.reactions);
+  const perType = OBSTACLE_TYPES.map((obstacle) => {
+    const forType = reactions.filter((r) => r.obstacle === obstacle);
+    if (forType.length === 0) return `- ${OBSTACLE_CATALOG[obstacle].plural}: no reactions recorded`;
+    const jumps = forType.filter((r) => r.action === 'JUMP').length;
+    return `- ${OBSTACLE_CATALOG[obstacle].plural}: ${forType.length} reactions (${jumps} jumps, ${forType.length - jumps} ducks), median ${Math.round(median(forType.map((r) => r.reactionMs)))}ms after appearing, median ${Math.round(median(forType.map((r) => r.leadMs)))}ms before impact`;
+  });
+  const deaths = runs.map((run) => run.deathBy ?? 'none').join(', ');
+  const misreads = runs.flatMap((run) => Object.entries(run.misreads).map(([g, n]) => `${g}: ${n}`)).join(', ') || 'none';
+  const controls = Object.values(GameAction)
+    .map((action) => `${action} = ${bindings[action] ? GESTURE_INFO[bindings[action]!].label : 'unbound'}`)
+    .join(', ');
+
+  return `You are a coach for "Gesture Dash", an endless runner controlled by hand gestures in front of a webcam.
+Cacti and gaps in the ground must be jumped (tall cacti need a full-strength jump); birds must be ducked under (jumping into a bird is fatal).
+Controls: ${controls}.
+Telemetry from the player's last ${runs.length} runs (scores: ${runs.map((r) => r.score).join(', ')}):
+${perType.join('\n')}
+- Deaths by obstacle: ${deaths}
+- Camera frames where a gesture was misread: ${misreads}
+Observations: ${insights.map((i) => i.tip).join(' ') || 'none'}
+Give at most ${MAX_TIPS} short, concrete tips, one per line, no numbering. Refer to the gestures by name.`;
+};
+
+let geminiCoach: CoachProvider | null = null;
+const tipsCache = createCache<string[]>(1); // Only the latest runs are asked about again
+
+// Tips for between runs: Gemini when available, the rule-based tips otherwise
+export const generateCoachTips = async (runs: RunTelemetry[], bindings: ActionBindings): Promise<string[]> => {
+  const key = JSON.stringify([runs.map((r) => r.recordedAt), bindings]);
+  const cached = tipsCache.get(key);
+  if (cached) return cached;
+  const insights = analyzeRuns(runs, bindings);
+
+  geminiCoach ??= createGeminiCoachProvider(process.env.API_KEY || '');
+  if (geminiCoach.isAvailable() && runs.length > 0) {
+    try {
+      const tips = (await withTimeout((signal) => geminiCoach!.generate(runs, insights, bindings, signal), COACH_TIMEOUT_MS))
+        .slice(0, MAX_TIPS);
+      if (tips.length > 0) {
+        tipsCache.set(key, tips);
+        return tips;
+      }
+    } catch (error) {
+      console.error('Coach provider failed:', error);
+    }
+  }
+  return offlineTips(insights);
+};
+
+// Live hints during a run: when an obstacle the player keeps struggling with
+// appears, or when this run's last few reactions repeat the same mistake
+export const createHintMonitor = (insights: CoachInsight[], bindings: ActionBindings) => {
+  let lastHintAt = -Infinity;
+  let active = insights;
+
+  const update = (reactions: readonly ObstacleReaction[]) => {
+    const recent = timingInsights(reactions.slice(-MIN_SAMPLES), bindings);
+    active = [...recent, ...insights.filter((i) => !recent.some((r) => r.obstacle === i.obstacle))];
+  };
+
+  const onSpawn = (obstacle: ObstacleType, now: number): string | null => {
+    if (now - lastHintAt < HINT_COOLDOWN_MS) return null;
+    const insight = active.find((i) => i.obstacle === obstacle);
+    if (!insight) return null;
+    lastHintAt = now;
+    return insight.hint;
+  };
+
+  return { update, onSpawn };
+};
+
+export type HintMonitor = ReturnType<typeof createHintMonitor>;
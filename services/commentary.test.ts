@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RunSummary } from '../types';
+import { CommentaryProvider, CommentatorConfig, createCommentator } from './commentary';
+import { createTemplateProvider } from './commentaryTemplates';
+
+const CONFIG: CommentatorConfig = { timeoutMs: 100, minIntervalMs: 1000, cacheSize: 2 };
+
+const SUMMARY: RunSummary = {
+  score: 640,
+  duration: 42.5,
+  causeOfDeath: 'CACTUS',
+  jumps: 20,
+  ducks: 6,
+  turboTime: 3,
+  coins: 11,
+  powerUpsUsed: 1,
+  bestCombo: 8,
+  personalBest: 900,
+};
+
+// Another run, so it misses the cache
+const run = (score: number): RunSummary => ({ ...SUMMARY, score });
+
+// A provider that answers with `generate`, counting its calls
+const stubProvider = (name: string, generate: CommentaryProvider['generate'], available = true) => ({
+  name,
+  isAvailable: () => available,
+  generate: vi.fn(generate),
+});
+
+const FALLBACK = stubProvider('fallback', async () => 'Fallback line');
+
+describe('createCommentator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the first available provider’s line, trimmed', async () => {
+    const offline = stubProvider('offline', async () => 'Never asked', false);
+    const remote = stubProvider('remote', async () => '  Nice run!\n');
+    expect(await createCommentator([offline, remote], FALLBACK, CONFIG).comment(SUMMARY)).toBe('Nice run!');
+    expect(offline.generate).not.toHaveBeenCalled();
+  });
+
+  it('moves on to the next provider when one fails or says nothing', async () => {
+    const failing = stubProvider('failing', async () => Promise.reject(new Error('quota')));
+    const silent = stubProvider('silent', async () => '   ');
+    const working = stubProvider('working', async () => 'Third time lucky');
+    expect(await createCommentator([failing, silent, working], FALLBACK, CONFIG).comment(SUMMARY)).toBe('Third time lucky');
+    expect(failing.generate).toHaveBeenCalledOnce();
+    expect(silent.generate).toHaveBeenCalledOnce();
+  });
+
+  it('gives up on a provider after the timeout and aborts its call', async () => {
+    let signal: AbortSignal | undefined;
+    const hanging = stubProvider('hanging', (_, s) => {
+      signal = s;
+      return new Promise<string>(() => {});
+    });
+    const line = createCommentator([hanging], FALLBACK, CONFIG).comment(SUMMARY);
+    await vi.advanceTimersByTimeAsync(CONFIG.timeoutMs);
+    expect(await line).toBe('Fallback line');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('answers an identical run from the cache, forgetting the oldest past cacheSize', async () => {
+    let calls = 0;
+    const remote = stubProvider('remote', async (summary) => `Line ${++calls} for ${summary.score}`);
+    const commentator = createCommentator([remote], FALLBACK, { ...CONFIG, minIntervalMs: 0 });
+    expect(await commentator.comment(run(1))).toBe('Line 1 for 1');
+    expect(await commentator.comment(run(1))).toBe('Line 1 for 1');
+    expect(remote.generate).toHaveBeenCalledOnce();
+
+    await commentator.comment(run(2));
+    await commentator.comment(run(3));
+    expect(await commentator.comment(run(1))).toBe('Line 4 for 1');
+    expect(await commentator.comment(run(3))).toBe('Line 3 for 3');
+  });
+
+  it('skips a provider called less than minIntervalMs ago', async () => {
+    const remote = stubProvider('remote', async () => 'Remote line');
+    const commentator = createCommentator([remote], FALLBACK, CONFIG);
+    expect(await commentator.comment(run(1))).toBe('Remote line');
+    expect(await commentator.comment(run(2))).toBe('Fallback line');
+    expect(remote.generate).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(CONFIG.minIntervalMs);
+    expect(await commentator.comment(run(3))).toBe('Remote line');
+    expect(remote.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the offline templates by default', async () => {
+    const templates = await createTemplateProvider().generate(SUMMARY);
+    expect(await createCommentator([], undefined, CONFIG).comment(SUMMARY)).toBe(templates);
+    expect(templates).not.toBe('');
+  });
+});
@@ -0,0 +1,110 @@
+import { RunSummary, SimState } from '../types';
+import { withTimeout } from './async';
+import { createCache } from './cache';
+import { createGeminiProvider } from './gemini';
+import { createHttpProvider } from './commentaryHttp';
+import { createTemplateProvider } from './commentaryTemplates';
+
+// Game-over commentary. Providers only turn a run summary into a line of text;
+// timeouts, caching, rate limiting and falling back to the offline templates
+// all happen in the commentator so the UI just awaits a string.
+
+export interface CommentaryProvider {
+  name: string;
+  isAvailable: () => boolean;
+  generate: (summary: RunSummary, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface CommentatorConfig {
+  timeoutMs: number; // Per provider call
+  minIntervalMs: number; // Minimum time between calls to the same provider
+  cacheSize: number; // Remembered summaries (identical runs get the same line)
+}
+
+export const DEFAULT_COMMENTATOR_CONFIG: CommentatorConfig = {
+  timeoutMs: 5000,
+  minIntervalMs: 3000,
+  cacheSize: 20,
+};
+
+export const summarizeRun = (state: SimState, personalBest: number): RunSummary => ({
+  score: state.score,
+  duration: state.elapsed,
+  causeOfDeath: state.crashedInto?.type ?? null,
+  ...state.stats,
+  personalBest,
+});
+
+const CAUSE_LABELS: Record<NonNullable<RunSummary['causeOfDeath']>, string> = {
+  CACTUS: 'ran into a cactus',
+  TALL_CACTUS: 'ran into a tall cactus',
+  BIRD: 'jumped into a bird',
+  LOW_BIRD: 'got hit by a low-flying bird',
+  SINE_BIRD: 'got hit by a swooping bird',
+  GAP: 'fell into a gap in the ground',
+};
+
+// Shared by the remote providers so they all see the same run context
+export const buildCommentaryPrompt = (summary: RunSummary): string => {
+  const cause = summary.causeOfDeath ? CAUSE_LABELS[summary.causeOfDeath] : 'stopped running';
+  const best =
+    summary.score > summary.personalBest
+      ? `This beats their previous personal best of ${summary.personalBest}.`
+      : `Their personal best is ${summary.personalBest}.`;
+  return `The player just finished a game of "Gesture Dash", an endless runner controlled by hand gestures.
+Score: ${summary.score}. ${best}
+They survived ${summary.duration.toFixed(1)} seconds and ${cause}.
+They jumped ${summary.jumps} times, ducked ${summary.ducks} times and used turbo for ${summary.turboTime.toFixed(1)} seconds.
+Give a short, witty, 1-sentence commentary on their performance that refers to how the run went.
+If the score is low (<500), roast them gently. If high (>1000), praise them like a god.`;
+};
+
+export const createCommentator = (
+  providers: CommentaryProvider[],
+  fallback: CommentaryProvider = createTemplateProvider(),
+  config: CommentatorConfig = DEFAULT_COMMENTATOR_CONFIG
+) => {
+  const cache = createCache<string>(config.cacheSize);
+  const lastCallAt = new Map<string, number>();
+
+  const comment = async (summary: RunSummary): Promise<string> => {
+    const key = JSON.stringify(summary);
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    for (const provider of providers) {
+      if (!provider.isAvailable()) continue;
+      const now = Date.now();
+      if (now - (lastCallAt.get(provider.name) ?? -Infinity) < config.minIntervalMs) continue;
+      lastCallAt.set(provider.name, now);
+
+      try {
+        const text = (await withTimeout((signal) => provider.generate(summary, signal), config.timeoutMs)).trim();
+        if (text) {
+          cache.set(key, text);
+          return text;
+        }
+      } catch (error) {
+        console.error(`Commentary provider "${provider.name}" failed:`, error);
+      }
+    }
+
+    return fallback.generate(summary);
+  };
+
+  return { comment };
+};
+
+export type Commentator = ReturnType<typeof createCommentator>;
+
+// A local HTTP commentator (COMMENTARY_URL) takes precedence over Gemini when set.
+// Created on first use: the providers import this module back for the prompt.
+let defaultCommentator: Commentator | null = null;
+
+export const generateGameOverMessage = (summary: RunSummary): Promise<string> => {
+  defaultCommentator ??= createCommentator([
+    createHttpProvider(process.env.COMMENTARY_URL || ''),
+    createGeminiProvider(process.env.API_KEY || ''),
+  ]);
+  return defaultCommentator.comment(summary);
+};
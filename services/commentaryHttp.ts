@@ -0,0 +1,21 @@
+import { buildCommentaryPrompt, CommentaryProvider } from './commentary';
+
+// Commentary from any HTTP endpoint: POSTs `{ prompt, summary }` and expects
+// `{ text }` back. Handy for a local LLM server, or for scripts/mock-commentary-server.mjs
+// when testing without network access.
+export const createHttpProvider = (url: string): CommentaryProvider => ({
+  name: 'http',
+  isAvailable: () => url !== '',
+  generate: async (summary, signal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: buildCommentaryPrompt(summary), summary }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const body = await response.json();
+    if (typeof body?.text !== 'string') throw new Error('Response has no "text" field');
+    return body.text;
+  },
+});
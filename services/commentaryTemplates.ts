@@ -0,0 +1,70 @@
+import { RunSummary } from '../types';
+import { CommentaryProvider } from './commentary';
+
+// Offline commentary built from canned lines. Always available, never fails,
+// and picks deterministically so the same run gets the same line.
+
+type Template = (s: RunSummary) => string;
+
+const NEW_BEST: Template[] = [
+  (s) => `New personal best: ${s.score}! The old ${s.personalBest} never stood a chance.`,
+  (s) => `${s.score} points and a new record. Your hands deserve their own highlight reel.`,
+];
+
+const DEATH_LINES: Record<NonNullable<RunSummary['causeOfDeath']>, Template[]> = {
+  CACTUS: [
+    (s) => `${s.jumps} jumps and the cactus still got you. It didn't even move.`,
+    (s) => `Score ${s.score}. The cactus would like to thank you for the hug.`,
+  ],
+  TALL_CACTUS: [
+    (s) => `Score ${s.score}. That cactus was tall; your jump was not.`,
+    (s) => `${s.jumps} jumps, and the one that mattered needed more palm.`,
+  ],
+  BIRD: [
+    (s) => `Ducked ${s.ducks} times, just not that time. The bird says hi.`,
+    (s) => `Score ${s.score}. Birds fly, runners duck; you mixed those up.`,
+  ],
+  LOW_BIRD: [
+    (s) => `Ducked ${s.ducks} times, just not that time. The bird says hi.`,
+    (s) => `Score ${s.score}. That bird was flying at head height, and so were you.`,
+  ],
+  SINE_BIRD: [
+    (s) => `Score ${s.score}. The swooping bird read your moves better than the camera did.`,
+    (s) => `${s.ducks} ducks, and the swooper still found you.`,
+  ],
+  GAP: [
+    (s) => `Score ${s.score}. Mind the gap. You didn't.`,
+    (s) => `${s.jumps} jumps and none of them over the hole. Gravity wins.`,
+  ],
+};
+
+const LOW_SCORE: Template[] = [
+  (s) => `${s.score} points in ${s.duration.toFixed(0)} seconds. Warm-up run, surely.`,
+  (s) => `Score ${s.score}. Your webcam has seen better.`,
+];
+
+const HIGH_SCORE: Template[] = [
+  (s) => `${s.score} points! Mortals bow before your gestures.`,
+  (s) => `Score ${s.score}, with ${s.turboTime.toFixed(0)}s of turbo. Godlike.`,
+];
+
+const TURBO_HEAVY: Template[] = [
+  (s) => `${s.turboTime.toFixed(0)} seconds of turbo for ${s.score} points. Speed is a choice; so is crashing.`,
+];
+
+const pick = (templates: Template[], s: RunSummary) => templates[(s.score + s.jumps + s.ducks) % templates.length](s);
+
+export const templateCommentary = (s: RunSummary): string => {
+  if (s.score > s.personalBest && s.personalBest > 0) return pick(NEW_BEST, s);
+  if (s.score > 1000) return pick(HIGH_SCORE, s);
+  if (s.duration > 0 && s.turboTime / s.duration > 0.5) return pick(TURBO_HEAVY, s);
+  if (s.score < 500 && s.causeOfDeath) return pick([...DEATH_LINES[s.causeOfDeath], ...LOW_SCORE], s);
+  if (s.causeOfDeath) return pick(DEATH_LINES[s.causeOfDeath], s);
+  return pick(LOW_SCORE, s);
+};
+
+export const createTemplateProvider = (): CommentaryProvider => ({
+  name: 'template',
+  isAvailable: () => true,
+  generate: async (summary) => templateCommentary(summary),
+});
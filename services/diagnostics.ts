@@ -0,0 +1,137 @@
+import { GestureType, VisionState } from '../types';
+import { FINGERS, INDEX, MIDDLE, PINKY, RING, WRIST } from './gestureClassifier';
+
+// Live gesture diagnostics: the hand skeleton to draw over the camera, how
+// fast detection is running, how the vision service started up, and labelled
+// test sessions where the tester holds a known gesture and every camera frame
+// is tallied against it.
+
+// Landmark index pairs: each finger from the wrist out, plus the knuckle line
+export const HAND_CONNECTIONS: [number, number][] = [
+  ...FINGERS.flatMap((finger) => [WRIST, ...finger].slice(0, -1).map((from, i): [number, number] => [from, finger[i]])),
+  [INDEX[0], MIDDLE[0]],
+  [MIDDLE[0], RING[0]],
+  [RING[0], PINKY[0]],
+];
+
+const FPS_WINDOW_MS = 1000;
+
+// Detection results per second, counted once per camera frame
+export const createFpsMeter = () => {
+  const stamps: number[] = [];
+  let lastCapturedAt: number | undefined;
+
+  return {
+    observe: (vision: VisionState, now: number) => {
+      if (vision.capturedAt !== undefined && vision.capturedAt !== lastCapturedAt) {
+        lastCapturedAt = vision.capturedAt;
+        stamps.push(now);
+      }
+      while (stamps.length && stamps[0] < now - FPS_WINDOW_MS) stamps.shift();
+    },
+    fps: () => stamps.length * (1000 / FPS_WINDOW_MS),
+  };
+};
+
+// Vision start-up notes (which assets and delegate loaded, what failed on the
+// way), kept for the panel rather than written to the console
+const VISION_LOG_SIZE = 20;
+const visionLog: string[] = [];
+
+export const logVision = (message: string, error?: unknown) => {
+  visionLog.push(error === undefined ? message : `${message}: ${error instanceof Error ? error.message : String(error)}`);
+  if (visionLog.length > VISION_LOG_SIZE) visionLog.shift();
+};
+
+export const getVisionLog = (): readonly string[] => visionLog;
+
+export type ConfusionMatrix = Partial<Record<GestureType, Partial<Record<GestureType, number>>>>; // intended -> detected -> frames
+
+export interface ConfusionReport {
+  version: 1;
+  startedAt: string;
+  durationMs: number;
+  calibrationProfile: string | null;
+  frames: number;
+  rawAccuracy: number; // Per-frame classifier label matched the intended gesture
+  filteredAccuracy: number; // Smoothed gesture the game acts on matched
+  perGesture: Partial<Record<GestureType, { frames: number; rawAccuracy: number; filteredAccuracy: number }>>;
+  raw: ConfusionMatrix;
+  filtered: ConfusionMatrix;
+  avgInferenceMs: number | null;
+}
+
+const tally = (matrix: ConfusionMatrix, intended: GestureType, detected: GestureType) => {
+  const row = (matrix[intended] ??= {});
+  row[detected] = (row[detected] ?? 0) + 1;
+};
+
+const hits = (matrix: ConfusionMatrix, intended: GestureType) => matrix[intended]?.[intended] ?? 0;
+
+// A labelled test session. While a gesture is set as intended, each new camera
+// frame is counted under it twice: by the raw classifier label and by the
+// smoothed gesture. Frames with no label set are ignored.
+export const createConfusionSession = (calibrationProfile: string | null = null) => {
+  const startedAt = Date.now();
+  const raw: ConfusionMatrix = {};
+  const filtered: ConfusionMatrix = {};
+  const frames: Partial<Record<GestureType, number>> = {};
+  let intended: GestureType | null = null;
+  let lastCapturedAt: number | undefined;
+  let inferenceTotal = 0;
+  let inferenceFrames = 0;
+
+  const observe = (vision: VisionState) => {
+    if (intended === null || vision.capturedAt === undefined || vision.capturedAt === lastCapturedAt) return;
+    lastCapturedAt = vision.capturedAt;
+    tally(raw, intended, vision.rawGesture ?? vision.gesture);
+    tally(filtered, intended, vision.gesture);
+    frames[intended] = (frames[intended] ?? 0) + 1;
+    if (vision.inferenceMs !== undefined) {
+      inferenceTotal += vision.inferenceMs;
+      inferenceFrames++;
+    }
+  };
+
+  const report = (): ConfusionReport => {
+    const perGesture: ConfusionReport['perGesture'] = {};
+    let total = 0;
+    let rawHits = 0;
+    let filteredHits = 0;
+    for (const [gesture, count = 0] of Object.entries(frames) as [GestureType, number][]) {
+      perGesture[gesture] = {
+        frames: count,
+        rawAccuracy: hits(raw, gesture) / count,
+        filteredAccuracy: hits(filtered, gesture) / count,
+      };
+      total += count;
+      rawHits += hits(raw, gesture);
+      filteredHits += hits(filtered, gesture);
+    }
+    return {
+      version: 1,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      calibrationProfile,
+      frames: total,
+      rawAccuracy: total ? rawHits / total : 0,
+      filteredAccuracy: total ? filteredHits / total : 0,
+      perGesture,
+      raw,
+      filtered,
+      avgInferenceMs: inferenceFrames ? inferenceTotal / inferenceFrames : null,
+    };
+  };
+
+  return {
+    setIntended: (gesture: GestureType | null) => {
+      intended = gesture;
+    },
+    observe,
+    report,
+  };
+};
+
+export type ConfusionSession = ReturnType<typeof createConfusionSession>;
+
+export const serializeConfusionReport = (report: ConfusionReport): string => JSON.stringify(report, null, 2);
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { adaptAfterRun, AdaptiveState, DEFAULT_ADAPTIVE } from './difficulty';
+
+const SHORT = 1000; // px, an early death
+const MEDIUM = 5000;
+const LONG = 15000;
+
+// The adaptive state after each run in turn, from the default
+const afterRuns = (...distances: number[]): AdaptiveState => distances.reduce(adaptAfterRun, DEFAULT_ADAPTIVE);
+
+describe('adaptAfterRun', () => {
+  it('eases off after two early deaths in a row', () => {
+    expect(afterRuns(SHORT)).toEqual({ intensity: 1, earlyDeaths: 1 });
+    expect(afterRuns(SHORT, SHORT)).toEqual({ intensity: 0.9, earlyDeaths: 0 });
+    expect(afterRuns(SHORT, SHORT, SHORT, SHORT)).toEqual({ intensity: 0.8, earlyDeaths: 0 });
+  });
+
+  it('only counts early deaths in a row', () => {
+    expect(afterRuns(SHORT, MEDIUM, SHORT)).toEqual({ intensity: 1, earlyDeaths: 1 });
+  });
+
+  it('creeps back up after long runs, and holds after ordinary ones', () => {
+    expect(afterRuns(LONG)).toEqual({ intensity: 1.05, earlyDeaths: 0 });
+    expect(afterRuns(SHORT, SHORT, LONG, LONG)).toEqual({ intensity: 1, earlyDeaths: 0 });
+    expect(afterRuns(LONG, MEDIUM, MEDIUM)).toEqual({ intensity: 1.05, earlyDeaths: 0 });
+  });
+
+  it('stays between 0.7 and 1.25', () => {
+    expect(afterRuns(...Array(20).fill(SHORT)).intensity).toBe(0.7);
+    expect(afterRuns(...Array(20).fill(LONG)).intensity).toBe(1.25);
+  });
+});
@@ -0,0 +1,68 @@
+import { Difficulty, DifficultyCurve } from '../types';
+import { DIFFICULTY_CURVES } from '../game/difficultyCurves';
+import { scaleCurve } from '../game/difficulty';
+import { loadJson, saveJson } from './storage';
+
+// The player's difficulty choice, and the state behind ADAPTIVE: it plays the
+// Normal curve scaled by an intensity that drops after repeated early deaths
+// and creeps back up after long runs.
+
+export interface AdaptiveState {
+  intensity: number;
+  earlyDeaths: number; // In a row
+}
+
+const DIFFICULTY_KEY = 'gesture-dash:difficulty';
+const ADAPTIVE_KEY = 'gesture-dash:adaptive-difficulty';
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  [Difficulty.EASY]: 'Easy',
+  [Difficulty.NORMAL]: 'Normal',
+  [Difficulty.HARD]: 'Hard',
+  [Difficulty.ADAPTIVE]: 'Adaptive',
+};
+
+const ADAPTIVE = {
+  min: 0.7,
+  max: 1.25,
+  easeOff: 0.1, // After `earlyDeaths` short runs in a row
+  rampUp: 0.05, // After a run past `strongRunDistance`
+  earlyDeaths: 2,
+  earlyDeathDistance: 2500, // px, about 7 seconds at the starting speed
+  strongRunDistance: 12000,
+};
+
+export const DEFAULT_ADAPTIVE: AdaptiveState = { intensity: 1, earlyDeaths: 0 };
+
+export const getDifficulty = (): Difficulty => loadJson<Difficulty>(DIFFICULTY_KEY, Difficulty.NORMAL);
+export const setDifficulty = (difficulty: Difficulty) => saveJson(DIFFICULTY_KEY, difficulty);
+
+export const getAdaptiveIntensity = () => loadJson<AdaptiveState>(ADAPTIVE_KEY, DEFAULT_ADAPTIVE).intensity;
+
+// The curve the next run will use
+export const resolveDifficultyCurve = (difficulty: Difficulty): DifficultyCurve =>
+  difficulty === Difficulty.ADAPTIVE
+    ? scaleCurve(DIFFICULTY_CURVES[Difficulty.NORMAL], getAdaptiveIntensity())
+    : DIFFICULTY_CURVES[difficulty];
+
+// The adaptive state after a run of `distance` px
+export const adaptAfterRun = ({ intensity, earlyDeaths }: AdaptiveState, distance: number): AdaptiveState => {
+  if (distance < ADAPTIVE.earlyDeathDistance) {
+    earlyDeaths++;
+    if (earlyDeaths >= ADAPTIVE.earlyDeaths) {
+      intensity = Math.max(ADAPTIVE.min, intensity - ADAPTIVE.easeOff);
+      earlyDeaths = 0;
+    }
+  } else {
+    earlyDeaths = 0;
+    if (distance > ADAPTIVE.strongRunDistance) {
+      intensity = Math.min(ADAPTIVE.max, intensity + ADAPTIVE.rampUp);
+    }
+  }
+  return { intensity: Math.round(intensity * 100) / 100, earlyDeaths };
+};
+
+// Feeds a finished adaptive run back into the intensity
+export const recordAdaptiveRun = (distance: number) => {
+  saveJson(ADAPTIVE_KEY, adaptAfterRun(loadJson<AdaptiveState>(ADAPTIVE_KEY, DEFAULT_ADAPTIVE), distance));
+};
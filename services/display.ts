@@ -0,0 +1,35 @@
+import { loadJson, saveJson } from './storage';
+
+// Screen layout for home play and demo installations: where the camera
+// preview sits, and how long kiosk mode waits before going back to the start
+// screen. Kiosk mode itself is switched on from the start screen, or with
+// ?kiosk in the URL so an installation comes back up in it after a reload.
+
+export type PipPlacement = 'BOTTOM_RIGHT' | 'BOTTOM_LEFT' | 'TOP_RIGHT' | 'TOP_LEFT' | 'HIDDEN';
+
+export interface DisplaySettings {
+  pip: PipPlacement;
+  kioskIdleMs: number;
+}
+
+export const PIP_PLACEMENTS: Record<PipPlacement, string> = {
+  BOTTOM_RIGHT: 'Camera bottom right',
+  BOTTOM_LEFT: 'Camera bottom left',
+  TOP_RIGHT: 'Camera top right',
+  TOP_LEFT: 'Camera top left',
+  HIDDEN: 'Camera hidden',
+};
+
+export const KIOSK_IDLE_TIMEOUTS = [30000, 60000, 120000, 300000]; // ms
+
+const DISPLAY_KEY = 'gesture-dash:display';
+const DEFAULT_DISPLAY: DisplaySettings = { pip: 'BOTTOM_RIGHT', kioskIdleMs: 60000 };
+
+export const loadDisplaySettings = (): DisplaySettings => {
+  const settings = { ...DEFAULT_DISPLAY, ...loadJson<Partial<DisplaySettings>>(DISPLAY_KEY, {}) };
+  return settings.pip in PIP_PLACEMENTS ? settings : { ...settings, pip: DEFAULT_DISPLAY.pip };
+};
+
+export const saveDisplaySettings = (settings: DisplaySettings) => saveJson(DISPLAY_KEY, settings);
+
+export const isKioskRequested = () => typeof location !== 'undefined' && new URLSearchParams(location.search).has('kiosk');
@@ -0,0 +1,9 @@
+// Small helper for getting JSON out of the browser as a download
+export const downloadTextFile = (filename: string, contents: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
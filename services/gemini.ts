@@ -1,26 +1,48 @@
 import { GoogleGenAI } from "@google/genai";
+import { buildCommentaryPrompt, CommentaryProvider } from './commentary';
+import { buildCoachPrompt, CoachProvider } from './coach';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
 
 // We strictly follow the "do not ask user for key" rule from the prompt persona instructions,
 // assuming process.env.API_KEY is available.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-
-export const generateGameOverMessage = async (score: number): Promise<string> => {
-  try {
-    if (!process.env.API_KEY) {
-      return `Game Over! You scored ${score}. (Add API Key for AI roasts)`;
-    }
+const createClient = (apiKey: string, model: string) => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
+  const generateText = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+    if (!ai) throw new Error('No Gemini API key');
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `The player just finished a game of "Gesture Dash" with a score of ${score}. 
-      Give a short, witty, 1-sentence commentary on their performance. 
-      If the score is low (<500), roast them gently. 
-      If high (>1000), praise them like a god.`,
+      model,
+      contents: prompt,
+      config: { abortSignal: signal },
     });
+    return response.text ?? '';
+  };
+
+  return { isAvailable: () => ai !== null, generateText };
+};
+
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_MODEL): CommentaryProvider => {
+  const client = createClient(apiKey, model);
+  return {
+    name: 'gemini',
+    isAvailable: client.isAvailable,
+    generate: (summary, signal) => client.generateText(buildCommentaryPrompt(summary), signal),
+  };
+};
 
-    return response.text || `Game Over! Score: ${score}`;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return `Game Over! Score: ${score}`;
-  }
+// One tip per line in the answer; list markers are stripped
+export const createGeminiCoachProvider = (apiKey: string, model = DEFAULT_MODEL): CoachProvider => {
+  const client = createClient(apiKey, model);
+  return {
+    name: 'gemini',
+    isAvailable: client.isAvailable,
+    generate: async (runs, insights, bindings, signal) => {
+      const text = await client.generateText(buildCoachPrompt(runs, insights, bindings), signal);
+      return text
+        .split('\n')
+        .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+        .filter(Boolean);
+    },
+  };
 };
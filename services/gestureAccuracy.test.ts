@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../types';
+import { evaluateClassifier, formatAccuracyReport } from './gestureAccuracy';
+import { generateGestureFixtures } from './gestureFixtures';
+
+// A regression guard, not an accuracy figure: the fixtures come from a hand
+// model built on the same idea of each gesture as the classifier, so this only
+// shows the geometry still reads those poses. Real hands are measured with a
+// diagnostics session.
+const MIN_AGREEMENT = 0.95;
+
+describe('gesture classifier on the synthetic hand model', () => {
+  const fixtures = generateGestureFixtures();
+  const report = evaluateClassifier(fixtures);
+
+  it('covers every gesture, for both hands', () => {
+    for (const gesture of Object.values(GestureType)) {
+      expect(fixtures.some((fixture) => fixture.gesture === gesture && fixture.handedness === 'Left')).toBe(true);
+      expect(fixtures.some((fixture) => fixture.gesture === gesture && fixture.handedness === 'Right')).toBe(true);
+    }
+  });
+
+  it.each(Object.values(GestureType))(`still reads at least ${MIN_AGREEMENT * 100}% of the %s poses`, (gesture) => {
+    const stats = report.perGesture[gesture];
+    expect(stats.accuracy, formatAccuracyReport(report)).toBeGreaterThanOrEqual(MIN_AGREEMENT);
+  });
+});
+
+describe('evaluateClassifier', () => {
+  it('tallies what a classifier got wrong', () => {
+    const fixtures = generateGestureFixtures(3, 2).filter((fixture) => fixture.gesture !== GestureType.NONE);
+    const report = evaluateClassifier(fixtures, () => GestureType.OPEN_PALM);
+    const palms = fixtures.filter((fixture) => fixture.gesture === GestureType.OPEN_PALM).length;
+    expect(report.correct).toBe(palms);
+    expect(report.failures).toHaveLength(fixtures.length - palms);
+    expect(report.confusion[GestureType.CLOSED_FIST]).toEqual({ [GestureType.OPEN_PALM]: 8 });
+    expect(formatAccuracyReport(report)).toContain('CLOSED_FIST  0/8 (0.0%)  misread as OPEN_PALM x8');
+  });
+});
@@ -0,0 +1,60 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GestureType, Handedness } from '../types';
+import { GestureFixture } from './gestureFixtures';
+import { classifyGesture } from './gestureClassifier';
+
+// Runs a classifier over labelled fixtures and tallies a confusion matrix
+
+export type GestureClassifierFn = (landmarks: NormalizedLandmark[], handedness?: Handedness) => GestureType;
+
+export interface AccuracyReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  perGesture: Record<string, { total: number; correct: number; accuracy: number }>;
+  confusion: Record<string, Record<string, number>>; // expected -> detected -> count
+  failures: { description: string; expected: GestureType; detected: GestureType }[];
+}
+
+export const evaluateClassifier = (
+  fixtures: GestureFixture[],
+  classify: GestureClassifierFn = classifyGesture
+): AccuracyReport => {
+  const report: AccuracyReport = { total: 0, correct: 0, accuracy: 0, perGesture: {}, confusion: {}, failures: [] };
+
+  for (const fixture of fixtures) {
+    const detected = classify(fixture.landmarks, fixture.handedness);
+    const expected = fixture.gesture;
+    const stats = (report.perGesture[expected] ??= { total: 0, correct: 0, accuracy: 0 });
+    const row = (report.confusion[expected] ??= {});
+
+    row[detected] = (row[detected] ?? 0) + 1;
+    stats.total++;
+    report.total++;
+    if (detected === expected) {
+      stats.correct++;
+      report.correct++;
+    } else {
+      report.failures.push({ description: fixture.description, expected, detected });
+    }
+  }
+
+  report.accuracy = report.total ? report.correct / report.total : 0;
+  Object.values(report.perGesture).forEach((stats) => {
+    stats.accuracy = stats.total ? stats.correct / stats.total : 0;
+  });
+  return report;
+};
+
+export const formatAccuracyReport = (report: AccuracyReport): string => {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const lines = [`Overall: ${report.correct}/${report.total} (${pct(report.accuracy)})`];
+  for (const [gesture, stats] of Object.entries(report.perGesture)) {
+    const confusions = Object.entries(report.confusion[gesture])
+      .filter(([detected]) => detected !== gesture)
+      .map(([detected, count]) => `${detected} x${count}`)
+      .join(', ');
+    lines.push(`  ${gesture.padEnd(12)} ${stats.correct}/${stats.total} (${pct(stats.accuracy)})${confusions ? `  misread as ${confusions}` : ''}`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,149 @@
+import { GestureType, HandFeatures, Handedness, Landmark } from '../types';
+
+// Geometry-based gesture classifier. Instead of comparing raw image y values
+// (which only works for upright hands) it measures how much each finger bends
+// at its joints and where the thumb sits relative to the palm. Angles and
+// palm-relative distances don't change when the hand rotates, tilts or moves
+// closer to the camera.
+
+// MediaPipe hand landmark indices
+export const WRIST = 0;
+export const THUMB = [1, 2, 3, 4]; // CMC, MCP, IP, TIP
+export const INDEX = [5, 6, 7, 8]; // MCP, PIP, DIP, TIP
+export const MIDDLE = [9, 10, 11, 12];
+export const RING = [13, 14, 15, 16];
+export const PINKY = [17, 18, 19, 20];
+export const FINGERS = [THUMB, INDEX, MIDDLE, RING, PINKY];
+
+type Vec3 = [number, number, number];
+
+const vec = (p: Landmark): Vec3 => [p.x, p.y, p.z];
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+const normalize = (a: Vec3): Vec3 => {
+  const len = length(a) || 1;
+  return [a[0] / len, a[1] / len, a[2] / len];
+};
+const angleBetween = (a: Vec3, b: Vec3) =>
+  Math.acos(Math.min(1, Math.max(-1, dot(a, b) / ((length(a) * length(b)) || 1))));
+
+// Total bend (radians) that counts as a fully curled finger
+const FULL_CURL = 4;
+
+// Sum of the bend angles along a chain of joints
+const chainBend = (points: Vec3[]) => {
+  let total = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    total += angleBetween(sub(points[i], points[i - 1]), sub(points[i + 1], points[i]));
+  }
+  return total;
+};
+
+// `handedness` is the player's actual hand. It decides which way the palm
+// normal points; without it the thumb's side of the palm is taken as unsigned.
+export const computeHandFeatures = (landmarks: Landmark[], handedness?: Handedness): HandFeatures => {
+  const p = landmarks.map(vec);
+  const wrist = p[WRIST];
+  const palmLength = length(sub(p[MIDDLE[0]], wrist)) || 1;
+
+  const curl = FINGERS.map((finger) => {
+    // Fingers bend at MCP/PIP/DIP (starting from the wrist); the thumb at MCP/IP
+    const chain = finger === THUMB ? finger.map((i) => p[i]) : [wrist, ...finger.map((i) => p[i])];
+    return Math.min(chainBend(chain) / FULL_CURL, 1);
+  });
+
+  // Palm normal, flipped for the left hand so it always points out of the palm
+  const rawNormal = normalize(cross(sub(p[INDEX[0]], wrist), sub(p[PINKY[0]], wrist)));
+  const sign = handedness === 'Left' ? -1 : 1;
+  const normal: Vec3 = [rawNormal[0] * sign, rawNormal[1] * sign, rawNormal[2] * sign];
+
+  const thumbTip = p[THUMB[3]];
+  const across = dot(sub(thumbTip, p[MIDDLE[0]]), normal) / palmLength;
+
+  return {
+    curl,
+    thumbSpread: length(sub(thumbTip, p[PINKY[0]])) / palmLength,
+    thumbAcross: handedness ? across : Math.abs(across),
+    pinchDistance: length(sub(thumbTip, p[INDEX[3]])) / palmLength,
+  };
+};
+
+// Thresholds on HandFeatures
+const EXTENDED_CURL = 0.3; // Below this a finger counts as straight
+const CURLED_CURL = 0.5; // Above this a finger counts as folded
+const THUMB_EXTENDED_CURL = 0.3;
+const THUMB_MIN_SPREAD = 1.2;
+const THUMB_MAX_ACROSS = 0.2; // Further in front of the palm = tucked over the fingers
+const PINCH_MAX_DISTANCE = 0.2;
+
+export const isThumbExtended = (features: HandFeatures) =>
+  features.curl[0] < THUMB_EXTENDED_CURL &&
+  features.thumbSpread > THUMB_MIN_SPREAD &&
+  features.thumbAcross < THUMB_MAX_ACROSS;
+
+// Per-finger reading for diagnostics, thumb first; in between the two
+// thresholds a finger is neither straight nor folded
+export type FingerState = 'EXTENDED' | 'HALF' | 'CURLED';
+
+export const fingerStates = (features: HandFeatures): FingerState[] =>
+  features.curl.map((c, i) => {
+    if (i === 0 ? isThumbExtended(features) : c < EXTENDED_CURL) return 'EXTENDED';
+    return c > CURLED_CURL ? 'CURLED' : 'HALF';
+  });
+
+export const classifyFeatures = (features: HandFeatures): GestureType => {
+  const [, index, middle, ring, pinky] = features.curl;
+  const fingersExtended = features.curl.slice(1).filter((c) => c < EXTENDED_CURL).length;
+  const thumbExtended = isThumbExtended(features);
+  const isCurled = (c: number) => c > CURLED_CURL;
+
+  // Pinch: thumb and index tips touching while the other fingers stay loose
+  // (a fist can bring the tips close too, but folds everything)
+  if (features.pinchDistance < PINCH_MAX_DISTANCE && [middle, ring, pinky].some((c) => !isCurled(c))) {
+    return GestureType.PINCH;
+  }
+
+  // Thumbs Up: only the thumb is out
+  if (thumbExtended && fingersExtended === 0) {
+    return GestureType.THUMBS_UP;
+  }
+
+  // Open Palm: all five out, allowing one finger to lag behind
+  if (fingersExtended + (thumbExtended ? 1 : 0) >= 4) {
+    return GestureType.OPEN_PALM;
+  }
+
+  // Peace: index and middle up, ring and pinky folded
+  if (index < EXTENDED_CURL && middle < EXTENDED_CURL && isCurled(ring) && isCurled(pinky)) {
+    return GestureType.PEACE;
+  }
+
+  // Point: only the index finger up
+  if (index < EXTENDED_CURL && isCurled(middle) && isCurled(ring) && isCurled(pinky) && !thumbExtended) {
+    return GestureType.POINT;
+  }
+
+  // Closed Fist: thumb in, at most one finger half-open (allow some noise)
+  if (!thumbExtended && fingersExtended <= 1) {
+    return GestureType.CLOSED_FIST;
+  }
+
+  return GestureType.NONE;
+};
+
+export const classifyGesture = (landmarks: Landmark[], handedness?: Handedness): GestureType =>
+  classifyFeatures(computeHandFeatures(landmarks, handedness));
+
+// MediaPipe labels handedness as if the image were mirrored (selfie view). Our
+// frames come straight from the camera, so its "Left" is the player's right hand.
+export const toHandedness = (label: string | undefined, inputMirrored = false): Handedness | undefined => {
+  if (label !== 'Left' && label !== 'Right') return undefined;
+  if (inputMirrored) return label;
+  return label === 'Left' ? 'Right' : 'Left';
+};
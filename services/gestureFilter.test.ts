@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { GestureEvent, GestureType } from '../types';
+import { createRng, nextFloat } from '../game/rng';
+import { classifyGesture } from './gestureClassifier';
+import { buildHand, GESTURE_POSES, toImageLandmarks } from './gestureFixtures';
+import { createGestureFilter, DEFAULT_GESTURE_FILTER_CONFIG } from './gestureFilter';
+
+const FRAME_MS = 1000 / 30;
+const { OPEN_PALM, CLOSED_FIST, NONE } = GestureType;
+
+// One synthetic camera frame per label: the pose for that gesture, slightly
+// jittered, run through the real classifier like the vision service does
+const rng = createRng(5);
+const jitter = () => (nextFloat(rng) - 0.5) * 0.004;
+const HAND = { roll: 0.2, pitch: 0, yaw: 0, size: 0.25, cx: 0.5, cy: 0.5 };
+const labelFrame = (gesture: GestureType): GestureType => {
+  const { pose } = GESTURE_POSES.find((entry) => entry.gesture === gesture)!;
+  return classifyGesture(toImageLandmarks(buildHand(pose), 'Right', HAND, jitter), 'Right');
+};
+
+// Feeds a sequence of intended gestures, one camera frame each; `null` is a
+// dropped frame. Returns the held gesture after each frame and every event in order.
+const play = (sequence: (GestureType | null)[], filter = createGestureFilter()) => {
+  const held: GestureType[] = [];
+  const events: GestureEvent[] = [];
+  sequence.forEach((gesture, i) => {
+    if (gesture === null) return;
+    const result = filter.update(labelFrame(gesture), i * FRAME_MS);
+    held.push(result.gesture);
+    events.push(...result.events);
+  });
+  return { held, events, filter };
+};
+
+const repeat = <T>(value: T, count: number): T[] => Array(count).fill(value);
+
+describe('synthetic landmark frames', () => {
+  it('classify as the gestures they were built for', () => {
+    for (const gesture of [OPEN_PALM, CLOSED_FIST, NONE]) expect(labelFrame(gesture)).toBe(gesture);
+  });
+});
+
+describe('createGestureFilter', () => {
+  it('starts a gesture once it has been held for minHoldMs, with a single onset', () => {
+    const { held, events } = play(repeat(OPEN_PALM, 10));
+    const firstHeld = held.indexOf(OPEN_PALM);
+    expect(firstHeld * FRAME_MS).toBeGreaterThanOrEqual(DEFAULT_GESTURE_FILTER_CONFIG.minHoldMs);
+    expect(held.slice(firstHeld).every((gesture) => gesture === OPEN_PALM)).toBe(true);
+    expect(events).toEqual([{ type: 'ONSET', gesture: OPEN_PALM, timestamp: firstHeld * FRAME_MS }]);
+  });
+
+  it('ignores a single noisy frame', () => {
+    const { held, events } = play([...repeat(OPEN_PALM, 8), CLOSED_FIST, ...repeat(OPEN_PALM, 8)]);
+    expect(held.slice(3)).toEqual(repeat(OPEN_PALM, held.length - 3));
+    expect(events.map((event) => event.type)).toEqual(['ONSET']);
+  });
+
+  it('never starts a gesture that flickers for less than minHoldMs', () => {
+    const { events } = play([...repeat(NONE, 8), CLOSED_FIST, CLOSED_FIST, ...repeat(NONE, 8)]);
+    expect(events).toEqual([]);
+  });
+
+  it('releases a gesture once its share drops below exitThreshold', () => {
+    const { held, events } = play([...repeat(CLOSED_FIST, 10), ...repeat(NONE, 10)]);
+    expect(held[held.length - 1]).toBe(NONE);
+    expect(events.map(({ type, gesture }) => [type, gesture])).toEqual([
+      ['ONSET', CLOSED_FIST],
+      ['RELEASE', CLOSED_FIST],
+    ]);
+  });
+
+  it('hands over from one gesture to the next with a release before the onset', () => {
+    const { events } = play([...repeat(OPEN_PALM, 10), ...repeat(CLOSED_FIST, 10)]);
+    expect(events.map(({ type, gesture }) => [type, gesture])).toEqual([
+      ['ONSET', OPEN_PALM],
+      ['RELEASE', OPEN_PALM],
+      ['ONSET', CLOSED_FIST],
+    ]);
+    const [, release, onset] = events;
+    expect(onset.timestamp).toBeGreaterThanOrEqual(release.timestamp);
+  });
+
+  it('keeps a held gesture between the two thresholds but does not start one there', () => {
+    // Every other frame: about half the window, above exit (0.35) and below enter (0.6)
+    const flicker = Array.from({ length: 20 }, (_, i) => (i % 2 ? NONE : OPEN_PALM));
+    const fromHeld = play([...repeat(OPEN_PALM, 10), ...flicker]);
+    expect(fromHeld.held[fromHeld.held.length - 1]).toBe(OPEN_PALM);
+    expect(fromHeld.events.map((event) => event.type)).toEqual(['ONSET']);
+
+    const fromNothing = play(flicker);
+    expect(fromNothing.events).toEqual([]);
+  });
+
+  it('times the hold by the clock, not the frame count, when frames are dropped', () => {
+    // Every other frame dropped: 15 fps still starts after minHoldMs
+    const sparse = Array.from({ length: 12 }, (_, i) => (i % 2 ? null : OPEN_PALM));
+    const { events } = play(sparse);
+    expect(events).toHaveLength(1);
+    expect(events[0].timestamp).toBeGreaterThanOrEqual(DEFAULT_GESTURE_FILTER_CONFIG.minHoldMs);
+    expect(events[0].timestamp).toBeLessThan(DEFAULT_GESTURE_FILTER_CONFIG.minHoldMs + 3 * FRAME_MS);
+  });
+
+  it('keeps holding through a stall in the camera feed if the gesture is unchanged', () => {
+    const { held, events } = play([...repeat(OPEN_PALM, 10), ...repeat(null, 30), ...repeat(OPEN_PALM, 5)]);
+    expect(held.every((gesture, i) => i < 2 || gesture === OPEN_PALM)).toBe(true);
+    expect(events.map((event) => event.type)).toEqual(['ONSET']);
+  });
+
+  it('weighs frames by their confidence', () => {
+    const filter = createGestureFilter();
+    for (let i = 0; i < 6; i++) filter.update(OPEN_PALM, i * FRAME_MS);
+    const result = filter.update(CLOSED_FIST, 6 * FRAME_MS, 0.1);
+    expect(result.gesture).toBe(OPEN_PALM);
+    expect(result.confidence).toBeGreaterThan(0.95);
+  });
+
+  it('forgets everything on reset', () => {
+    const { filter } = play(repeat(OPEN_PALM, 10));
+    filter.reset();
+    // Without the reset the palm would still be held here
+    expect(filter.update(CLOSED_FIST, 10 * FRAME_MS)).toEqual({ gesture: NONE, confidence: 0, events: [] });
+  });
+});
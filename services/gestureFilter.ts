@@ -0,0 +1,108 @@
+import { GestureEvent, GestureType } from '../types';
+
+// Temporal smoothing for per-frame gesture labels. Raw classifications are kept
+// in a sliding time window; a gesture only becomes "held" once it dominates the
+// window for a minimum duration, and is only released once its share drops
+// below a lower threshold (hysteresis). One noisy frame can't flip the output.
+
+export interface GestureFilterConfig {
+  windowMs: number; // Length of the sliding window
+  enterThreshold: number; // Share of the window a gesture needs to start (0-1)
+  exitThreshold: number; // Share below which a held gesture is released (0-1)
+  minHoldMs: number; // How long a gesture must stay above enterThreshold before it starts
+}
+
+export const DEFAULT_GESTURE_FILTER_CONFIG: GestureFilterConfig = {
+  windowMs: 200,
+  enterThreshold: 0.6,
+  exitThreshold: 0.35,
+  minHoldMs: 60,
+};
+
+export interface FilteredGesture {
+  gesture: GestureType; // The currently held gesture (NONE if nothing is held)
+  confidence: number; // Share of the window agreeing with `gesture` (0-1)
+  events: GestureEvent[]; // Onsets/releases that happened on this update
+}
+
+export interface GestureFilter {
+  update: (raw: GestureType, timestampMs: number, frameConfidence?: number) => FilteredGesture;
+  reset: () => void;
+}
+
+interface Sample {
+  gesture: GestureType;
+  timestamp: number;
+  weight: number;
+}
+
+export const createGestureFilter = (config: Partial<GestureFilterConfig> = {}): GestureFilter => {
+  const { windowMs, enterThreshold, exitThreshold, minHoldMs } = { ...DEFAULT_GESTURE_FILTER_CONFIG, ...config };
+
+  let samples: Sample[] = [];
+  let held = GestureType.NONE;
+  let candidate = GestureType.NONE;
+  let candidateSince = 0;
+
+  const shares = (): Map<GestureType, number> => {
+    const totals = new Map<GestureType, number>();
+    let sum = 0;
+    for (const sample of samples) {
+      totals.set(sample.gesture, (totals.get(sample.gesture) ?? 0) + sample.weight);
+      sum += sample.weight;
+    }
+    if (sum > 0) totals.forEach((value, gesture) => totals.set(gesture, value / sum));
+    return totals;
+  };
+
+  return {
+    update: (raw, timestampMs, frameConfidence = 1) => {
+      const events: GestureEvent[] = [];
+      samples.push({ gesture: raw, timestamp: timestampMs, weight: Math.max(frameConfidence, 0.01) });
+      samples = samples.filter((sample) => timestampMs - sample.timestamp <= windowMs);
+
+      const share = shares();
+      const shareOf = (gesture: GestureType) => share.get(gesture) ?? 0;
+
+      // Release the held gesture once it loses its majority
+      if (held !== GestureType.NONE && shareOf(held) < exitThreshold) {
+        events.push({ type: 'RELEASE', gesture: held, timestamp: timestampMs });
+        held = GestureType.NONE;
+      }
+
+      // Strongest challenger to the held gesture
+      let best = GestureType.NONE;
+      let bestShare = 0;
+      share.forEach((value, gesture) => {
+        if (gesture !== held && gesture !== GestureType.NONE && value > bestShare) {
+          best = gesture;
+          bestShare = value;
+        }
+      });
+
+      if (bestShare >= enterThreshold) {
+        if (candidate !== best) {
+          candidate = best;
+          candidateSince = timestampMs;
+        }
+        if (timestampMs - candidateSince >= minHoldMs) {
+          if (held !== GestureType.NONE) {
+            events.push({ type: 'RELEASE', gesture: held, timestamp: timestampMs });
+          }
+          held = best;
+          candidate = GestureType.NONE;
+          events.push({ type: 'ONSET', gesture: held, timestamp: timestampMs });
+        }
+      } else {
+        candidate = GestureType.NONE;
+      }
+
+      return { gesture: held, confidence: shareOf(held), events };
+    },
+    reset: () => {
+      samples = [];
+      held = GestureType.NONE;
+      candidate = GestureType.NONE;
+    },
+  };
+};
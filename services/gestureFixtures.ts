@@ -0,0 +1,199 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GestureType, Handedness } from '../types';
+import { createRng, nextFloat, Rng } from '../game/rng';
+
+// Landmark fixtures for classifier regression checks. These are SYNTHETIC, not
+// recorded from a camera: frames are produced from a simple articulated hand
+// model (per-joint flexion angles), then rolled, tilted, scaled, moved around
+// the frame and jittered, for both hands. The model shares the classifier's
+// idea of each gesture, so they catch regressions in the geometry and measure
+// nothing about real MediaPipe output; recorded frames can be added as
+// GestureFixtures in the same shape.
+
+export interface GestureFixture {
+  gesture: GestureType;
+  handedness: Handedness;
+  description: string;
+  landmarks: NormalizedLandmark[];
+}
+
+type Vec3 = [number, number, number];
+
+interface FingerPose {
+  base: Vec3; // Direction of the first bone in hand space (r, u, n)
+  bends: number[]; // Flexion per joint in radians, towards the palm normal
+}
+
+export interface HandPose {
+  thumb: FingerPose;
+  fingers: number[][]; // Index..pinky flexion per joint (MCP, PIP, DIP)
+}
+
+// Hand space: r = towards the thumb, u = wrist to fingers, n = out of the palm
+const MCP_POSITIONS: Vec3[] = [
+  [0.35, 0.95, 0],
+  [0.1, 1.0, 0],
+  [-0.12, 0.95, 0],
+  [-0.32, 0.85, 0],
+];
+const FINGER_BONES = [
+  [0.45, 0.28, 0.22],
+  [0.5, 0.32, 0.24],
+  [0.46, 0.3, 0.22],
+  [0.36, 0.22, 0.2],
+];
+const THUMB_CMC: Vec3 = [0.25, 0.25, 0];
+const THUMB_BONES = [0.45, 0.35, 0.28];
+
+const deg = (d: number) => (d * Math.PI) / 180;
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const norm = (a: Vec3): Vec3 => scale(a, 1 / Math.hypot(a[0], a[1], a[2]));
+
+// Rotates `dir` towards the palm normal by `angle` (flexion about the joint axis)
+const flex = (dir: Vec3, angle: number): Vec3 => {
+  const n: Vec3 = [0, 0, 1];
+  const ortho = norm(add(n, scale(dir, -dir[2])));
+  return add(scale(dir, Math.cos(angle)), scale(ortho, Math.sin(angle)));
+};
+
+const chain = (start: Vec3, base: Vec3, bones: number[], bends: number[]): Vec3[] => {
+  const points: Vec3[] = [];
+  let point = start;
+  let dir = norm(base);
+  bones.forEach((bone, i) => {
+    if (i > 0) dir = flex(dir, bends[i - 1] ?? 0);
+    point = add(point, scale(dir, bone));
+    points.push(point);
+  });
+  return points;
+};
+
+// Builds the 21 landmarks of a hand in hand space
+export const buildHand = (pose: HandPose): Vec3[] => {
+  const wrist: Vec3 = [0, 0, 0];
+  const thumb = [THUMB_CMC, ...chain(THUMB_CMC, pose.thumb.base, THUMB_BONES, pose.thumb.bends)];
+  const fingers = MCP_POSITIONS.flatMap((mcp, i) => {
+    const bends = pose.fingers[i];
+    const firstBone = flex([0, 1, 0], bends[0]);
+    return [mcp, ...chain(mcp, firstBone, FINGER_BONES[i], bends.slice(1))];
+  });
+  return [wrist, ...thumb, ...fingers];
+};
+
+const STRAIGHT = [deg(5), deg(5), deg(5)];
+const CURLED = [deg(80), deg(100), deg(60)];
+const HALF = [deg(40), deg(50), deg(30)];
+const PINCHED = [deg(60), deg(70), deg(40)];
+
+export const GESTURE_POSES: { gesture: GestureType; description: string; pose: HandPose }[] = [
+  {
+    gesture: GestureType.OPEN_PALM,
+    description: 'open palm, fingers spread',
+    pose: { thumb: { base: [0.8, 0.6, 0], bends: [deg(5), deg(5)] }, fingers: [STRAIGHT, STRAIGHT, STRAIGHT, STRAIGHT] },
+  },
+  {
+    gesture: GestureType.OPEN_PALM,
+    description: 'open palm, pinky lagging',
+    pose: { thumb: { base: [0.8, 0.6, 0], bends: [deg(10), deg(10)] }, fingers: [STRAIGHT, STRAIGHT, STRAIGHT, HALF] },
+  },
+  {
+    gesture: GestureType.CLOSED_FIST,
+    description: 'fist, thumb over fingers',
+    pose: { thumb: { base: [-0.3, 0.6, 0.6], bends: [deg(30), deg(30)] }, fingers: [CURLED, CURLED, CURLED, CURLED] },
+  },
+  {
+    gesture: GestureType.CLOSED_FIST,
+    description: 'fist, thumb alongside index',
+    pose: { thumb: { base: [0.2, 0.9, 0.35], bends: [deg(25), deg(35)] }, fingers: [CURLED, CURLED, CURLED, CURLED] },
+  },
+  {
+    gesture: GestureType.THUMBS_UP,
+    description: 'thumbs up',
+    pose: { thumb: { base: [0.9, 0.4, 0], bends: [deg(5), deg(5)] }, fingers: [CURLED, CURLED, CURLED, CURLED] },
+  },
+  {
+    gesture: GestureType.PEACE,
+    description: 'peace sign',
+    pose: { thumb: { base: [-0.3, 0.6, 0.6], bends: [deg(30), deg(30)] }, fingers: [STRAIGHT, STRAIGHT, CURLED, CURLED] },
+  },
+  {
+    gesture: GestureType.POINT,
+    description: 'index pointing',
+    pose: { thumb: { base: [-0.3, 0.6, 0.6], bends: [deg(30), deg(30)] }, fingers: [STRAIGHT, CURLED, CURLED, CURLED] },
+  },
+  {
+    gesture: GestureType.PINCH,
+    description: 'pinch, other fingers relaxed',
+    pose: { thumb: { base: [0.1, 1, 1], bends: [deg(5), deg(5)] }, fingers: [PINCHED, HALF, HALF, HALF] },
+  },
+  {
+    gesture: GestureType.NONE,
+    description: 'three fingers out',
+    pose: { thumb: { base: [-0.3, 0.6, 0.6], bends: [deg(30), deg(30)] }, fingers: [STRAIGHT, STRAIGHT, STRAIGHT, CURLED] },
+  },
+];
+
+const rotate = (p: Vec3, roll: number, pitch: number, yaw: number): Vec3 => {
+  // Yaw (about y), pitch (about x), then roll (about the camera axis)
+  let [x, y, z] = p;
+  [x, z] = [x * Math.cos(yaw) + z * Math.sin(yaw), -x * Math.sin(yaw) + z * Math.cos(yaw)];
+  [y, z] = [y * Math.cos(pitch) - z * Math.sin(pitch), y * Math.sin(pitch) + z * Math.cos(pitch)];
+  [x, y] = [x * Math.cos(roll) - y * Math.sin(roll), x * Math.sin(roll) + y * Math.cos(roll)];
+  return [x, y, z];
+};
+
+const range = (rng: Rng, min: number, max: number) => min + nextFloat(rng) * (max - min);
+
+// Places a hand-space pose in normalized image coordinates (x right, y down,
+// z towards the camera negative), as the right or left hand of a player facing
+// the camera with the palm towards it.
+export const toImageLandmarks = (
+  points: Vec3[],
+  handedness: Handedness,
+  transform: { roll: number; pitch: number; yaw: number; size: number; cx: number; cy: number },
+  jitter: () => number = () => 0
+): NormalizedLandmark[] =>
+  points.map(([r, u, n]) => {
+    // Right hand, palm to camera: thumb side on image right, fingers up, palm normal towards the camera
+    const local: Vec3 = [handedness === 'Right' ? r : -r, -u, -n];
+    const [x, y, z] = rotate(local, transform.roll, transform.pitch, transform.yaw);
+    return {
+      x: transform.cx + x * transform.size + jitter(),
+      y: transform.cy + y * transform.size + jitter(),
+      z: z * transform.size + jitter(),
+      visibility: 1,
+    };
+  });
+
+// Deterministic fixture set: every pose for both hands at `variants` random
+// orientations, including sideways and upside-down rolls.
+export const generateGestureFixtures = (seed = 1, variants = 24): GestureFixture[] => {
+  const rng = createRng(seed);
+  const fixtures: GestureFixture[] = [];
+  const jitter = () => (nextFloat(rng) - 0.5) * 0.004;
+
+  for (const { gesture, description, pose } of GESTURE_POSES) {
+    const points = buildHand(pose);
+    for (const handedness of ['Right', 'Left'] as Handedness[]) {
+      for (let i = 0; i < variants; i++) {
+        const transform = {
+          roll: range(rng, -Math.PI, Math.PI),
+          pitch: deg(range(rng, -30, 30)),
+          yaw: deg(range(rng, -35, 35)),
+          size: range(rng, 0.12, 0.3),
+          cx: range(rng, 0.3, 0.7),
+          cy: range(rng, 0.3, 0.7),
+        };
+        fixtures.push({
+          gesture,
+          handedness,
+          description: `${description} (${handedness.toLowerCase()} hand)`,
+          landmarks: toImageLandmarks(points, handedness, transform, jitter),
+        });
+      }
+    }
+  }
+
+  return fixtures;
+};
@@ -0,0 +1,20 @@
+import { HitboxSettings } from '../types';
+import { DEFAULT_HITBOX_MARGIN } from '../game/hitboxes';
+import { loadJson, saveJson } from './storage';
+
+// How forgiving collisions are for new runs, and whether the collision shapes
+// are drawn over the scene
+
+const MARGIN_KEY = 'gesture-dash:hitbox-margin';
+const SHOW_KEY = 'gesture-dash:show-hitboxes';
+
+export const HITBOX_MARGINS = [0, 2, 3, 4, 6]; // px
+
+export const getHitboxMargin = () => loadJson<number>(MARGIN_KEY, DEFAULT_HITBOX_MARGIN);
+export const setHitboxMargin = (px: number) => saveJson(MARGIN_KEY, px);
+
+// Settings for a new run
+export const getHitboxSettings = (): HitboxSettings => ({ margin: getHitboxMargin() });
+
+export const getShowHitboxes = () => loadJson<boolean>(SHOW_KEY, false);
+export const setShowHitboxes = (show: boolean) => saveJson(SHOW_KEY, show);
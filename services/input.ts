@@ -0,0 +1,208 @@
+import { GameAction, GestureType, InputSource, VisionState } from '../types';
+import { isVisionReady, processVideoFrame } from './vision';
+import { ActionState, encodeActions } from './bindings';
+import { quantize } from './analog';
+
+// Every input device speaks the same VisionState contract the webcam produces,
+// so the game loop doesn't care where a jump came from. Non-camera devices
+// press actions directly, whatever gestures those actions are bound to.
+
+export interface InputProvider {
+  source: InputSource;
+  label: string;
+  isAvailable: () => boolean;
+  poll: () => VisionState;
+  start?: () => void;
+  stop?: () => void;
+}
+
+export const IDLE_INPUT: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+
+const emptyButtons = (): ActionState => ({
+  [GameAction.JUMP]: false,
+  [GameAction.DUCK]: false,
+  [GameAction.TURBO]: false,
+  [GameAction.PAUSE]: false,
+  [GameAction.RESTART]: false,
+  [GameAction.POWER_UP]: false,
+});
+
+// A provider counts as "in use" once it reports something other than idle
+const isActive = (state: VisionState): boolean =>
+  state.gesture !== GestureType.NONE || state.isTurbo || !!state.pressed?.length || !!state.players?.some(isActive);
+
+// Typing in a form field or editable text (replay import, settings, names, ...)
+const isEditing = (target: EventTarget | null): boolean =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+export const createWebcamProvider = (getVideo: () => HTMLVideoElement | null | undefined): InputProvider => {
+  const readyVideo = () => {
+    const video = getVideo();
+    return video && video.readyState === 4 ? video : null;
+  };
+
+  return {
+    source: InputSource.WEBCAM,
+    label: 'Camera',
+    isAvailable: () => isVisionReady() && readyVideo() !== null,
+    poll: () => {
+      const video = readyVideo();
+      return video ? processVideoFrame(video) : IDLE_INPUT;
+    },
+  };
+};
+
+const KEY_BINDINGS: Record<string, GameAction> = {
+  Space: GameAction.JUMP,
+  ArrowUp: GameAction.JUMP,
+  ArrowDown: GameAction.DUCK,
+  ShiftLeft: GameAction.TURBO,
+  ShiftRight: GameAction.TURBO,
+  Escape: GameAction.PAUSE,
+  KeyP: GameAction.PAUSE,
+  Enter: GameAction.RESTART,
+  KeyR: GameAction.RESTART,
+  KeyE: GameAction.POWER_UP,
+};
+
+// Versus: player 1 on W/S, player 2 on the arrow keys
+const VERSUS_KEYS: Record<string, [number, GameAction]> = {
+  KeyW: [0, GameAction.JUMP],
+  KeyS: [0, GameAction.DUCK],
+  ArrowUp: [1, GameAction.JUMP],
+  ArrowDown: [1, GameAction.DUCK],
+};
+
+export const createKeyboardProvider = (): InputProvider => {
+  const buttons = emptyButtons();
+  const players = [emptyButtons(), emptyButtons()];
+
+  const onKey = (e: KeyboardEvent) => {
+    const button = KEY_BINDINGS[e.code];
+    const versus = VERSUS_KEYS[e.code];
+    if (!button && !versus) return;
+    // Leave keys to the focused field, including a select's own arrow-key navigation
+    if (isEditing(e.target)) return;
+    e.preventDefault(); // Keep Space/arrows from scrolling the page
+    if (button) buttons[button] = e.type === 'keydown';
+    if (versus) players[versus[0]][versus[1]] = e.type === 'keydown';
+  };
+  const onBlur = () => [buttons, ...players].forEach((state) => Object.assign(state, emptyButtons()));
+
+  return {
+    source: InputSource.KEYBOARD,
+    label: 'Keyboard',
+    isAvailable: () => typeof window !== 'undefined',
+    poll: () => ({ ...encodeActions(buttons), players: players.map(encodeActions) }),
+    start: () => {
+      window.addEventListener('keydown', onKey);
+      window.addEventListener('keyup', onKey);
+      window.addEventListener('blur', onBlur);
+    },
+    stop: () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+      window.removeEventListener('blur', onBlur);
+    },
+  };
+};
+
+// Standard gamepad mapping: A = jump, B / stick down = duck, RB / RT = turbo,
+// Back = pause, Start = restart, X / Y = power-up. In versus the first two
+// pads are player 1 and player 2.
+const AXIS_THRESHOLD = 0.5;
+const STICK_DEADZONE = 0.15;
+
+export const createGamepadProvider = (): InputProvider => {
+  const connectedPads = (): Gamepad[] => {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  };
+
+  const padState = (pad: Gamepad): VisionState => {
+    const pressed = (index: number) => pad.buttons[index]?.pressed ?? false;
+    const state = encodeActions({
+      [GameAction.JUMP]: pressed(0) || pressed(12),
+      [GameAction.DUCK]: pressed(1) || pressed(13) || (pad.axes[1] ?? 0) > AXIS_THRESHOLD,
+      [GameAction.TURBO]: pressed(5) || pressed(7),
+      [GameAction.PAUSE]: pressed(8),
+      [GameAction.RESTART]: pressed(9),
+      [GameAction.POWER_UP]: pressed(2) || pressed(3),
+    });
+
+    // Analog: left stick steers, the right trigger's travel sets turbo strength
+    const stickX = pad.axes[0] ?? 0;
+    if (Math.abs(stickX) > STICK_DEADZONE) state.laneX = quantize(stickX);
+    if (!pressed(5) && pressed(7)) state.turboIntensity = quantize(pad.buttons[7].value);
+    return state;
+  };
+
+  return {
+    source: InputSource.GAMEPAD,
+    label: 'Gamepad',
+    isAvailable: () => connectedPads().length > 0,
+    poll: () => {
+      const pads = connectedPads();
+      if (pads.length === 0) return IDLE_INPUT;
+      return { ...padState(pads[0]), players: pads.slice(0, 2).map(padState) };
+    },
+  };
+};
+
+export interface TouchInputProvider extends InputProvider {
+  press: (action: GameAction, isDown: boolean) => void;
+}
+
+// Fed by the on-screen buttons in TouchControls
+export const createTouchProvider = (): TouchInputProvider => {
+  const buttons = emptyButtons();
+
+  return {
+    source: InputSource.TOUCH,
+    label: 'Touch',
+    isAvailable: () => typeof navigator !== 'undefined' && navigator.maxTouchPoints > 0,
+    poll: () => encodeActions(buttons),
+    press: (action, isDown) => {
+      buttons[action] = isDown;
+    },
+  };
+};
+
+export interface InputManager {
+  poll: () => { state: VisionState; source: InputSource | null };
+  start: () => void;
+  stop: () => void;
+}
+
+// Polls all providers (in priority order) and picks the one to listen to:
+// whichever was used most recently, falling back to the highest-priority
+// provider that is still available when the active one disappears.
+export const createInputManager = (providers: InputProvider[]): InputManager => {
+  let active: InputProvider | null = null;
+
+  return {
+    poll: () => {
+      const available = providers.filter((provider) => provider.isAvailable());
+      const states = new Map(available.map((provider) => [provider, provider.poll()]));
+
+      // Stick with the current provider while it is in use, otherwise follow whoever is
+      const keepActive = active !== null && states.has(active) && isActive(states.get(active)!);
+      const used = keepActive ? active : available.find((provider) => isActive(states.get(provider)!));
+      if (used) {
+        active = used;
+      } else if (!active || !states.has(active)) {
+        active = available[0] ?? null;
+      }
+
+      return {
+        state: active ? states.get(active)! : IDLE_INPUT,
+        source: active ? active.source : null,
+      };
+    },
+    start: () => providers.forEach((provider) => provider.start?.()),
+    stop: () => providers.forEach((provider) => provider.stop?.()),
+  };
+};
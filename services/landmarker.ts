@@ -0,0 +1,39 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { VISION_DELEGATES, VisionAssetSource, VisionDelegate } from './visionConfig';
+
+// Shared HandLandmarker setup, used by the vision worker and by the
+// main-thread fallback in vision.ts
+
+export const createHandLandmarker = async (
+  source: VisionAssetSource,
+  delegate: VisionDelegate
+): Promise<HandLandmarker> => {
+  const vision = await FilesetResolver.forVisionTasks(source.wasmPath);
+
+  return HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: source.modelPath,
+      delegate,
+    },
+    runningMode: 'VIDEO',
+    numHands: 2,
+  });
+};
+
+// Walks every asset source with every delegate until one works. Throws with
+// all the individual failures if none does.
+export const createHandLandmarkerWithFallback = async (
+  sources: VisionAssetSource[]
+): Promise<{ landmarker: HandLandmarker; source: VisionAssetSource; delegate: VisionDelegate }> => {
+  const failures: string[] = [];
+  for (const source of sources) {
+    for (const delegate of VISION_DELEGATES) {
+      try {
+        return { landmarker: await createHandLandmarker(source, delegate), source, delegate };
+      } catch (e) {
+        failures.push(`${source.name}/${delegate}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+  throw new Error(`Could not load the hand tracking model (${failures.join('; ')})`);
+};
@@ -0,0 +1,111 @@
+// Adaptive background music: a 16-step loop scheduled slightly ahead of the
+// audio clock. The tempo follows the world speed, hi-hats come in once the run
+// picks up, and a lead arpeggio plays on top while turbo is engaged.
+
+export interface Music {
+  start: () => void;
+  stop: () => void;
+  setIntensity: (speedRatio: number, isTurbo: boolean) => void; // speedRatio = speed / BASE_SPEED
+}
+
+const STEPS = 16;
+const LOOKAHEAD_S = 0.12;
+const SCHEDULE_INTERVAL_MS = 25;
+const MIN_BPM = 96;
+const MAX_BPM = 168;
+const HATS_FROM = 1.15; // speedRatio where the hi-hats join
+const LAYER_FADE_S = 0.4;
+
+// MIDI notes, null = rest (A minor)
+const BASS = [45, null, 45, 57, 48, null, 48, 60, 43, null, 43, 55, 40, null, 43, 52];
+const LEAD = [69, 72, 76, 81, 72, 76, 79, 84, 67, 71, 74, 79, 64, 67, 71, 76];
+const KICKS = new Set([0, 4, 8, 12]);
+
+const frequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+export const createMusic = (ctx: AudioContext, out: AudioNode): Music => {
+  const master = ctx.createGain();
+  master.gain.value = 0;
+  master.connect(out);
+
+  // One bus per layer so layers can fade in and out independently
+  const layer = (level: number) => {
+    const gain = ctx.createGain();
+    gain.gain.value = level;
+    gain.connect(master);
+    return gain;
+  };
+  const bass = layer(1);
+  const drums = layer(1);
+  const hats = layer(0);
+  const lead = layer(0);
+
+  let bpm = MIN_BPM;
+  let step = 0;
+  let nextTime = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let layers = { hats: false, lead: false };
+
+  const note = (bus: AudioNode, type: OscillatorType, freq: number, time: number, duration: number, gain: number) => {
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(freq, time);
+    const amp = ctx.createGain();
+    amp.gain.setValueAtTime(gain, time);
+    amp.gain.exponentialRampToValueAtTime(0.001, time + duration);
+    osc.connect(amp).connect(bus);
+    osc.start(time);
+    osc.stop(time + duration + 0.02);
+  };
+
+  const playStep = (index: number, time: number) => {
+    const sixteenth = 60 / bpm / 4;
+    const bassNote = BASS[index];
+    if (bassNote !== null) note(bass, 'triangle', frequency(bassNote), time, sixteenth * 1.8, 0.22);
+    if (KICKS.has(index)) {
+      const osc = ctx.createOscillator();
+      osc.frequency.setValueAtTime(140, time);
+      osc.frequency.exponentialRampToValueAtTime(45, time + 0.12);
+      const amp = ctx.createGain();
+      amp.gain.setValueAtTime(0.35, time);
+      amp.gain.exponentialRampToValueAtTime(0.001, time + 0.15);
+      osc.connect(amp).connect(drums);
+      osc.start(time);
+      osc.stop(time + 0.17);
+    }
+    if (index % 2 === 1) note(hats, 'square', 8000 + (index % 4) * 500, time, 0.03, 0.03);
+    note(lead, 'square', frequency(LEAD[index]), time, sixteenth * 0.9, 0.05);
+  };
+
+  const schedule = () => {
+    while (nextTime < ctx.currentTime + LOOKAHEAD_S) {
+      playStep(step, nextTime);
+      nextTime += 60 / bpm / 4;
+      step = (step + 1) % STEPS;
+    }
+  };
+
+  return {
+    start: () => {
+      if (timer !== null) return;
+      step = 0;
+      nextTime = ctx.currentTime + 0.05;
+      master.gain.setTargetAtTime(1, ctx.currentTime, 0.1);
+      timer = setInterval(schedule, SCHEDULE_INTERVAL_MS);
+    },
+    stop: () => {
+      if (timer === null) return;
+      clearInterval(timer);
+      timer = null;
+      master.gain.setTargetAtTime(0, ctx.currentTime, 0.1); // Lets already scheduled notes fade out
+    },
+    setIntensity: (speedRatio, isTurbo) => {
+      bpm = Math.min(MAX_BPM, Math.max(MIN_BPM, MIN_BPM * speedRatio));
+      const next = { hats: speedRatio >= HATS_FROM || isTurbo, lead: isTurbo };
+      // Only touch the automation when a layer actually switches
+      if (next.hats !== layers.hats) hats.gain.setTargetAtTime(next.hats ? 1 : 0, ctx.currentTime, LAYER_FADE_S);
+      if (next.lead !== layers.lead) lead.gain.setTargetAtTime(next.lead ? 1 : 0, ctx.currentTime, LAYER_FADE_S);
+      layers = next;
+    },
+  };
+};
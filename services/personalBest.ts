@@ -0,0 +1,17 @@
+import { loadJson, saveJson } from './storage';
+
+// Best score per player id. Kept in localStorage next to the run history so the
+// commentary can read it synchronously at game over.
+
+const PERSONAL_BESTS_KEY = 'gesture-dash:personal-bests';
+
+const loadBests = (): Record<string, number> => loadJson<Record<string, number>>(PERSONAL_BESTS_KEY, {});
+
+export const getPersonalBest = (playerId: string): number => loadBests()[playerId] ?? 0;
+
+// Stores `score` if it beats the player's best; returns whether it did
+export const recordScore = (playerId: string, score: number): boolean => {
+  if (score <= getPersonalBest(playerId)) return false;
+  saveJson(PERSONAL_BESTS_KEY, { ...loadBests(), [playerId]: score });
+  return true;
+};
@@ -0,0 +1,45 @@
+import { PlayerProfile } from '../types';
+import { loadJson, saveJson } from './storage';
+
+// Named players sharing this browser. There is always at least one, so runs
+// recorded before anyone picked a name still have an owner.
+
+const PLAYERS_KEY = 'gesture-dash:players';
+const ACTIVE_PLAYER_KEY = 'gesture-dash:active-player';
+
+export const DEFAULT_PLAYER: PlayerProfile = { id: 'default', name: 'Player 1', createdAt: new Date(0).toISOString() };
+
+export const loadPlayers = (): PlayerProfile[] => {
+  const players = loadJson<PlayerProfile[]>(PLAYERS_KEY, []);
+  return players.length > 0 ? players : [DEFAULT_PLAYER];
+};
+
+export const savePlayers = (players: PlayerProfile[]) => saveJson(PLAYERS_KEY, players);
+
+export const addPlayer = (name: string): PlayerProfile => {
+  const player: PlayerProfile = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    createdAt: new Date().toISOString(),
+  };
+  savePlayers([...loadPlayers(), player]);
+  return player;
+};
+
+export const renamePlayer = (id: string, name: string) =>
+  savePlayers(loadPlayers().map((p) => (p.id === id ? { ...p, name } : p)));
+
+// Players that arrive with an imported history; existing ids keep their local name
+export const mergePlayers = (incoming: PlayerProfile[]) => {
+  const players = loadPlayers();
+  const known = new Set(players.map((p) => p.id));
+  savePlayers([...players, ...incoming.filter((p) => !known.has(p.id))]);
+};
+
+export const getActivePlayerId = (): string => {
+  const id = loadJson<string | null>(ACTIVE_PLAYER_KEY, null);
+  const players = loadPlayers();
+  return players.some((p) => p.id === id) ? (id as string) : players[0].id;
+};
+
+export const setActivePlayerId = (id: string) => saveJson(ACTIVE_PLAYER_KEY, id);
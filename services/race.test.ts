@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { RunnerSnapshot } from '../types';
+import { predictDistance } from './race';
+
+const RUNNER: RunnerSnapshot = {
+  distance: 5000,
+  speed: 400,
+  y: 300,
+  height: 50,
+  isJumping: false,
+  isDucking: false,
+  score: 120,
+  crashed: false,
+};
+
+describe('predictDistance', () => {
+  it('carries a runner on at its last speed since the snapshot', () => {
+    expect(predictDistance(RUNNER, 0)).toBe(5000);
+    expect(predictDistance(RUNNER, 250)).toBe(5100);
+    expect(predictDistance(RUNNER, 1000)).toBe(5400);
+  });
+
+  it('leaves a crashed runner where it crashed', () => {
+    expect(predictDistance({ ...RUNNER, crashed: true }, 1000)).toBe(5000);
+  });
+
+  it('leaves a stopped runner where it stopped', () => {
+    expect(predictDistance({ ...RUNNER, speed: 0 }, 1000)).toBe(5000);
+  });
+});
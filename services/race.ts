@@ -0,0 +1,70 @@
+import { RunnerSnapshot } from '../types';
+import { withTimeout } from './async';
+import { RaceClientMessage, RaceDifficulty, RacePeer, RaceServerMessage } from './raceMessages';
+
+// Live races over WebSocket. The server hands out the seed and relays each
+// runner's snapshot to the rest of the room; every client runs its own
+// simulation, and the shared seed keeps the obstacles identical.
+
+export const RACE_SERVER_URL = process.env.RACE_SERVER_URL || 'ws://localhost:8788';
+export const RACE_SEND_INTERVAL = 6; // Simulation ticks between snapshots (10 per second)
+const CONNECT_TIMEOUT_MS = 5000;
+
+export interface RaceClient {
+  join: (room: string, name: string, difficulty: RaceDifficulty) => void;
+  ready: () => void;
+  sendState: (runner: RunnerSnapshot) => void;
+  close: () => void;
+}
+
+// The room this client is in, as the server last described it
+export interface RaceRoom {
+  id: string; // This client's id in the room
+  name: string;
+  difficulty: RaceDifficulty;
+  peers: RacePeer[]; // Everyone, this client included
+}
+
+// Resolves once the socket is open. `onClose` fires if the connection drops later,
+// not after close() or a failed connect.
+export const connectRace = (
+  url: string,
+  onMessage: (message: RaceServerMessage) => void,
+  onClose: () => void
+): Promise<RaceClient> =>
+  withTimeout(
+    (signal) =>
+      new Promise<RaceClient>((resolve, reject) => {
+        const socket = new WebSocket(url);
+        signal.addEventListener('abort', () => socket.close());
+        const send = (message: RaceClientMessage) => {
+          if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        };
+
+        socket.onerror = () => reject(new Error(`Could not connect to ${url}`));
+        socket.onmessage = (e) => {
+          try {
+            onMessage(JSON.parse(e.data));
+          } catch {
+            console.error('Ignoring malformed race message:', e.data);
+          }
+        };
+        socket.onopen = () => {
+          socket.onclose = onClose;
+          resolve({
+            join: (room, name, difficulty) => send({ type: 'join', room, name, difficulty }),
+            ready: () => send({ type: 'ready' }),
+            sendState: (runner) => send({ type: 'state', runner }),
+            close: () => {
+              socket.onclose = null;
+              socket.close();
+            },
+          });
+        };
+      }),
+    CONNECT_TIMEOUT_MS
+  );
+
+// Snapshots arrive a few times a second; carry the runner on at its last speed in between
+export const predictDistance = (runner: RunnerSnapshot, ageMs: number): number =>
+  runner.crashed ? runner.distance : runner.distance + (runner.speed * ageMs) / 1000;
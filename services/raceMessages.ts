@@ -0,0 +1,24 @@
+import { Difficulty, RunnerSnapshot } from '../types';
+
+// Messages between race.ts and the race server (scripts/race-server.mjs).
+// Everyone in a room races on the seed the server hands out with `start`.
+
+export type RaceDifficulty = Exclude<Difficulty, Difficulty.ADAPTIVE>;
+
+export interface RacePeer {
+  id: string;
+  name: string;
+  ready: boolean;
+}
+
+export type RaceClientMessage =
+  | { type: 'join'; room: string; name: string; difficulty: RaceDifficulty } // The room keeps its creator's difficulty
+  | { type: 'ready' } // Once everyone in the room is ready the server starts a round
+  | { type: 'state'; runner: RunnerSnapshot };
+
+export type RaceServerMessage =
+  | { type: 'joined'; id: string; room: string; difficulty: RaceDifficulty; peers: RacePeer[] }
+  | { type: 'peers'; peers: RacePeer[] } // Someone joined, left or got ready
+  | { type: 'start'; seed: number; difficulty: RaceDifficulty }
+  | { type: 'state'; id: string; runner: RunnerSnapshot }
+  | { type: 'error'; message: string };
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Difficulty, InputSource, RunRecord } from '../types';
+import { DEFAULT_PLAYER } from './players';
+import { dominantSource, HISTORY_VERSION, parseHistory, serializeHistory } from './runHistory';
+
+const RUN: RunRecord = {
+  id: 'run-1',
+  playerId: DEFAULT_PLAYER.id,
+  playedAt: '2026-01-02T03:04:05.000Z',
+  score: 420,
+  duration: 31.5,
+  causeOfDeath: 'LOW_BIRD',
+  inputSource: InputSource.WEBCAM,
+  difficulty: Difficulty.HARD,
+  jumps: 12,
+  ducks: 4,
+  turboTime: 2.5,
+  coins: 7,
+  powerUpsUsed: 1,
+  bestCombo: 9,
+};
+
+// The exported file with `patch` applied, as a hand edit would
+const edited = (patch: object) => JSON.stringify({ ...JSON.parse(serializeHistory([DEFAULT_PLAYER], [RUN])), ...patch });
+
+describe('run history files', () => {
+  it('read back exactly what was exported', () => {
+    const file = parseHistory(serializeHistory([DEFAULT_PLAYER], [RUN]));
+    expect(file.version).toBe(HISTORY_VERSION);
+    expect(file.players).toEqual([DEFAULT_PLAYER]);
+    expect(file.runs).toEqual([RUN]);
+  });
+
+  it('fill in stats a partial export lacks', () => {
+    const { id, playerId, playedAt, score, duration } = RUN;
+    const file = parseHistory(edited({ runs: [{ id, playerId, playedAt, score, duration, causeOfDeath: null }] }));
+    expect(file.runs[0]).toEqual({
+      id,
+      playerId,
+      playedAt,
+      score,
+      duration,
+      causeOfDeath: null,
+      inputSource: null,
+      difficulty: Difficulty.NORMAL,
+      jumps: 0,
+      ducks: 0,
+      turboTime: 0,
+      coins: 0,
+      powerUpsUsed: 0,
+      bestCombo: 0,
+    });
+  });
+
+  it.each([
+    ['invalid JSON', '{"version": 1,', 'not valid JSON'],
+    ['another version', edited({ version: HISTORY_VERSION + 1 }), 'Unsupported history version'],
+    ['no runs', edited({ runs: undefined }), 'missing players or runs'],
+    ['a player without a name', edited({ players: [{ id: 'p' }] }), 'malformed player'],
+    ['a run without a score', edited({ runs: [{ ...RUN, score: '420' }] }), 'malformed run'],
+    ['an unknown cause of death', edited({ runs: [{ ...RUN, causeOfDeath: 'METEOR' }] }), 'malformed run'],
+    ['a null run', edited({ runs: [null] }), 'malformed run'],
+  ])('reject %s', (_, json, message) => {
+    expect(() => parseHistory(json)).toThrow(message);
+  });
+});
+
+describe('dominantSource', () => {
+  it('picks the device that produced the most frames', () => {
+    expect(dominantSource({ [InputSource.WEBCAM]: 30, [InputSource.KEYBOARD]: 200 })).toBe(InputSource.KEYBOARD);
+    expect(dominantSource({})).toBeNull();
+  });
+});
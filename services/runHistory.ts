@@ -0,0 +1,169 @@
+import { Difficulty, InputSource, PlayerProfile, RunRecord, SimState } from '../types';
+import { OBSTACLE_CATALOG } from '../game/obstacles';
+import { loadPlayers, mergePlayers } from './players';
+import { recordScore } from './personalBest';
+
+// Every finished run, kept in IndexedDB so the history can grow past what
+// localStorage comfortably holds. Like storage.ts, a missing or blocked
+// database never breaks the game: reads come back empty and writes only log.
+
+const DB_NAME = 'gesture-dash';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+export const HISTORY_VERSION = 1;
+
+export interface HistoryFile {
+  version: number;
+  exportedAt: string;
+  players: PlayerProfile[];
+  runs: RunRecord[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+      store.createIndex('playerId', 'playerId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Run history database is blocked by another tab'));
+  }).catch((e) => {
+    dbPromise = null; // Let the next call try again
+    throw e;
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(RUNS_STORE, mode);
+    const request = run(tx.objectStore(RUNS_STORE)) as IDBRequest<T> | undefined;
+    tx.oncomplete = () => resolve(request?.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// The device that produced the most frames during the run
+export const dominantSource = (frames: Partial<Record<InputSource, number>>): InputSource | null => {
+  let best: InputSource | null = null;
+  for (const source of Object.values(InputSource)) {
+    if ((frames[source] ?? 0) > (best ? frames[best] ?? 0 : 0)) best = source;
+  }
+  return best;
+};
+
+export const createRunRecord = (
+  state: SimState,
+  playerId: string,
+  difficulty: Difficulty,
+  inputSource: InputSource | null
+): RunRecord => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  playerId,
+  playedAt: new Date().toISOString(),
+  score: state.score,
+  duration: state.elapsed,
+  causeOfDeath: state.crashedInto?.type ?? null,
+  inputSource,
+  difficulty,
+  ...state.stats,
+});
+
+export const addRun = async (record: RunRecord) => {
+  try {
+    await withStore('readwrite', (store) => store.put(record));
+  } catch (e) {
+    console.error('Could not save run:', e);
+  }
+};
+
+// Oldest first
+export const listRuns = async (): Promise<RunRecord[]> => {
+  try {
+    const runs = await withStore<RunRecord[]>('readonly', (store) => store.getAll());
+    return runs.sort((a, b) => a.playedAt.localeCompare(b.playedAt));
+  } catch (e) {
+    console.error('Could not read run history:', e);
+    return [];
+  }
+};
+
+export const clearRuns = async () => {
+  try {
+    await withStore('readwrite', (store) => store.clear());
+  } catch (e) {
+    console.error('Could not clear run history:', e);
+  }
+};
+
+export const serializeHistory = (players: PlayerProfile[], runs: RunRecord[]): string => {
+  const file: HistoryFile = { version: HISTORY_VERSION, exportedAt: new Date().toISOString(), players, runs };
+  return JSON.stringify(file, null, 2);
+};
+
+export const exportHistory = async (): Promise<string> => serializeHistory(loadPlayers(), await listRuns());
+
+const isRunRecord = (run: Partial<RunRecord>): run is RunRecord =>
+  typeof run.id === 'string' &&
+  typeof run.playerId === 'string' &&
+  typeof run.playedAt === 'string' &&
+  typeof run.score === 'number' &&
+  typeof run.duration === 'number' &&
+  (run.causeOfDeath === null || (typeof run.causeOfDeath === 'string' && run.causeOfDeath in OBSTACLE_CATALOG));
+
+// Fields a hand-edited or partial export may lack get neutral defaults
+const normalizeRun = (run: RunRecord): RunRecord => ({
+  ...run,
+  jumps: run.jumps ?? 0,
+  ducks: run.ducks ?? 0,
+  turboTime: run.turboTime ?? 0,
+  coins: run.coins ?? 0,
+  powerUpsUsed: run.powerUpsUsed ?? 0,
+  bestCombo: run.bestCombo ?? 0,
+  inputSource: run.inputSource ?? null,
+  difficulty: run.difficulty ?? Difficulty.NORMAL,
+});
+
+export const parseHistory = (json: string): HistoryFile => {
+  let data: Partial<HistoryFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('History file is not valid JSON');
+  }
+  if (data.version !== HISTORY_VERSION) {
+    throw new Error(`Unsupported history version: ${data.version}`);
+  }
+  if (!Array.isArray(data.players) || !Array.isArray(data.runs)) {
+    throw new Error('History file is missing players or runs');
+  }
+  for (const player of data.players) {
+    if (typeof player?.id !== 'string' || typeof player?.name !== 'string') {
+      throw new Error('History file contains a malformed player');
+    }
+  }
+  for (const run of data.runs) {
+    if (!isRunRecord(run ?? {})) throw new Error('History file contains a malformed run');
+  }
+  return { ...data, runs: data.runs.map(normalizeRun) } as HistoryFile;
+};
+
+// Merges into the local history. Runs are keyed by id, so importing the same
+// file twice doesn't duplicate anything. Returns how many runs were new.
+export const importHistory = async (file: HistoryFile): Promise<number> => {
+  const known = new Set((await listRuns()).map((run) => run.id));
+  const fresh = file.runs.filter((run) => !known.has(run.id));
+  await withStore('readwrite', (store) => {
+    for (const run of fresh) store.put(run);
+  });
+  mergePlayers(file.players);
+  for (const run of fresh) recordScore(run.playerId, run.score);
+  return fresh.length;
+};
@@ -0,0 +1,78 @@
+import { ObstacleType, PlayerProfile, RunRecord } from '../types';
+
+// Aggregates over the run history for the leaderboard and stats screen
+
+export interface LeaderboardEntry {
+  run: RunRecord;
+  playerName: string;
+}
+
+export interface PlayerTotals {
+  runs: number;
+  bestScore: number;
+  averageScore: number;
+  playTime: number; // Seconds
+  jumps: number;
+  ducks: number;
+  turboTime: number;
+  coins: number;
+}
+
+export interface ProgressPoint {
+  index: number; // Run number for the player, from 1
+  playedAt: string;
+  score: number;
+  best: number; // Best score up to and including this run
+}
+
+// Highest single runs, at most one entry per player when `perPlayer` is set
+export const buildLeaderboard = (
+  runs: RunRecord[],
+  players: PlayerProfile[],
+  limit = 10,
+  perPlayer = false
+): LeaderboardEntry[] => {
+  const names = new Map(players.map((p) => [p.id, p.name]));
+  const sorted = [...runs].sort((a, b) => b.score - a.score || a.playedAt.localeCompare(b.playedAt));
+  const seen = new Set<string>();
+  const entries: LeaderboardEntry[] = [];
+  for (const run of sorted) {
+    if (perPlayer && seen.has(run.playerId)) continue;
+    seen.add(run.playerId);
+    entries.push({ run, playerName: names.get(run.playerId) ?? 'Unknown player' });
+    if (entries.length === limit) break;
+  }
+  return entries;
+};
+
+export const playerTotals = (runs: RunRecord[]): PlayerTotals => {
+  const totals: PlayerTotals = { runs: runs.length, bestScore: 0, averageScore: 0, playTime: 0, jumps: 0, ducks: 0, turboTime: 0, coins: 0 };
+  for (const run of runs) {
+    totals.bestScore = Math.max(totals.bestScore, run.score);
+    totals.averageScore += run.score / runs.length;
+    totals.playTime += run.duration;
+    totals.jumps += run.jumps;
+    totals.ducks += run.ducks;
+    totals.turboTime += run.turboTime;
+    totals.coins += run.coins;
+  }
+  return totals;
+};
+
+// Expects runs oldest first, as listRuns returns them
+export const progressSeries = (runs: RunRecord[]): ProgressPoint[] => {
+  let best = 0;
+  return runs.map((run, i) => {
+    best = Math.max(best, run.score);
+    return { index: i + 1, playedAt: run.playedAt, score: run.score, best };
+  });
+};
+
+// How many runs ended on each obstacle type, most common first
+export const deathCauses = (runs: RunRecord[]): { cause: ObstacleType; count: number }[] => {
+  const counts = new Map<ObstacleType, number>();
+  for (const run of runs) {
+    if (run.causeOfDeath) counts.set(run.causeOfDeath, (counts.get(run.causeOfDeath) ?? 0) + 1);
+  }
+  return [...counts].map(([cause, count]) => ({ cause, count })).sort((a, b) => b.count - a.count);
+};
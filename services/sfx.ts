@@ -0,0 +1,115 @@
+// Synthesized sound effects. Every sound is built from oscillators and a
+// shared noise buffer at play time, so there are no files to fetch.
+
+export type SoundId =
+  | 'JUMP'
+  | 'DUCK'
+  | 'TURBO'
+  | 'MILESTONE'
+  | 'COLLISION'
+  | 'WARN_JUMP' // A jump-over hazard just appeared
+  | 'WARN_DUCK' // A duck-under hazard just appeared
+  | 'COIN'
+  | 'POWER_UP'
+  | 'SHIELD_BREAK'
+  | 'COMBO';
+
+interface Voice {
+  ctx: AudioContext;
+  out: AudioNode;
+}
+
+interface ToneSpec {
+  type: OscillatorType;
+  from: number; // Hz
+  to?: number; // Hz at the end, for sweeps
+  duration: number; // s
+  gain: number;
+  delay?: number; // s after now
+}
+
+const tone = ({ ctx, out }: Voice, { type, from, to, duration, gain, delay = 0 }: ToneSpec) => {
+  const start = ctx.currentTime + delay;
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.setValueAtTime(from, start);
+  if (to) osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+  const amp = ctx.createGain();
+  amp.gain.setValueAtTime(gain, start);
+  amp.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  osc.connect(amp).connect(out);
+  osc.start(start);
+  osc.stop(start + duration + 0.05);
+};
+
+const noiseBuffers = new WeakMap<AudioContext, AudioBuffer>();
+
+// One second of white noise per context, reused by every noisy sound
+const noiseBuffer = (ctx: AudioContext) => {
+  let buffer = noiseBuffers.get(ctx);
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(ctx, buffer);
+  }
+  return buffer;
+};
+
+const noise = ({ ctx, out }: Voice, { from, to, duration, gain }: Omit<ToneSpec, 'type'>) => {
+  const start = ctx.currentTime;
+  const source = ctx.createBufferSource();
+  source.buffer = noiseBuffer(ctx);
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.frequency.setValueAtTime(from, start);
+  if (to) filter.frequency.exponentialRampToValueAtTime(to, start + duration);
+  const amp = ctx.createGain();
+  amp.gain.setValueAtTime(gain, start);
+  amp.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  source.connect(filter).connect(amp).connect(out);
+  source.start(start);
+  source.stop(start + duration + 0.05);
+};
+
+// `cue` sounds carry gameplay information and stay on with reduced audio
+export const SOUNDS: Record<SoundId, { cue: boolean; play: (voice: Voice) => void }> = {
+  JUMP: { cue: true, play: (v) => tone(v, { type: 'square', from: 320, to: 760, duration: 0.12, gain: 0.12 }) },
+  DUCK: { cue: true, play: (v) => tone(v, { type: 'square', from: 420, to: 140, duration: 0.12, gain: 0.12 }) },
+  TURBO: {
+    cue: true,
+    play: (v) => {
+      noise(v, { from: 400, to: 3000, duration: 0.4, gain: 0.3 });
+      tone(v, { type: 'sawtooth', from: 110, to: 440, duration: 0.35, gain: 0.06 });
+    },
+  },
+  MILESTONE: {
+    cue: true,
+    play: (v) => [523, 659, 784, 1047].forEach((from, i) => tone(v, { type: 'triangle', from, duration: 0.18, gain: 0.14, delay: i * 0.07 })),
+  },
+  COLLISION: {
+    cue: true,
+    play: (v) => {
+      noise(v, { from: 800, to: 100, duration: 0.5, gain: 0.6 });
+      tone(v, { type: 'sine', from: 160, to: 40, duration: 0.45, gain: 0.5 });
+    },
+  },
+  // Low for something to jump over, high for something to duck under
+  WARN_JUMP: { cue: true, play: (v) => tone(v, { type: 'sine', from: 220, duration: 0.09, gain: 0.1 }) },
+  WARN_DUCK: { cue: true, play: (v) => tone(v, { type: 'sine', from: 880, duration: 0.09, gain: 0.08 }) },
+  COIN: {
+    cue: false,
+    play: (v) => {
+      tone(v, { type: 'square', from: 988, duration: 0.06, gain: 0.06 });
+      tone(v, { type: 'square', from: 1319, duration: 0.12, gain: 0.06, delay: 0.06 });
+    },
+  },
+  POWER_UP: { cue: false, play: (v) => tone(v, { type: 'triangle', from: 300, to: 1200, duration: 0.3, gain: 0.12 }) },
+  SHIELD_BREAK: { cue: false, play: (v) => noise(v, { from: 3000, to: 600, duration: 0.3, gain: 0.35 }) },
+  COMBO: {
+    cue: false,
+    play: (v) => [660, 880].forEach((from, i) => tone(v, { type: 'triangle', from, duration: 0.12, gain: 0.1, delay: i * 0.08 })),
+  },
+};
+
+export const playSound = (ctx: AudioContext, out: AudioNode, id: SoundId) => SOUNDS[id].play({ ctx, out });
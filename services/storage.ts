@@ -0,0 +1,27 @@
+// JSON-in-localStorage helpers. Storage can be unavailable (private mode,
+// quota, sandboxed iframes); reads fall back and writes only log.
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Could not save ${key}:`, e);
+  }
+};
+
+export const removeKey = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch (e) {
+    console.error(`Could not remove ${key}:`, e);
+  }
+};
@@ -0,0 +1,89 @@
+import { GestureType, Obstacle, ObstacleType, SimEvent, SimState, VisionState } from '../types';
+import { loadJson, saveJson } from './storage';
+
+// Per-run coaching telemetry: how quickly and how close the player reacted to
+// each obstacle, which camera labels the gesture filter had to overrule, and
+// what ended the run. The last few runs are kept for the coach.
+
+export interface ObstacleReaction {
+  obstacle: ObstacleType;
+  action: 'JUMP' | 'DUCK';
+  reactionMs: number; // From the obstacle appearing to the action
+  leadMs: number; // Time left before the obstacle reached the player, at current speed
+}
+
+export interface RunTelemetry {
+  recordedAt: number;
+  score: number;
+  duration: number;
+  reactions: ObstacleReaction[];
+  misreads: Partial<Record<GestureType, number>>; // Camera frames whose raw label the filter overruled
+  cameraFrames: number;
+  deathBy: ObstacleType | null;
+}
+
+const TELEMETRY_KEY = 'gesture-dash:coach-telemetry';
+export const TELEMETRY_HISTORY = 5;
+
+export const createTelemetryRecorder = () => {
+  const spawnedAt = new Map<Obstacle, number>();
+  const reacted = new Set<Obstacle>();
+  const reactions: ObstacleReaction[] = [];
+  const misreads: RunTelemetry['misreads'] = {};
+  let cameraFrames = 0;
+  let lastCapturedAt: number | undefined;
+
+  // The first obstacle still ahead of the player that hasn't been reacted to
+  const nextObstacle = (state: SimState) =>
+    state.obstacles.find((obs) => obs.x + obs.width > state.player.x && !reacted.has(obs));
+
+  const observe = (state: SimState, input: VisionState, events: SimEvent[]) => {
+    // Count each camera frame once, even though it drives several sim steps
+    if (input.rawGesture !== undefined && input.capturedAt !== lastCapturedAt) {
+      lastCapturedAt = input.capturedAt;
+      cameraFrames++;
+      if (input.rawGesture !== GestureType.NONE && input.rawGesture !== input.gesture) {
+        misreads[input.rawGesture] = (misreads[input.rawGesture] ?? 0) + 1;
+      }
+    }
+
+    for (const event of events) {
+      if (event.type === 'SPAWN') {
+        spawnedAt.set(event.obstacle, state.elapsed);
+      } else if (event.type === 'JUMP' || event.type === 'DUCK') {
+        const obs = nextObstacle(state);
+        if (!obs) continue;
+        reacted.add(obs);
+        reactions.push({
+          obstacle: obs.type,
+          action: event.type,
+          reactionMs: Math.round((state.elapsed - (spawnedAt.get(obs) ?? state.elapsed)) * 1000),
+          leadMs: Math.round(((obs.x - (state.player.x + state.player.width)) / state.currentSpeed) * 1000),
+        });
+      }
+    }
+  };
+
+  const finish = (state: SimState): RunTelemetry => ({
+    recordedAt: Date.now(),
+    score: state.score,
+    duration: state.elapsed,
+    reactions,
+    misreads,
+    cameraFrames,
+    deathBy: state.crashedInto?.type ?? null,
+  });
+
+  return { observe, finish, reactions: reactions as readonly ObstacleReaction[] };
+};
+
+export type TelemetryRecorder = ReturnType<typeof createTelemetryRecorder>;
+
+// Most recent run last
+export const loadTelemetry = (): RunTelemetry[] => loadJson<RunTelemetry[]>(TELEMETRY_KEY, []);
+
+export const saveTelemetry = (run: RunTelemetry): RunTelemetry[] => {
+  const runs = [...loadTelemetry(), run].slice(-TELEMETRY_HISTORY);
+  saveJson(TELEMETRY_KEY, runs);
+  return runs;
+};
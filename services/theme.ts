@@ -0,0 +1,14 @@
+import { ThemeId, THEMES } from '../renderer/themes';
+import { loadJson, saveJson } from './storage';
+
+// The player's choice of visual theme
+
+const THEME_KEY = 'gesture-dash:theme';
+const DEFAULT_THEME: ThemeId = 'NEON';
+
+export const getTheme = (): ThemeId => {
+  const id = loadJson<ThemeId>(THEME_KEY, DEFAULT_THEME);
+  return id in THEMES ? id : DEFAULT_THEME; // Ignore themes a newer or older build saved
+};
+
+export const setTheme = (id: ThemeId) => saveJson(THEME_KEY, id);
@@ -1,90 +1,156 @@
-import { FilesetResolver, HandLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
-import { GestureType, VisionState } from '../types';
-
-let handLandmarker: HandLandmarker | null = null;
-
-// Initialize MediaPipe HandLandmarker
-export const initializeVision = async (): Promise<void> => {
-  if (handLandmarker) return;
-
-  const vision = await FilesetResolver.forVisionTasks(
-    'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm'
-  );
-
-  handLandmarker = await HandLandmarker.createFromOptions(vision, {
-    baseOptions: {
-      modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-      delegate: 'GPU',
-    },
-    runningMode: 'VIDEO',
-    numHands: 2,
-  });
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { GestureType, HandReading, Landmark, VersusSplit, VisionState } from '../types';
+import { createGestureFilter, GestureFilter, GestureFilterConfig } from './gestureFilter';
+import { classifyFeatures, computeHandFeatures, toHandedness } from './gestureClassifier';
+import { CalibrationProfile, classifyWithProfile, loadActiveProfile } from './calibration';
+import { computeAnalogControls } from './analog';
+import { createHandLandmarkerWithFallback } from './landmarker';
+import { logVision } from './diagnostics';
+import { getVisionAssetSources, VISION_INIT_ATTEMPTS, VISION_RETRY_DELAY_MS, VisionAssetSource } from './visionConfig';
+import { VisionWorkerRequest, VisionWorkerResponse } from './visionMessages';
+
+const IDLE_STATE: VisionState = { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+
+let handLandmarker: HandLandmarker | null = null; // Main-thread fallback
+let worker: Worker | null = null;
+let frameInFlight = false;
+let latestState: VisionState = IDLE_STATE; // Last worker result, not yet read
+
+let gestureFilter = createGestureFilter();
+let calibrationProfile: CalibrationProfile | null = loadActiveProfile();
+
+// Versus mode: hands are split between two players, each with their own smoothing
+let versusSplit: VersusSplit | null = null;
+let playerFilters = [createGestureFilter(), createGestureFilter()];
+
+// Tune smoothing (window, hysteresis, hold time); resets the filters
+export const configureGestureFilter = (config: Partial<GestureFilterConfig>) => {
+  gestureFilter = createGestureFilter(config);
+  playerFilters = [createGestureFilter(config), createGestureFilter(config)];
 };
 
-const detectGesture = (landmarks: NormalizedLandmark[]): GestureType => {
-  // Simple heuristic based recognition
-  const thumbTip = landmarks[4];
-  const thumbIp = landmarks[3];
-  const indexTip = landmarks[8];
-  const indexPip = landmarks[6];
-  const middleTip = landmarks[12];
-  const middlePip = landmarks[10];
-  const ringTip = landmarks[16];
-  const ringPip = landmarks[14];
-  const pinkyTip = landmarks[20];
-  const pinkyPip = landmarks[18];
-
-  // Helper: Is finger extended? (Tip is higher than PIP - Y axis is inverted in vision)
-  const isExtended = (tip: NormalizedLandmark, pip: NormalizedLandmark) => tip.y < pip.y;
-  
-  // Note: For thumb, we check X distance for "openness" roughly, or just check if it's far from palm
-  // But a simple "is tip above IP" works for vertical hands.
-  
-  const indexOpen = isExtended(indexTip, indexPip);
-  const middleOpen = isExtended(middleTip, middlePip);
-  const ringOpen = isExtended(ringTip, ringPip);
-  const pinkyOpen = isExtended(pinkyTip, pinkyPip);
+// null = single player: every hand controls the one runner
+export const setVersusSplit = (split: VersusSplit | null) => {
+  versusSplit = split;
+  playerFilters.forEach((filter) => filter.reset());
+};
 
-  // Count extended non-thumb fingers
-  const extendedCount = [indexOpen, middleOpen, ringOpen, pinkyOpen].filter(Boolean).length;
+// Which player (0 = left) a hand belongs to
+export const versusPlayerOf = (reading: HandReading, split: VersusSplit): number => {
+  if (split === 'HAND') return reading.handedness === 'Right' ? 1 : 0;
+  // The camera image isn't mirrored: the left of the screen is the right of the frame
+  return reading.landmarks[0].x > 0.5 ? 0 : 1;
+};
 
-  // Thumbs Up: Thumb is up, others are closed
-  if (thumbTip.y < thumbIp.y && extendedCount === 0) {
-    return GestureType.THUMBS_UP;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Initialize MediaPipe HandLandmarker. Detection runs in a worker where the
+// browser supports it, so inference never blocks the render loop; otherwise
+// it runs synchronously on the main thread as before. Each attempt walks all
+// asset sources and GPU/CPU delegates; whole attempts are retried with backoff
+// before the last error is thrown to the caller.
+export const initializeVision = async (attempts = VISION_INIT_ATTEMPTS): Promise<void> => {
+  if (handLandmarker || worker) return;
+
+  let lastError: unknown;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) await sleep(VISION_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    try {
+      await loadVision();
+      return;
+    } catch (e) {
+      lastError = e;
+      logVision(`Init attempt ${attempt + 1}/${attempts} failed`, e);
+    }
   }
+  throw lastError;
+};
 
-  // Open Palm: At least 3 fingers extended
-  if (extendedCount >= 3) {
-    return GestureType.OPEN_PALM;
-  }
+const loadVision = async () => {
+  const sources = getVisionAssetSources();
 
-  // Closed Fist: 0 or 1 finger extended (allow some noise)
-  if (extendedCount <= 1) {
-    return GestureType.CLOSED_FIST;
+  if (typeof Worker !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+    try {
+      worker = await startWorker(sources);
+      return;
+    } catch (e) {
+      logVision('Worker unavailable, detecting on the main thread', e);
+    }
   }
 
-  return GestureType.NONE;
+  const { landmarker, source, delegate } = await createHandLandmarkerWithFallback(sources);
+  handLandmarker = landmarker;
+  logVision(`Main thread ready (${source.name} assets, ${delegate})`);
 };
 
-export const processVideoFrame = (video: HTMLVideoElement): VisionState => {
-  if (!handLandmarker || !video.videoWidth) {
-    return { handCount: 0, gesture: GestureType.NONE, isTurbo: false };
+const startWorker = (sources: VisionAssetSource[]) =>
+  new Promise<Worker>((resolve, reject) => {
+    const w = new Worker(new URL('./vision.worker.ts', import.meta.url), { type: 'module' });
+    const fail = (error: unknown) => {
+      w.terminate();
+      reject(error);
+    };
+    w.onerror = fail;
+    w.onmessage = (e: MessageEvent<VisionWorkerResponse>) => {
+      if (e.data.type === 'ready') {
+        logVision(`Worker ready (${e.data.source} assets, ${e.data.delegate})`);
+        w.onmessage = onWorkerMessage;
+        resolve(w);
+      } else if (e.data.type === 'error') {
+        fail(new Error(e.data.message));
+      }
+    };
+    w.postMessage({ type: 'init', sources } satisfies VisionWorkerRequest);
+  });
+
+const onWorkerMessage = (e: MessageEvent<VisionWorkerResponse>) => {
+  if (e.data.type === 'error') {
+    frameInFlight = false;
+    logVision(`Worker error: ${e.data.message}`);
   }
+  if (e.data.type !== 'result') return;
+  const { landmarks, handedness, scores, capturedAt, inferenceMs } = e.data;
+  frameInFlight = false;
+  latestState = buildVisionState(landmarks, handedness, scores, capturedAt, performance.now(), inferenceMs);
+};
 
-  const startTimeMs = performance.now();
-  const results = handLandmarker.detectForVideo(video, startTimeMs);
+// Hands the current video frame to the worker unless it is still busy with the last one
+const submitFrame = (video: HTMLVideoElement) => {
+  if (!worker || frameInFlight) return;
+  const target = worker;
+  const capturedAt = performance.now();
+  const send = (frame: ImageBitmap | VideoFrame) =>
+    target.postMessage({ type: 'frame', frame, capturedAt } satisfies VisionWorkerRequest, [frame]);
+
+  frameInFlight = true;
+  if (typeof VideoFrame !== 'undefined') {
+    send(new VideoFrame(video, { timestamp: Math.round(capturedAt * 1000) }));
+  } else {
+    createImageBitmap(video).then(send, () => {
+      frameInFlight = false;
+    });
+  }
+};
 
-  const hands = results.landmarks;
-  const handCount = hands.length;
-  
+// Classify against a player's calibration, or the generic classifier when null
+export const setCalibrationProfile = (profile: CalibrationProfile | null) => {
+  calibrationProfile = profile;
+  gestureFilter.reset();
+  playerFilters.forEach((filter) => filter.reset());
+};
+
+export const isVisionReady = (): boolean => handLandmarker !== null || worker !== null;
+
+// Gesture, smoothing and analog controls for one set of hands
+const buildPlayerState = (readings: HandReading[], filter: GestureFilter, capturedAt: number): VisionState => {
+  const handCount = readings.length;
   let primaryGesture = GestureType.NONE;
 
   // Prioritize gestures: If any hand shows a significant gesture, use it.
   // In a real app, might want to designate "Right Hand" vs "Left Hand", but for this game:
   // Any hand "Open" = Jump. Any hand "Fist" = Duck.
   
-  for (const landmarks of hands) {
-    const gesture = detectGesture(landmarks);
+  for (const { gesture } of readings) {
     if (gesture !== GestureType.NONE) {
       primaryGesture = gesture;
       // Restart (Thumbs Up) takes precedence in Game Over, but in play Jump/Duck matter most.
@@ -93,9 +159,80 @@ export const processVideoFrame = (video: HTMLVideoElement): VisionState => {
     }
   }
 
+  // Smooth over recent frames so a single misread doesn't trigger a jump or duck;
+  // a hand the landmarker is unsure of counts for less
+  const primaryHand = readings.find((reading) => reading.gesture === primaryGesture) ?? readings[0];
+  const filtered = filter.update(primaryGesture, capturedAt, primaryHand?.score);
+
   return {
     handCount,
-    gesture: primaryGesture,
+    gesture: filtered.gesture,
     isTurbo: handCount >= 2,
+    ...computeAnalogControls(readings, primaryHand),
+    rawGesture: primaryGesture,
+    confidence: filtered.confidence,
+    gestureEvents: filtered.events,
+    hands: readings,
+  };
+};
+
+// Turns raw landmarks into the game's VisionState: per-hand classification,
+// temporal smoothing and analog controls
+const buildVisionState = (
+  hands: Landmark[][],
+  handednessLabels: (string | undefined)[],
+  handScores: number[],
+  capturedAt: number,
+  completedAt: number,
+  inferenceMs: number
+): VisionState => {
+  const readings: HandReading[] = hands.map((landmarks, i) => {
+    const handedness = toHandedness(handednessLabels[i]);
+    const features = computeHandFeatures(landmarks, handedness);
+    const generic = classifyFeatures(features);
+    const gesture = calibrationProfile ? classifyWithProfile(features, calibrationProfile, generic) : generic;
+    return { landmarks, handedness, score: handScores[i] ?? 1, features, gesture };
+  });
+
+  const players = versusSplit
+    ? playerFilters.map((filter, i) =>
+        buildPlayerState(readings.filter((reading) => versusPlayerOf(reading, versusSplit!) === i), filter, capturedAt)
+      )
+    : undefined;
+
+  return {
+    ...buildPlayerState(readings, gestureFilter, capturedAt),
+    players,
+    capturedAt,
+    latencyMs: completedAt - capturedAt,
+    inferenceMs,
   };
 };
+
+// Returns the freshest VisionState for the game loop. With the worker this
+// never waits for inference: it queues the current frame and returns the most
+// recent finished result, stamped with how old it is.
+export const processVideoFrame = (video: HTMLVideoElement): VisionState => {
+  if (worker) {
+    if (video.videoWidth) submitFrame(video);
+    const state = latestState;
+    // Onset/release events are delivered once, not on every read of the same result
+    latestState = {
+      ...state,
+      gestureEvents: [],
+      players: state.players?.map((player) => ({ ...player, gestureEvents: [] })),
+    };
+    return state.capturedAt === undefined ? state : { ...state, ageMs: performance.now() - state.capturedAt };
+  }
+
+  if (!handLandmarker || !video.videoWidth) {
+    return IDLE_STATE;
+  }
+
+  const startTimeMs = performance.now();
+  const results = handLandmarker.detectForVideo(video, startTimeMs);
+  const labels = results.handedness.map((categories) => categories[0]?.categoryName);
+  const scores = results.handedness.map((categories) => categories[0]?.score ?? 1);
+  const completedAt = performance.now();
+  return { ...buildVisionState(results.landmarks, labels, scores, startTimeMs, completedAt, completedAt - startTimeMs), ageMs: 0 };
+};
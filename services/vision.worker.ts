@@ -0,0 +1,48 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { createHandLandmarkerWithFallback } from './landmarker';
+import { VisionWorkerRequest, VisionWorkerResponse } from './visionMessages';
+
+// Runs hand landmark detection off the main thread. Frames arrive as
+// transferred ImageBitmaps/VideoFrames; only the landmarks travel back.
+
+const ctx = self as unknown as Worker;
+let handLandmarker: HandLandmarker | null = null;
+let lastTimestamp = 0;
+
+const reply = (message: VisionWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (e: MessageEvent<VisionWorkerRequest>) => {
+  const message = e.data;
+
+  if (message.type === 'init') {
+    try {
+      const loaded = await createHandLandmarkerWithFallback(message.sources);
+      handLandmarker = loaded.landmarker;
+      reply({ type: 'ready', source: loaded.source.name, delegate: loaded.delegate });
+    } catch (error) {
+      reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  const { frame, capturedAt } = message;
+  try {
+    if (!handLandmarker) return;
+    // VIDEO mode requires strictly increasing timestamps
+    lastTimestamp = Math.max(capturedAt, lastTimestamp + 1);
+    const start = performance.now();
+    const results = handLandmarker.detectForVideo(frame, lastTimestamp);
+    reply({
+      type: 'result',
+      landmarks: results.landmarks.map((hand) => hand.map(({ x, y, z }) => ({ x, y, z }))),
+      handedness: results.handedness.map((categories) => categories[0]?.categoryName),
+      scores: results.handedness.map((categories) => categories[0]?.score ?? 1),
+      capturedAt,
+      inferenceMs: performance.now() - start,
+    });
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    frame.close();
+  }
+};
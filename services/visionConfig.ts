@@ -0,0 +1,39 @@
+// Where the MediaPipe runtime (WASM) and hand model are loaded from. Sources
+// are tried in order: the self-hosted copy first (`npm run vision:assets`
+// puts it in public/mediapipe), then the public CDNs. Set VISION_WASM_PATH /
+// VISION_MODEL_PATH in .env.local to point at your own server instead.
+
+export interface VisionAssetSource {
+  name: string;
+  wasmPath: string; // Directory holding the vision_wasm_internal.* files
+  modelPath: string; // hand_landmarker.task
+}
+
+export type VisionDelegate = 'GPU' | 'CPU';
+
+const SELF_HOSTED: VisionAssetSource = {
+  name: 'self-hosted',
+  wasmPath: process.env.VISION_WASM_PATH || '/mediapipe/wasm',
+  modelPath: process.env.VISION_MODEL_PATH || '/mediapipe/hand_landmarker.task',
+};
+
+const CDN: VisionAssetSource = {
+  name: 'cdn',
+  wasmPath: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${process.env.TASKS_VISION_VERSION}/wasm`, // The installed version
+  modelPath: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+
+// Try the GPU first and fall back to the CPU (no WebGL, blocklisted drivers, ...)
+export const VISION_DELEGATES: VisionDelegate[] = ['GPU', 'CPU'];
+
+// Relative paths are resolved against the page, so the worker (whose base URL
+// is its own script) gets absolute URLs
+export const getVisionAssetSources = (): VisionAssetSource[] =>
+  [SELF_HOSTED, CDN].map((source) => ({
+    ...source,
+    wasmPath: new URL(source.wasmPath, location.href).href,
+    modelPath: new URL(source.modelPath, location.href).href,
+  }));
+
+export const VISION_INIT_ATTEMPTS = 3;
+export const VISION_RETRY_DELAY_MS = 1000; // Doubles after every failed attempt
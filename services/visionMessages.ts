@@ -0,0 +1,20 @@
+import { Landmark } from '../types';
+import { VisionAssetSource, VisionDelegate } from './visionConfig';
+
+// Messages between vision.ts and vision.worker.ts
+
+export type VisionWorkerRequest =
+  | { type: 'init'; sources: VisionAssetSource[] }
+  | { type: 'frame'; frame: ImageBitmap | VideoFrame; capturedAt: number };
+
+export type VisionWorkerResponse =
+  | { type: 'ready'; source: string; delegate: VisionDelegate }
+  | { type: 'error'; message: string }
+  | {
+      type: 'result';
+      landmarks: Landmark[][];
+      handedness: (string | undefined)[]; // MediaPipe label per hand
+      scores: number[]; // And how sure it is of each (0-1)
+      capturedAt: number; // performance.now() on the main thread when the frame was grabbed
+      inferenceMs: number;
+    };
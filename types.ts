@@ -2,6 +2,10 @@ export enum GameState {
   START = 'START',
   PLAYING = 'PLAYING',
   GAME_OVER = 'GAME_OVER',
+  PAUSED = 'PAUSED',
+  COUNTDOWN = 'COUNTDOWN', // 3-2-1 before play resumes from a pause
+  REPLAY = 'REPLAY',
+  CALIBRATING = 'CALIBRATING',
 }
 
 export enum GestureType {
@@ -9,28 +13,258 @@ export enum GestureType {
   OPEN_PALM = 'OPEN_PALM', // Jump
   CLOSED_FIST = 'CLOSED_FIST', // Duck
   THUMBS_UP = 'THUMBS_UP', // Restart
+  PEACE = 'PEACE', // Pause
+  POINT = 'POINT',
+  PINCH = 'PINCH',
+}
+
+// What the player can do; gestures (and keys/buttons) are bound to these
+export enum GameAction {
+  JUMP = 'JUMP',
+  DUCK = 'DUCK',
+  TURBO = 'TURBO',
+  PAUSE = 'PAUSE',
+  RESTART = 'RESTART',
+  POWER_UP = 'POWER_UP', // Fire the held power-up
+}
+
+// Difficulty presets offered to the player; ADAPTIVE tunes itself between runs
+export enum Difficulty {
+  EASY = 'EASY',
+  NORMAL = 'NORMAL',
+  HARD = 'HARD',
+  ADAPTIVE = 'ADAPTIVE',
+}
+
+// A gesture, or both hands in view
+export type GestureTrigger = GestureType | 'TWO_HANDS';
+
+export type ActionBindings = Record<GameAction, GestureTrigger | null>;
+
+export interface GestureEvent {
+  type: 'ONSET' | 'RELEASE';
+  gesture: GestureType;
+  timestamp: number;
+}
+
+export enum InputSource {
+  WEBCAM = 'WEBCAM',
+  GAMEPAD = 'GAMEPAD',
+  TOUCH = 'TOUCH',
+  KEYBOARD = 'KEYBOARD',
+}
+
+export type Handedness = 'Left' | 'Right';
+
+// Pose measurements that don't depend on hand rotation, size or position
+export interface HandFeatures {
+  curl: number[]; // Per finger (thumb..pinky): total joint bend, 0 = straight, 1 = fully curled
+  thumbSpread: number; // Thumb tip to pinky MCP, in palm lengths
+  thumbAcross: number; // Thumb tip height above the palm plane (palm side positive), in palm lengths
+  pinchDistance: number; // Thumb tip to index tip, in palm lengths
+}
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// One detected hand in a camera frame
+export interface HandReading {
+  landmarks: Landmark[];
+  handedness?: Handedness;
+  score: number; // MediaPipe's confidence in the handedness call, 0-1
+  features: HandFeatures;
+  gesture: GestureType;
 }
 
 export interface VisionState {
   handCount: number;
   gesture: GestureType;
   isTurbo: boolean;
+  // Analog controls (0..1 unless noted); absent = digital behaviour
+  jumpStrength?: number; // Palm height: low hand = short hop, high hand = full jump
+  laneX?: number; // Horizontal position, -1 (left) .. 1 (right)
+  turboIntensity?: number; // How far apart the two hands are
+  // Buttons and keys press actions directly; when set, the gesture fields are for show only
+  pressed?: GameAction[];
+  // Camera-only extras from the gesture filter
+  rawGesture?: GestureType; // Unsmoothed per-frame label
+  confidence?: number; // Share of recent frames agreeing with `gesture`
+  gestureEvents?: GestureEvent[]; // Onsets ("jump started") and releases this frame
+  hands?: HandReading[]; // Per-hand detail for calibration and diagnostics
+  capturedAt?: number; // performance.now() when the camera frame was grabbed
+  latencyMs?: number; // Capture to finished detection
+  inferenceMs?: number; // Time the landmarker itself spent on the frame
+  ageMs?: number; // Capture to when the game read this state
+  players?: VisionState[]; // Versus mode: one state per player, left player first
 }
 
-export interface Entity {
+// How versus mode tells the two players apart on camera: by which hand is
+// raised (left hand = player 1) or by which half of the picture it is in
+export type VersusSplit = 'HAND' | 'HALF';
+
+export interface Rect {
   x: number;
   y: number;
   width: number;
   height: number;
+}
+
+export interface Entity extends Rect {
   color: string;
+  // Position at the start of the last simulation step, for interpolated rendering
+  prevX: number;
+  prevY: number;
+}
+
+export type RunnerPose = 'RUN' | 'JUMP' | 'DUCK';
+
+export interface HitboxSettings {
+  margin: number; // px the runner's boxes are shrunk by on every side
 }
 
 export interface Player extends Entity {
+  homeX: number; // Where the runner stands with no lane input
   vy: number;
   isJumping: boolean;
   isDucking: boolean;
+  airJumpUsed: boolean; // Double-jump spent since leaving the ground
+}
+
+export type PowerUpType = 'SHIELD' | 'SLOW_MO' | 'MAGNET' | 'DOUBLE_JUMP';
+
+export type CollectibleType = 'COIN' | PowerUpType;
+
+export interface Collectible extends Entity {
+  type: CollectibleType;
+}
+
+export type ObstacleType = 'CACTUS' | 'TALL_CACTUS' | 'BIRD' | 'LOW_BIRD' | 'SINE_BIRD' | 'GAP';
+
+// Vertical bobbing for moving hazards: y = baseY + amplitude * sin(2π * age / period)
+export interface ObstacleMotion {
+  baseY: number;
+  amplitude: number;
+  period: number; // Seconds
+  age: number; // Seconds since spawning
 }
 
 export interface Obstacle extends Entity {
-  type: 'CACTUS' | 'BIRD';
+  type: ObstacleType;
+  motion?: ObstacleMotion;
+  broken?: boolean; // Taken out by a shield; kept until off-screen so the spawner sees the same track
+  trackX?: number; // Spawn position along the track, exact for every runner
+}
+
+// One point on a difficulty curve, keyed by distance travelled. The simulation
+// interpolates linearly between keyframes and holds the last one.
+export interface DifficultyKeyframe {
+  distance: number; // px travelled
+  speed: number; // px/s before turbo
+  minGap: number; // px between obstacles, on top of currentSpeed / 6
+  spawnRate: number; // Chance per second of a spawn once the gap allows one
+  mix: Record<string, number>; // Pattern id -> relative weight (see game/patterns.ts)
+  collectibleRate?: number; // Chance per second of coins or a power-up (none when unset)
+  powerUpShare?: number; // Share of those spawns that are power-ups
+}
+
+export interface DifficultyCurve {
+  name: string;
+  keyframes: DifficultyKeyframe[]; // Sorted by distance
+}
+
+// Counters kept by the simulation for commentary and stats screens
+export interface RunStats {
+  jumps: number;
+  ducks: number;
+  turboTime: number; // Seconds spent with turbo engaged
+  coins: number;
+  powerUpsUsed: number;
+  bestCombo: number;
+}
+
+// Where the score came from
+export interface ScoreParts {
+  obstacles: number; // Cleared obstacles, times the combo multiplier
+  distance: number;
+  coins: number;
+}
+
+export interface SimState {
+  seed: number;
+  bindings: ActionBindings; // Fixed for the run so replays resolve inputs the same way
+  difficulty: DifficultyCurve; // Likewise fixed for the run
+  hitboxes: HitboxSettings; // Fixed for the run, like the bindings
+  spawnCursor: number; // Track distance up to which spawns were rolled
+  rng: { state: number };
+  lootRng: { state: number }; // Separate stream so collectibles never change the obstacles
+  player: Player;
+  obstacles: Obstacle[];
+  collectibles: Collectible[];
+  heldPowerUp: PowerUpType | null; // Collected, waiting for the power-up action
+  activePowerUps: Partial<Record<PowerUpType, number>>; // Seconds left
+  combo: number; // Obstacles cleared since the last hit
+  prevActions: Record<GameAction, boolean>; // Last step's actions, for press edges
+  frameCount: number; // Simulation ticks since the run started
+  elapsed: number; // Seconds of simulated time
+  currentSpeed: number; // px/s
+  distance: number; // px travelled, drives the difficulty curve
+  score: number;
+  scoreParts: ScoreParts;
+  stats: RunStats;
+  crashedInto: Obstacle | null;
+}
+
+// Everything the commentary providers know about a finished run
+export interface RunSummary extends RunStats {
+  score: number;
+  duration: number; // Seconds survived
+  causeOfDeath: ObstacleType | null;
+  personalBest: number; // Best score before this run
+}
+
+// One finished run in the local history
+export interface RunRecord extends RunStats {
+  id: string;
+  playerId: string;
+  playedAt: string; // ISO timestamp
+  score: number;
+  duration: number; // Seconds survived
+  causeOfDeath: ObstacleType | null;
+  inputSource: InputSource | null; // Device used for most of the run
+  difficulty: Difficulty;
+}
+
+// Named player the history and leaderboard are kept under
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: string;
 }
+
+// Where another runner on the same seed is, for drawing them next to the
+// local one: a ghost from a replay, or a live opponent over the network
+export interface RunnerSnapshot {
+  distance: number; // px of track covered
+  speed: number; // px/s, to extrapolate between updates
+  y: number;
+  height: number;
+  isJumping: boolean;
+  isDucking: boolean;
+  score: number;
+  crashed: boolean;
+}
+
+// Emitted by the simulation so the UI can react without diffing state
+export type SimEvent =
+  | { type: 'JUMP' }
+  | { type: 'DUCK' }
+  | { type: 'SPAWN'; obstacle: Obstacle }
+  | { type: 'SCORE'; points: number; total: number }
+  | { type: 'COLLECT'; item: Collectible }
+  | { type: 'POWER_UP'; powerUp: PowerUpType; active: boolean } // Activated or ran out
+  | { type: 'SHIELD_BREAK'; obstacle: Obstacle }
+  | { type: 'COMBO'; combo: number; multiplier: number } // Multiplier went up
+  | { type: 'COLLISION'; obstacle: Obstacle };
@@ -1,18 +1,30 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The CDN fallback must serve the WASM runtime matching the bundled JS
+    const tasksVision = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/package.json'), 'utf8'));
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
       plugins: [react()],
+      worker: {
+        // The vision worker is a module worker (MediaPipe loads its WASM via dynamic import there)
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.VISION_WASM_PATH': JSON.stringify(env.VISION_WASM_PATH),
+        'process.env.VISION_MODEL_PATH': JSON.stringify(env.VISION_MODEL_PATH),
+        'process.env.TASKS_VISION_VERSION': JSON.stringify(tasksVision.version),
+        'process.env.COMMENTARY_URL': JSON.stringify(env.COMMENTARY_URL),
+        'process.env.RACE_SERVER_URL': JSON.stringify(env.RACE_SERVER_URL)
       },
       resolve: {
         alias: {